@@ -5,6 +5,8 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AuthProvider, useAuth } from "@/contexts/AuthContext";
 import { WellbeingProvider } from "@/contexts/WellbeingContext";
+import { CallProvider } from "@/contexts/CallContext";
+import { OutboxProvider } from "@/contexts/OutboxContext";
 import AuthPage from "./pages/AuthPage";
 import ChatDashboard from "./pages/ChatDashboard";
 import NotFound from "./pages/NotFound";
@@ -58,7 +60,11 @@ const AppRoutes = () => {
         element={
           <ProtectedRoute>
             <WellbeingProvider>
-              <ChatDashboard />
+              <OutboxProvider>
+                <CallProvider>
+                  <ChatDashboard />
+                </CallProvider>
+              </OutboxProvider>
             </WellbeingProvider>
           </ProtectedRoute>
         }
@@ -0,0 +1,177 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useCall } from '@/hooks/useCall';
+import { formatDuration } from '@/lib/attachments';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Mic, MicOff, Phone, PhoneOff, Video, VideoOff } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+// Plays a stream in a video (or audio) element; srcObject can't be set through a prop
+const StreamPlayer: React.FC<{ stream: MediaStream | null; muted?: boolean; audioOnly?: boolean; className?: string }> = ({
+  stream,
+  muted,
+  audioOnly,
+  className = '',
+}) => {
+  const mediaRef = useRef<HTMLVideoElement & HTMLAudioElement>(null);
+
+  useEffect(() => {
+    if (mediaRef.current) mediaRef.current.srcObject = stream;
+  }, [stream]);
+
+  if (audioOnly) return <audio ref={mediaRef} autoPlay muted={muted} className="hidden" />;
+  return <video ref={mediaRef} autoPlay playsInline muted={muted} className={className} />;
+};
+
+// Counts up from when the call was answered
+const CallTimer: React.FC<{ since?: number }> = ({ since }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  return <span className="tabular-nums">{since ? formatDuration(Math.max(0, (now - since) / 1000)) : '0:00'}</span>;
+};
+
+// The ringing card for incoming calls and the full-screen call view, on top of whatever chat
+// is open
+const CallOverlay: React.FC = () => {
+  const { call, accept, decline, hangUp, toggleMute, toggleCamera } = useCall();
+  const { toast } = useToast();
+
+  const run = (action: () => Promise<void>, title: string) => async () => {
+    try {
+      await action();
+    } catch (error) {
+      toast({
+        title,
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const isVideo = call?.session.media === 'video';
+  const initial = call?.peerName.charAt(0) || 'U';
+
+  return (
+    <AnimatePresence>
+      {call?.phase === 'incoming' && (
+        <motion.div
+          key="incoming"
+          initial={{ y: -20, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          exit={{ y: -20, opacity: 0 }}
+          className="fixed left-1/2 top-4 z-50 flex w-[min(24rem,calc(100%-2rem))] -translate-x-1/2 items-center gap-3 rounded-2xl border bg-card p-4 shadow-lg"
+          role="alertdialog"
+          aria-label={`Incoming call from ${call.peerName}`}
+        >
+          <Avatar className="h-12 w-12">
+            <AvatarFallback className="bg-accent text-accent-foreground">{initial}</AvatarFallback>
+          </Avatar>
+          <div className="min-w-0 flex-1">
+            <p className="truncate font-semibold text-foreground">{call.peerName}</p>
+            <p className="text-sm text-muted-foreground">Incoming {isVideo ? 'video' : 'voice'} call…</p>
+          </div>
+          <Button
+            size="icon"
+            variant="destructive"
+            className="rounded-full"
+            onClick={run(decline, "Couldn't decline the call")}
+            aria-label="Decline"
+          >
+            <PhoneOff className="h-5 w-5" />
+          </Button>
+          <Button
+            size="icon"
+            className="rounded-full bg-success text-success-foreground hover:bg-success/90"
+            onClick={run(accept, "Couldn't join the call")}
+            aria-label="Accept"
+          >
+            {isVideo ? <Video className="h-5 w-5" /> : <Phone className="h-5 w-5" />}
+          </Button>
+        </motion.div>
+      )}
+
+      {call && call.phase !== 'incoming' && (
+        <motion.div
+          key="call"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-50 flex flex-col bg-foreground/95 text-background"
+          role="dialog"
+          aria-label={`Call with ${call.peerName}`}
+        >
+          <div className="relative flex flex-1 items-center justify-center overflow-hidden">
+            {isVideo && call.remoteStream ? (
+              <StreamPlayer stream={call.remoteStream} className="h-full w-full object-contain" />
+            ) : (
+              <div className="flex flex-col items-center gap-3">
+                <Avatar className="h-24 w-24">
+                  <AvatarFallback className="bg-accent text-3xl text-accent-foreground">{initial}</AvatarFallback>
+                </Avatar>
+                <p className="text-xl font-semibold">{call.peerName}</p>
+              </div>
+            )}
+            {!isVideo && <StreamPlayer stream={call.remoteStream} audioOnly />}
+
+            {isVideo && call.localStream && (
+              <StreamPlayer
+                stream={call.localStream}
+                muted
+                className={`absolute bottom-4 right-4 h-32 w-24 rounded-lg bg-muted object-cover shadow-lg sm:h-40 sm:w-56 ${
+                  call.cameraOff ? 'opacity-0' : ''
+                }`}
+              />
+            )}
+          </div>
+
+          <div className="flex flex-col items-center gap-4 p-6">
+            <p className="text-sm opacity-80">
+              {call.phase === 'outgoing' && 'Calling…'}
+              {call.phase === 'connecting' && 'Connecting…'}
+              {call.phase === 'active' && <CallTimer since={call.session.answeredAt} />}
+            </p>
+            <div className="flex items-center gap-4">
+              <Button
+                size="icon"
+                variant="secondary"
+                className="h-12 w-12 rounded-full"
+                onClick={toggleMute}
+                aria-label={call.muted ? 'Unmute' : 'Mute'}
+              >
+                {call.muted ? <MicOff className="h-5 w-5" /> : <Mic className="h-5 w-5" />}
+              </Button>
+              {isVideo && (
+                <Button
+                  size="icon"
+                  variant="secondary"
+                  className="h-12 w-12 rounded-full"
+                  onClick={toggleCamera}
+                  aria-label={call.cameraOff ? 'Turn camera on' : 'Turn camera off'}
+                >
+                  {call.cameraOff ? <VideoOff className="h-5 w-5" /> : <Video className="h-5 w-5" />}
+                </Button>
+              )}
+              <Button
+                size="icon"
+                variant="destructive"
+                className="h-14 w-14 rounded-full"
+                onClick={run(hangUp, "Couldn't end the call")}
+                aria-label="Hang up"
+              >
+                <PhoneOff className="h-6 w-6" />
+              </Button>
+            </div>
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default CallOverlay;
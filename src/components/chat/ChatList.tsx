@@ -1,17 +1,19 @@
 import React from 'react';
 import { motion } from 'framer-motion';
 import { format, isToday, isYesterday } from 'date-fns';
-import { Chat } from '@/hooks/useChat';
+import type { ChatSummary } from '@/hooks/useChat';
 import { useAuth } from '@/contexts/AuthContext';
+import { stripMarkdown } from '@/lib/markdown';
+import { usePresence } from '@/hooks/usePresence';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
-import { Users, MessageCircle } from 'lucide-react';
+import { Users, MessageCircle, Pin, BellOff } from 'lucide-react';
 
 interface ChatListProps {
-  chats: Chat[];
+  chats: ChatSummary[];
   selectedChatId: string | null;
-  onSelectChat: (chat: Chat) => void;
+  onSelectChat: (chat: ChatSummary) => void;
 }
 
 const formatLastMessageTime = (timestamp: number | undefined): string => {
@@ -26,10 +28,30 @@ const formatLastMessageTime = (timestamp: number | undefined): string => {
   return format(date, 'MMM d');
 };
 
+const PRESENCE_DOT_COLORS = {
+  online: 'bg-status-online',
+  away: 'bg-status-away',
+} as const;
+
+// Green while online, amber while away, nothing when offline
+const PresenceDot: React.FC<{ uid?: string }> = ({ uid }) => {
+  const presence = usePresence(uid);
+  if (!presence || presence.state === 'offline') return null;
+
+  return (
+    <span
+      className={`absolute bottom-0 right-0 h-3 w-3 rounded-full border-2 border-background ${
+        PRESENCE_DOT_COLORS[presence.state]
+      }`}
+      aria-label={presence.state === 'online' ? 'Online' : 'Away'}
+    />
+  );
+};
+
 const ChatList: React.FC<ChatListProps> = ({ chats, selectedChatId, onSelectChat }) => {
   const { user } = useAuth();
 
-  const getChatDisplayInfo = (chat: Chat) => {
+  const getChatDisplayInfo = (chat: ChatSummary) => {
     if (chat.isGroup) {
       return {
         name: chat.groupName || 'Group Chat',
@@ -39,7 +61,7 @@ const ChatList: React.FC<ChatListProps> = ({ chats, selectedChatId, onSelectChat
     }
     
     // For one-to-one chats, show the other participant
-    const otherParticipantId = chat.participants.find((p) => p !== user?.uid);
+    const otherParticipantId = Object.keys(chat.participantNames).find((p) => p !== user?.uid);
     const otherParticipantName = otherParticipantId 
       ? chat.participantNames[otherParticipantId] 
       : 'Unknown';
@@ -71,6 +93,7 @@ const ChatList: React.FC<ChatListProps> = ({ chats, selectedChatId, onSelectChat
         {chats.map((chat, index) => {
           const { name, initial, photo } = getChatDisplayInfo(chat);
           const isSelected = selectedChatId === chat.id;
+          const unreadCount = isSelected ? 0 : chat.unreadCount || 0;
           
           return (
             <motion.button
@@ -94,31 +117,30 @@ const ChatList: React.FC<ChatListProps> = ({ chats, selectedChatId, onSelectChat
                     {chat.isGroup ? <Users className="h-5 w-5" /> : initial}
                   </AvatarFallback>
                 </Avatar>
-                {/* Online indicator */}
                 {!chat.isGroup && (
-                  <span className="absolute bottom-0 right-0 h-3 w-3 rounded-full bg-status-online border-2 border-background" />
+                  <PresenceDot uid={Object.keys(chat.participantNames).find((p) => p !== user?.uid)} />
                 )}
               </div>
               
               <div className="flex-1 min-w-0">
                 <div className="flex items-center justify-between mb-1">
-                  <h3 className={`font-medium truncate ${
+                  <h3 className={`truncate ${unreadCount ? 'font-semibold' : 'font-medium'} ${
                     isSelected ? 'text-accent-foreground' : 'text-foreground'
                   }`}>
                     {name}
                   </h3>
-                  {chat.lastMessageTime && (
-                    <span className="text-xs text-muted-foreground shrink-0 ml-2">
-                      {formatLastMessageTime(chat.lastMessageTime)}
-                    </span>
-                  )}
+                  <span className="flex items-center gap-1 text-xs text-muted-foreground shrink-0 ml-2">
+                    {chat.muted && <BellOff className="h-3 w-3" aria-label="Muted" />}
+                    {chat.pinned && <Pin className="h-3 w-3" aria-label="Pinned" />}
+                    {formatLastMessageTime(chat.lastMessageTime)}
+                  </span>
                 </div>
                 
                 <div className="flex items-center gap-2">
                   <p className={`text-sm truncate ${
                     isSelected ? 'text-accent-foreground/80' : 'text-muted-foreground'
                   }`}>
-                    {chat.lastMessage || 'No messages yet'}
+                    {chat.lastMessage ? stripMarkdown(chat.lastMessage) : 'No messages yet'}
                   </p>
                   
                   {chat.isGroup && (
@@ -126,6 +148,15 @@ const ChatList: React.FC<ChatListProps> = ({ chats, selectedChatId, onSelectChat
                       Group
                     </Badge>
                   )}
+
+                  {unreadCount > 0 && (
+                    <Badge
+                      variant={chat.muted ? 'secondary' : 'default'}
+                      className="ml-auto text-[10px] px-1.5 py-0 min-w-[1.25rem] justify-center shrink-0"
+                    >
+                      {unreadCount > 99 ? '99+' : unreadCount}
+                    </Badge>
+                  )}
                 </div>
               </div>
             </motion.button>
@@ -0,0 +1,99 @@
+import React from 'react';
+import { hasActiveFilters, type MessageSearchFilters } from '@/lib/messageSearch';
+import MessageSearchFilterMenu from '@/components/chat/MessageSearchFilterMenu';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ChevronDown, ChevronUp, Loader2, Search, X } from 'lucide-react';
+
+interface ChatSearchBarProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  filters: MessageSearchFilters;
+  onFiltersChange: (filters: MessageSearchFilters) => void;
+  senders: Array<{ uid: string; name: string }>;
+  searching: boolean;
+  hitCount: number;
+  // Position of the selected hit, 0 being the newest
+  activeIndex: number;
+  onOlder: () => void;
+  onNewer: () => void;
+  onClose: () => void;
+}
+
+// Search field under the chat header with the hit count and previous/next buttons.
+// Enter steps to the next older hit, Shift+Enter back, Escape closes.
+const ChatSearchBar: React.FC<ChatSearchBarProps> = ({
+  query,
+  onQueryChange,
+  filters,
+  onFiltersChange,
+  senders,
+  searching,
+  hitCount,
+  activeIndex,
+  onOlder,
+  onNewer,
+  onClose,
+}) => {
+  const hasSearch = !!query.trim() || hasActiveFilters(filters);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      onClose();
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (e.shiftKey) onNewer();
+      else onOlder();
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-1 border-b bg-card px-4 py-2">
+      <div className="relative flex-1">
+        <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          autoFocus
+          value={query}
+          onChange={(e) => onQueryChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search in this conversation..."
+          className="h-9 border-0 bg-muted pl-10"
+          aria-label="Search messages"
+        />
+      </div>
+      <span className="min-w-[4.5rem] text-center text-xs tabular-nums text-muted-foreground" aria-live="polite">
+        {searching ? (
+          <Loader2 className="mx-auto h-4 w-4 animate-spin" />
+        ) : hasSearch ? (
+          hitCount ? `${activeIndex + 1} of ${hitCount}` : 'No results'
+        ) : null}
+      </span>
+      <MessageSearchFilterMenu filters={filters} onChange={onFiltersChange} senders={senders} />
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8"
+        onClick={onOlder}
+        disabled={activeIndex >= hitCount - 1}
+        aria-label="Previous result"
+      >
+        <ChevronUp className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8"
+        onClick={onNewer}
+        disabled={activeIndex <= 0}
+        aria-label="Next result"
+      >
+        <ChevronDown className="h-4 w-4" />
+      </Button>
+      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onClose} aria-label="Close search">
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+};
+
+export default ChatSearchBar;
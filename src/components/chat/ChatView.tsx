@@ -1,19 +1,68 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useLayoutEffect, useMemo, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { format, isToday, isYesterday } from 'date-fns';
-import { useChat, Message } from '@/hooks/useChat';
+import {
+  useChat,
+  canDeleteForEveryone,
+  Chat,
+  ChatPreferences,
+  ChatSummary,
+  Message,
+  SendMessageOptions,
+  UNDO_WINDOW_MS,
+} from '@/hooks/useChat';
 import { useAuth } from '@/contexts/AuthContext';
-import { getSupportiveResponse } from '@/lib/ai';
+import { useCall } from '@/hooks/useCall';
+import { useOutbox } from '@/hooks/useOutbox';
+import { getSupportiveResponse, type ToxicityResult } from '@/lib/ai';
+import { getMessageReceipt } from '@/lib/readReceipts';
+import { hideLinks } from '@/lib/safety';
+import { stripMarkdown } from '@/lib/markdown';
+import { QUICK_REACTIONS, summarizeReactions } from '@/lib/reactions';
+import { getChatMood } from '@/lib/chatMood';
+import { useSafetyScreen } from '@/hooks/useSafetyScreen';
+import { useDraft } from '@/hooks/useDraft';
+import { usePendingAttachments } from '@/hooks/usePendingAttachments';
+import { useVoiceRecorder } from '@/hooks/useVoiceRecorder';
+import { useMessageSearch } from '@/hooks/useMessageSearch';
+import { useVirtualList } from '@/hooks/useVirtualList';
+import { usePresence } from '@/hooks/usePresence';
+import { describePresence } from '@/lib/presence';
+import { searchTerms, type MessageSearchFilters } from '@/lib/messageSearch';
+import { ACCEPTED_ATTACHMENT_TYPES, formatDuration, prepareVoiceNote } from '@/lib/attachments';
+import type { OutboxEntry } from '@/lib/outbox';
+import GroupInfoSheet from '@/components/chat/GroupInfoSheet';
+import EditHistoryDialog from '@/components/chat/EditHistoryDialog';
+import EmojiPicker from '@/components/chat/EmojiPicker';
+import MessageText from '@/components/chat/MessageText';
+import MessageAttachments from '@/components/chat/MessageAttachments';
+import PendingAttachmentList from '@/components/chat/PendingAttachmentList';
+import { Waveform } from '@/components/chat/VoiceNotePlayer';
+import ChatSearchBar from '@/components/chat/ChatSearchBar';
+import CrisisResourcesPanel from '@/components/wellbeing/CrisisResourcesPanel';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 import { useToast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
+import {
+  DELETED_MESSAGE_TEXT,
+  isEventMessage,
+  type CallMedia,
+  type MessageCursor,
+  type MessageReply,
+  type UserPresence,
+} from '@/lib/backend';
 import {
   Send,
   Smile,
+  Paperclip,
+  Mic,
   MoreVertical,
   Phone,
+  PhoneMissed,
   Video,
   ArrowLeft,
   Trash2,
@@ -22,7 +71,26 @@ import {
   Angry,
   AlertTriangle,
   Loader2,
+  Check,
+  CheckCheck,
+  EyeOff,
+  Ban,
+  Reply,
+  Clock,
+  Pencil,
+  X,
+  AlertCircle,
 } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -31,11 +99,21 @@ import {
 } from '@/components/ui/dropdown-menu';
 
 interface ChatViewProps {
+  chat: Chat;
+  // The chat's entry in the user's chat list
+  summary: ChatSummary;
   chatId: string;
   chatName: string;
   chatPhoto?: string;
   isGroup: boolean;
+  // People the user has chatted with one-to-one; Safety Mode hides links from everyone else
+  contactIds: string[];
+  onNotifyTrustedContact: () => Promise<void>;
+  onPreferencesChange: (preferences: ChatPreferences) => Promise<void>;
   onBack?: () => void;
+  // A message to scroll to once the chat has loaded, e.g. a hit from the global search
+  focusMessage?: MessageCursor | null;
+  onFocusHandled?: () => void;
 }
 
 const emotionIcons: Record<string, React.ReactNode> = {
@@ -46,6 +124,15 @@ const emotionIcons: Record<string, React.ReactNode> = {
   anxious: <AlertTriangle className="h-3 w-3 text-warning" />,
 };
 
+// Shorter recordings are treated as an accidental tap
+const MIN_VOICE_SECONDS = 0.5;
+
+// Tallest the composer grows (px) before it scrolls, about six lines
+const COMPOSER_MAX_HEIGHT = 144;
+
+// Distance from the top of the message list (px) at which older messages are fetched
+const LOAD_OLDER_THRESHOLD = 80;
+
 const formatMessageTime = (timestamp: number): string => {
   const date = new Date(timestamp);
   if (isToday(date)) {
@@ -56,6 +143,234 @@ const formatMessageTime = (timestamp: number): string => {
   return format(date, 'MMM d, HH:mm');
 };
 
+// Horizontal drag distance (px) that counts as a swipe-to-reply
+const SWIPE_REPLY_DISTANCE = 60;
+// How long a jumped-to message stays highlighted
+const HIGHLIGHT_MS = 2000;
+
+const messageElementId = (messageId: string) => `message-${messageId}`;
+
+// Height assumed for a message row until it has rendered (px)
+const MESSAGE_ESTIMATE_HEIGHT = 72;
+
+interface ReplyQuoteProps {
+  reply: MessageReply;
+  // The quoted message when it is loaded, so a later deletion shows through
+  original?: Message;
+  // Safety Mode is covering the quoted message
+  covered?: boolean;
+  currentUserId?: string;
+  // Safety Mode hides links quoted from people who aren't contacts
+  maskLinks?: boolean;
+  onClick?: () => void;
+}
+
+const ReplyQuote: React.FC<ReplyQuoteProps> = ({ reply, original, covered, currentUserId, maskLinks, onClick }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    disabled={!onClick}
+    className="block w-full min-w-0 text-left border-l-2 border-primary rounded-md bg-background/60 px-2 py-1 enabled:hover:bg-background/80"
+  >
+    <p className="text-xs font-medium text-primary truncate">
+      {reply.senderId === currentUserId ? 'You' : reply.senderName}
+    </p>
+    <p className="text-xs text-muted-foreground truncate">
+      {original?.isDeleted || reply.isDeleted
+        ? DELETED_MESSAGE_TEXT
+        : covered
+          ? 'Hidden by Safety Mode'
+          : maskLinks
+          ? hideLinks(stripMarkdown(reply.snippet))
+          : stripMarkdown(reply.snippet)}
+    </p>
+  </button>
+);
+
+// Emotion icon; messages with a full analysis list every emotion found on hover
+const EmotionBadge: React.FC<{ message: Message }> = ({ message }) => {
+  const icon = message.emotion && emotionIcons[message.emotion];
+  if (!icon) return null;
+
+  const emotions = message.emotionAnalysis?.emotions || [];
+  if (!emotions.length) return <span className="opacity-70">{icon}</span>;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span className="opacity-70 cursor-default">{icon}</span>
+      </TooltipTrigger>
+      <TooltipContent className="text-xs space-y-0.5">
+        {emotions.map(({ emotion, intensity }) => (
+          <p key={emotion} className="flex justify-between gap-3">
+            <span className="capitalize">{emotion}</span>
+            <span className="text-muted-foreground">{Math.round(intensity * 100)}%</span>
+          </p>
+        ))}
+      </TooltipContent>
+    </Tooltip>
+  );
+};
+
+interface ReactionChipsProps {
+  chat: Chat;
+  message: Message;
+  currentUserId?: string;
+  onToggle: (emoji: string) => void;
+}
+
+// Aggregated reactions under a bubble; hovering a chip shows who reacted
+const ReactionChips: React.FC<ReactionChipsProps> = ({ chat, message, currentUserId, onToggle }) => {
+  const reactions = summarizeReactions(message, currentUserId);
+  if (!reactions.length) return null;
+
+  const nameOf = (uid: string) => (uid === currentUserId ? 'You' : chat.participantNames[uid] || 'Unknown');
+
+  return (
+    <div className="flex flex-wrap gap-1 mt-1">
+      {reactions.map(({ emoji, userIds, reactedByMe }) => (
+        <Tooltip key={emoji}>
+          <TooltipTrigger asChild>
+            <button
+              type="button"
+              onClick={() => onToggle(emoji)}
+              aria-pressed={reactedByMe}
+              className={`flex items-center gap-1 rounded-full border px-1.5 py-0.5 text-xs ${
+                reactedByMe ? 'border-primary bg-primary/10' : 'border-border bg-card'
+              }`}
+            >
+              <span>{emoji}</span>
+              <span className="text-muted-foreground">{userIds.length}</span>
+            </button>
+          </TooltipTrigger>
+          <TooltipContent className="text-xs">{userIds.map(nameOf).join(', ')}</TooltipContent>
+        </Tooltip>
+      ))}
+    </div>
+  );
+};
+
+const ReadReceipt: React.FC<{ chat: Chat; message: Message }> = ({ chat, message }) => {
+  const { status, readBy, deliveredTo } = getMessageReceipt(chat, message);
+
+  const icon =
+    status === 'sent' ? (
+      <Check className="h-3 w-3 text-muted-foreground" aria-label="Sent" />
+    ) : (
+      <CheckCheck
+        className={`h-3 w-3 ${status === 'read' ? 'text-primary' : 'text-muted-foreground'}`}
+        aria-label={status === 'read' ? 'Read' : 'Delivered'}
+      />
+    );
+
+  if (!chat.isGroup) return icon;
+
+  // Groups show who has read or received the message
+  const recipients = chat.participants.filter((uid) => uid !== message.senderId);
+  const nameOf = (uid: string) => chat.participantNames[uid] || 'Unknown';
+  const unreadDelivered = deliveredTo.filter((uid) => !readBy.includes(uid));
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span className="cursor-default">{icon}</span>
+      </TooltipTrigger>
+      <TooltipContent className="text-xs space-y-0.5">
+        <p>
+          Read by {readBy.length} of {recipients.length}
+        </p>
+        {readBy.length > 0 && <p className="text-muted-foreground">Read: {readBy.map(nameOf).join(', ')}</p>}
+        {unreadDelivered.length > 0 && (
+          <p className="text-muted-foreground">Delivered: {unreadDelivered.map(nameOf).join(', ')}</p>
+        )}
+      </TooltipContent>
+    </Tooltip>
+  );
+};
+
+// Re-rendered every minute so "last seen 5 minutes ago" stays current
+const PresenceLabel: React.FC<{ presence: UserPresence | null }> = ({ presence }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  return (
+    <p className={`text-xs ${presence?.state === 'online' ? 'text-status-online' : 'text-muted-foreground'}`}>
+      {describePresence(presence, now)}
+    </p>
+  );
+};
+
+interface OutboxBubbleProps {
+  entry: OutboxEntry;
+  online: boolean;
+  uploadProgress: Record<string, number>;
+  onCancel: () => void;
+  onResend: () => void;
+}
+
+// An own message the outbox hasn't delivered yet, or has given up on until it is resent
+const OutboxBubble: React.FC<OutboxBubbleProps> = ({ entry, online, uploadProgress, onCancel, onResend }) => {
+  const { message, attachments, status } = entry;
+  const failed = status === 'failed';
+  const label = failed
+    ? 'Not sent'
+    : status === 'sending'
+      ? 'Sending...'
+      : online
+        ? 'Trying again shortly'
+        : 'Waiting for connection';
+
+  return (
+    <div className="max-w-[75%] flex flex-col items-end">
+      <div
+        className={`px-4 py-2 rounded-2xl rounded-br-md bg-chat-sent ${
+          failed ? 'ring-1 ring-destructive/50' : 'opacity-80'
+        }`}
+      >
+        {message.replyTo && (
+          <div className="mb-1.5">
+            <ReplyQuote reply={message.replyTo} currentUserId={message.senderId} />
+          </div>
+        )}
+        {attachments.length > 0 && (
+          <PendingAttachmentList
+            attachments={attachments}
+            progress={status === 'sending' ? uploadProgress : undefined}
+          />
+        )}
+        {message.text && <MessageText text={message.text} className="text-foreground" />}
+        <div className="flex items-center justify-end gap-1.5 mt-1">
+          <span className="text-[10px] text-muted-foreground">{formatMessageTime(message.timestamp)}</span>
+          {failed ? (
+            <AlertCircle className="h-3.5 w-3.5 text-destructive" aria-label="Not sent" />
+          ) : (
+            <Clock className="h-3.5 w-3.5 text-muted-foreground" aria-label="Pending" />
+          )}
+        </div>
+      </div>
+      <div className="flex items-center gap-2 mt-1 mr-1 text-xs" aria-live="polite">
+        <span className={failed ? 'text-destructive' : 'text-muted-foreground'} title={entry.error}>
+          {label}
+        </span>
+        {failed && (
+          <button type="button" onClick={onResend} className="font-medium text-primary hover:underline">
+            Resend
+          </button>
+        )}
+        {status !== 'sending' && (
+          <button type="button" onClick={onCancel} className="text-muted-foreground hover:underline">
+            Cancel
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
 const TypingIndicator: React.FC = () => (
   <div className="flex items-center gap-1 text-muted-foreground">
     <span className="typing-dot h-2 w-2 rounded-full bg-status-typing" />
@@ -65,29 +380,205 @@ const TypingIndicator: React.FC = () => (
 );
 
 const ChatView: React.FC<ChatViewProps> = ({
+  chat,
+  summary,
   chatId,
   chatName,
   chatPhoto,
   isGroup,
+  contactIds,
+  onNotifyTrustedContact,
+  onPreferencesChange,
   onBack,
+  focusMessage,
+  onFocusHandled,
 }) => {
   const { user } = useAuth();
-  const { messages, loading, isTyping, sendMessage, deleteMessage, setTypingStatus } = useChat(chatId);
+  const {
+    messages,
+    loading,
+    hasMore,
+    loadingOlder,
+    loadOlder,
+    loadUntil,
+    isTyping,
+    sendMessage,
+    editMessage,
+    toggleReaction,
+    deleteForMe,
+    deleteForEveryone,
+    setTypingStatus,
+  } = useChat(chat, summary.unreadCount);
+  const { safetyMode, isCovered, reveal } = useSafetyScreen(messages);
+  const { call, startCall } = useCall();
+  const outbox = useOutbox();
+  const peerPresence = usePresence(isGroup ? null : chat.participants.find((uid) => uid !== user?.uid));
   const { toast } = useToast();
-  const [newMessage, setNewMessage] = useState('');
   const [sending, setSending] = useState(false);
   const [supportMessage, setSupportMessage] = useState<string | null>(null);
-  const scrollRef = useRef<HTMLDivElement>(null);
+  const [showCrisisResources, setShowCrisisResources] = useState(false);
+  const [showGroupInfo, setShowGroupInfo] = useState(false);
+  // Set when the classifier asks the sender to confirm a borderline message
+  const [pendingWarning, setPendingWarning] = useState<{
+    text: string;
+    toxicity: ToxicityResult;
+    editingId?: string;
+  } | null>(null);
+  // Own message being rewritten in the composer
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null);
+  // The composer text; while editing it holds the edit and the saved draft is left alone
+  const { draft: newMessage, setDraft: setNewMessage, restoreDraft } = useDraft(chatId, !editingMessage);
+  const pendingAttachments = usePendingAttachments();
+  const voiceRecorder = useVoiceRecorder();
+  const [historyMessageId, setHistoryMessageId] = useState<string | null>(null);
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  const [jumpTargetId, setJumpTargetId] = useState<string | null>(null);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  const [searchOpen, setSearchOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchFilters, setSearchFilters] = useState<MessageSearchFilters>({});
+  const [activeHitId, setActiveHitId] = useState<string | null>(null);
+  const { results: searchHits, searching } = useMessageSearch(
+    searchOpen ? [chatId] : [],
+    searchQuery,
+    searchFilters,
+    messages
+  );
+  // Queued messages show as pending bubbles until the stored message arrives with the same id
+  const queued = useMemo(
+    () => outbox.entries.filter((entry) => entry.chatId === chatId),
+    [outbox.entries, chatId]
+  );
+  const queuedIds = useMemo(() => new Set(queued.map((entry) => entry.id)), [queued]);
+  const outgoing = useMemo(() => {
+    const loadedIds = new Set(messages.map((message) => message.id));
+    return queued.filter((entry) => !loadedIds.has(entry.id));
+  }, [queued, messages]);
+  const activeHitIndex = Math.max(0, searchHits.findIndex((hit) => hit.message.id === activeHitId));
+  const highlightTerms = useMemo(() => (searchOpen ? searchTerms(searchQuery) : []), [searchOpen, searchQuery]);
+  // Swipe-to-reply only on touch screens, where dragging doesn't get in the way of selecting text
+  const isTouch = useMemo(() => window.matchMedia?.('(pointer: coarse)').matches ?? false, []);
+  const historyMessage = messages.find((message) => message.id === historyMessageId) || null;
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const messageKeys = useMemo(() => messages.map((message) => message.id), [messages]);
+  // Only the messages around the visible part of the history are rendered
+  const messageList = useVirtualList({ viewportRef, listRef, keys: messageKeys, estimateSize: MESSAGE_ESTIMATE_HEIGHT });
+  const openedAtRef = useRef(Date.now());
+  const { sync: syncMessageList, scrollToKey: scrollToMessage, indexes: renderedIndexes } = messageList;
+  const composerRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // Distance from the bottom to restore once an older page has been prepended
+  const scrollRestoreRef = useRef<number | null>(null);
+  const lastMessageIdRef = useRef<string | null>(null);
 
-  // Auto-scroll to bottom when new messages arrive
+  // Keep the reading position when older messages are prepended,
+  // otherwise auto-scroll to bottom when new messages arrive
+  useLayoutEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+
+    const lastMessageId = (outgoing[outgoing.length - 1] ?? messages[messages.length - 1])?.id ?? null;
+    if (scrollRestoreRef.current !== null) {
+      viewport.scrollTop = viewport.scrollHeight - scrollRestoreRef.current;
+      scrollRestoreRef.current = null;
+    } else if (lastMessageId !== lastMessageIdRef.current) {
+      viewport.scrollTop = viewport.scrollHeight;
+    }
+    lastMessageIdRef.current = lastMessageId;
+    // Render what is now in view before it is painted
+    syncMessageList();
+  }, [messages, outgoing, syncMessageList]);
+
+  useEffect(() => {
+    openedAtRef.current = Date.now();
+  }, [chatId]);
+
+  // Scroll a jumped-to message into view once it has rendered, and flash it
   useEffect(() => {
-    if (scrollRef.current) {
-      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    if (!jumpTargetId) return;
+
+    const element = document.getElementById(messageElementId(jumpTargetId));
+    if (!element) {
+      // Not rendered yet: bring it into the window first, then this runs again
+      scrollToMessage(jumpTargetId);
+      return;
     }
-  }, [messages]);
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    element.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    setHighlightedId(jumpTargetId);
+    setJumpTargetId(null);
+  }, [jumpTargetId, messages, scrollToMessage, renderedIndexes]);
+
+  useEffect(() => {
+    if (!highlightedId) return;
+
+    const timeout = setTimeout(() => setHighlightedId(null), HIGHLIGHT_MS);
+    return () => clearTimeout(timeout);
+  }, [highlightedId]);
+
+  // A page that added nothing must not leave a stale restore behind
+  useLayoutEffect(() => {
+    if (!loadingOlder) {
+      scrollRestoreRef.current = null;
+    }
+  }, [loadingOlder]);
+
+  // Fetch older messages when scrolled to the top
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport || !hasMore || loadingOlder) return;
+
+    const handleScroll = () => {
+      if (viewport.scrollTop > LOAD_OLDER_THRESHOLD) return;
+      scrollRestoreRef.current = viewport.scrollHeight - viewport.scrollTop;
+      // hasMore is left as it was, so scrolling back up tries again
+      loadOlder().catch((error) => {
+        console.error('Loading older messages failed:', error);
+        toast({
+          title: "Couldn't load older messages",
+          description: "Scroll up to try again.",
+          variant: "destructive",
+        });
+      });
+    };
+
+    viewport.addEventListener('scroll', handleScroll, { passive: true });
+    return () => viewport.removeEventListener('scroll', handleScroll);
+  }, [hasMore, loadingOlder, loadOlder, toast]);
+
+  // Grow the composer with its content up to COMPOSER_MAX_HEIGHT, then scroll
+  useLayoutEffect(() => {
+    const composer = composerRef.current;
+    if (!composer) return;
+
+    composer.style.height = 'auto';
+    composer.style.height = `${Math.min(composer.scrollHeight, COMPOSER_MAX_HEIGHT)}px`;
+  }, [newMessage]);
+
+  // Attachments and recordings belong to the chat they were started in
+  const { clear: clearAttachments } = pendingAttachments;
+  const { cancel: cancelRecording } = voiceRecorder;
+  useEffect(() => {
+    clearAttachments();
+    cancelRecording();
+  }, [chatId, clearAttachments, cancelRecording]);
+
+  const attachFiles = async (files: File[]) => {
+    if (!files.length) return;
+
+    const errors = await pendingAttachments.addFiles(files);
+    errors.forEach((error) => {
+      toast({
+        title: "Couldn't attach file",
+        description: error,
+        variant: "destructive",
+      });
+    });
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     setNewMessage(e.target.value);
     
     // Set typing status
@@ -104,18 +595,45 @@ const ChatView: React.FC<ChatViewProps> = ({
     }, 2000);
   };
 
-  const handleSend = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!newMessage.trim() || sending) return;
-    
+  const deliver = async (text: string, options?: SendMessageOptions, editingId?: string) => {
     setSending(true);
     try {
-      const emotion = await sendMessage(newMessage);
-      setNewMessage('');
-      
+      const result = editingId
+        ? await editMessage(editingId, text, options)
+        : await sendMessage(text, {
+            replyTo: replyingTo ?? undefined,
+            attachments: pendingAttachments.attachments,
+            ...options,
+          });
+
+      if (result?.status === 'needs-confirmation') {
+        setPendingWarning({ text, toxicity: result.toxicity, editingId });
+        return;
+      }
+
+      if (editingId) {
+        setEditingMessage(null);
+        restoreDraft();
+      } else {
+        setNewMessage('');
+        setReplyingTo(null);
+        // A queued message owns its files now
+        if (result) pendingAttachments.detach();
+        else pendingAttachments.clear();
+      }
+      if (!result) return;
+
+      // Crisis resources stay up until dismissed and take the place of the gentler tip
+      if (result.crisis) {
+        setSupportMessage(null);
+        setShowCrisisResources(true);
+        return;
+      }
+
       // Show supportive message if needed
-      if (emotion && emotion !== 'neutral' && emotion !== 'happy') {
-        const support = getSupportiveResponse(emotion);
+      const { emotion } = result;
+      if (!showCrisisResources && emotion !== 'neutral' && emotion !== 'happy') {
+        const support = await getSupportiveResponse(emotion, text);
         if (support) {
           setSupportMessage(support);
           setTimeout(() => setSupportMessage(null), 10000);
@@ -123,7 +641,7 @@ const ChatView: React.FC<ChatViewProps> = ({
       }
     } catch (error: any) {
       toast({
-        title: "Couldn't send message",
+        title: editingId ? "Couldn't edit message" : "Couldn't send message",
         description: error.message,
         variant: "destructive",
       });
@@ -132,13 +650,224 @@ const ChatView: React.FC<ChatViewProps> = ({
     }
   };
 
-  const handleDeleteMessage = async (messageId: string) => {
+  const canSend =
+    !sending &&
+    !pendingAttachments.preparing &&
+    (!!newMessage.trim() || (!editingMessage && pendingAttachments.attachments.length > 0));
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSend) return;
+
+    await deliver(newMessage, undefined, editingMessage?.id);
+  };
+
+  const startRecording = async () => {
     try {
-      await deleteMessage(messageId);
+      await voiceRecorder.start();
+    } catch (error) {
       toast({
-        title: "Message deleted",
-        description: "The message has been removed.",
+        title: "Couldn't record",
+        description: (error as Error).message,
+        variant: "destructive",
       });
+    }
+  };
+
+  // Stops the recording and sends it with whatever else is in the composer. The voice message
+  // joins the pending attachments first so a "Send anyway" confirmation still includes it.
+  const sendRecording = async () => {
+    setSending(true);
+    const recording = await voiceRecorder.stop();
+    if (!recording || recording.duration < MIN_VOICE_SECONDS) {
+      setSending(false);
+      return;
+    }
+
+    const voiceNote = prepareVoiceNote(recording);
+    pendingAttachments.addPrepared(voiceNote);
+    await deliver(newMessage, { attachments: [...pendingAttachments.attachments, voiceNote] });
+  };
+
+  // Recordings that reach the length limit are sent as they are
+  const sendRecordingRef = useRef(sendRecording);
+  sendRecordingRef.current = sendRecording;
+  useEffect(() => {
+    if (voiceRecorder.limitReached) sendRecordingRef.current();
+  }, [voiceRecorder.limitReached]);
+
+  const handleSendAnyway = async () => {
+    if (!pendingWarning) return;
+
+    const { text, editingId } = pendingWarning;
+    setPendingWarning(null);
+    await deliver(text, { acknowledgeWarning: true }, editingId);
+  };
+
+  const startEditing = (message: Message) => {
+    setReplyingTo(null);
+    setEditingMessage(message);
+    setNewMessage(message.text);
+  };
+
+  const startReply = (message: Message) => {
+    if (editingMessage) cancelEditing();
+    setReplyingTo(message);
+  };
+
+  const jumpToMessage = async (target: MessageCursor) => {
+    let found: boolean;
+    try {
+      found = await loadUntil(target);
+    } catch (error) {
+      console.error('Loading message history failed:', error);
+      toast({
+        title: "Couldn't load that message",
+        description: "Check your connection and try again.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (found) {
+      setJumpTargetId(target.id);
+    } else {
+      toast({
+        title: "Message not available",
+        description: "The message was deleted or can't be shown.",
+      });
+    }
+  };
+  const jumpToMessageRef = useRef(jumpToMessage);
+  jumpToMessageRef.current = jumpToMessage;
+
+  useEffect(() => {
+    if (!focusMessage || loading) return;
+    jumpToMessageRef.current(focusMessage);
+    onFocusHandled?.();
+  }, [focusMessage, loading, onFocusHandled]);
+
+  const goToHit = (index: number) => {
+    const hit = searchHits[index];
+    if (!hit) return;
+    setActiveHitId(hit.message.id);
+    jumpToMessage(hit.message);
+  };
+
+  // New results start at the newest hit, unless the selected one is still among them
+  const goToHitRef = useRef(goToHit);
+  goToHitRef.current = goToHit;
+  useEffect(() => {
+    if (searchHits.length && !searchHits.some((hit) => hit.message.id === activeHitId)) {
+      goToHitRef.current(0);
+    }
+  }, [searchHits, activeHitId]);
+
+  const closeSearch = () => {
+    setSearchOpen(false);
+    setSearchQuery('');
+    setSearchFilters({});
+    setActiveHitId(null);
+  };
+
+  useEffect(() => {
+    setSearchOpen(false);
+    setSearchQuery('');
+    setSearchFilters({});
+    setActiveHitId(null);
+  }, [chatId]);
+
+  const cancelEditing = () => {
+    setEditingMessage(null);
+    restoreDraft();
+  };
+
+  // Inserts at the caret (replacing any selection) and puts the caret after the emoji
+  const insertEmoji = (emoji: string) => {
+    const composer = composerRef.current;
+    const start = composer?.selectionStart ?? newMessage.length;
+    const end = composer?.selectionEnd ?? newMessage.length;
+    setNewMessage(newMessage.slice(0, start) + emoji + newMessage.slice(end));
+
+    requestAnimationFrame(() => {
+      if (!composer) return;
+      composer.focus();
+      composer.setSelectionRange(start + emoji.length, start + emoji.length);
+    });
+  };
+
+  // Enter sends, Shift+Enter starts a new line. Enter that confirms an IME composition is left alone.
+  const handleComposerKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Escape') {
+      if (editingMessage) cancelEditing();
+      else setReplyingTo(null);
+      return;
+    }
+
+    if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      e.currentTarget.form?.requestSubmit();
+    }
+  };
+
+  const handleToggleReaction = async (messageId: string, emoji: string) => {
+    try {
+      await toggleReaction(messageId, emoji);
+    } catch (error) {
+      toast({
+        title: "Couldn't add reaction",
+        description: "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleStartCall = async (media: CallMedia) => {
+    try {
+      await startCall(chat, media);
+    } catch (error) {
+      toast({
+        title: "Couldn't start the call",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handlePreferencesChange = async (preferences: ChatPreferences) => {
+    try {
+      await onPreferencesChange(preferences);
+    } catch (error) {
+      toast({
+        title: "Couldn't update this conversation",
+        description: "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const showUndoToast = (title: string, undo: () => unknown) => {
+    const { dismiss } = toast({
+      title,
+      duration: UNDO_WINDOW_MS,
+      action: (
+        <ToastAction
+          altText="Undo"
+          onClick={() => {
+            undo();
+            dismiss();
+          }}
+        >
+          Undo
+        </ToastAction>
+      ),
+    });
+  };
+
+  const handleDeleteForMe = async (messageId: string) => {
+    try {
+      const undo = await deleteForMe(messageId);
+      showUndoToast('Message deleted for you', undo);
     } catch (error) {
       toast({
         title: "Couldn't delete message",
@@ -148,7 +877,264 @@ const ChatView: React.FC<ChatViewProps> = ({
     }
   };
 
+  const handleDeleteForEveryone = (messageId: string) => {
+    try {
+      const undo = deleteForEveryone(messageId);
+      showUndoToast('Message deleted for everyone', undo);
+    } catch (error) {
+      toast({
+        title: "Couldn't delete message",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const typingUsers = Object.keys(isTyping);
+  const mood = useMemo(() => getChatMood(messages), [messages]);
+
+  const renderMessage = (message: Message, index: number) => {
+    // Messages from others fade in as they arrive; history rendered as it scrolls into view doesn't
+    const arrived = message.senderId !== user?.uid && message.timestamp > openedAtRef.current;
+
+    if (isEventMessage(message)) {
+      const CallIcon =
+        message.call?.outcome === 'completed'
+          ? message.call.media === 'video'
+            ? Video
+            : Phone
+          : PhoneMissed;
+      return (
+        <motion.div
+          initial={arrived ? { opacity: 0 } : false}
+          animate={{ opacity: 1 }}
+          className="flex justify-center"
+        >
+          <p className="px-3 py-1 rounded-full bg-chat-system text-xs text-muted-foreground text-center">
+            {message.type === 'call' && (
+              <CallIcon
+                className={`inline h-3.5 w-3.5 mr-1.5 align-[-2px] ${
+                  message.call?.outcome === 'completed' ? '' : 'text-destructive'
+                }`}
+              />
+            )}
+            {message.text}
+            {message.type === 'call' && (
+              <span className="ml-1.5 opacity-70">{formatMessageTime(message.timestamp)}</span>
+            )}
+          </p>
+        </motion.div>
+      );
+    }
+
+    const isSent = message.senderId === user?.uid;
+    const covered = !isSent && !message.isDeleted && isCovered(message);
+    const maskLinks = safetyMode && !isSent && !contactIds.includes(message.senderId);
+    const quoted = message.replyTo && messages.find((m) => m.id === message.replyTo!.messageId);
+    const previous = messages[index - 1];
+    const showSender = !isSent && isGroup && 
+      (index === 0 || isEventMessage(previous) || previous.senderId !== message.senderId);
+    
+    return (
+      <motion.div
+        initial={arrived ? { opacity: 0, y: 10 } : false}
+        animate={{ opacity: 1, y: 0 }}
+        id={messageElementId(message.id)}
+        className={`flex rounded-xl transition-colors ${isSent ? 'justify-end' : 'justify-start'} ${
+          highlightedId === message.id || (searchOpen && activeHitId === message.id) ? 'bg-primary/10' : ''
+        }`}
+      >
+        <div className={`max-w-[75%] group ${isSent ? 'items-end' : 'items-start'}`}>
+          {showSender && (
+            <p className="text-xs text-muted-foreground ml-3 mb-1">
+              {message.senderName}
+            </p>
+          )}
+          
+          <motion.div
+            className="flex items-end gap-2"
+            drag={isTouch && !message.isDeleted ? 'x' : false}
+            dragConstraints={{ left: 0, right: 0 }}
+            dragElastic={0.4}
+            dragSnapToOrigin
+            onDragEnd={(_, info) => {
+              if (Math.abs(info.offset.x) >= SWIPE_REPLY_DISTANCE) startReply(message);
+            }}
+          >
+            {!isSent && (
+              <Avatar className="h-6 w-6 mb-1">
+                <AvatarFallback className="text-xs bg-accent">
+                  {message.senderName.charAt(0)}
+                </AvatarFallback>
+              </Avatar>
+            )}
+            
+            <div
+              className={`relative px-4 py-2 rounded-2xl ${
+                isSent
+                  ? 'bg-chat-sent rounded-br-md'
+                  : 'bg-chat-received shadow-soft rounded-bl-md'
+              }`}
+            >
+              {message.replyTo && !message.isDeleted && !covered && (
+                <div className="mb-1.5">
+                  <ReplyQuote
+                    reply={message.replyTo}
+                    original={quoted}
+                    covered={!!quoted && quoted.senderId !== user?.uid && !quoted.isDeleted && isCovered(quoted)}
+                    currentUserId={user?.uid}
+                    maskLinks={
+                      safetyMode &&
+                      message.replyTo.senderId !== user?.uid &&
+                      !contactIds.includes(message.replyTo.senderId)
+                    }
+                    onClick={() =>
+                      jumpToMessage({ id: message.replyTo!.messageId, timestamp: message.replyTo!.timestamp })
+                    }
+                  />
+                </div>
+              )}
+              {!message.isDeleted && !covered && !!message.attachments?.length && (
+                <div className={message.text ? 'mb-1.5' : ''}>
+                  <MessageAttachments
+                    attachments={message.attachments}
+                    blurImages={maskLinks}
+                    blurFlagged={safetyMode && !isSent}
+                  />
+                </div>
+              )}
+              {message.isDeleted ? (
+                <p className="flex items-center gap-1.5 text-sm italic text-muted-foreground">
+                  <Ban className="h-3.5 w-3.5" />
+                  {DELETED_MESSAGE_TEXT}
+                </p>
+              ) : covered ? (
+                <button
+                  type="button"
+                  onClick={() => reveal(message.id)}
+                  className="relative block text-left"
+                  aria-label="Reveal message hidden by Safety Mode"
+                >
+                  <MessageText
+                    text={message.text}
+                    maskLinks
+                    className="text-foreground blur-sm select-none"
+                  />
+                  <span className="absolute inset-0 flex items-center justify-center gap-1.5 text-xs font-medium text-muted-foreground">
+                    <EyeOff className="h-3.5 w-3.5" />
+                    Tap to reveal
+                  </span>
+                </button>
+              ) : message.text ? (
+                <MessageText
+                  text={message.text}
+                  maskLinks={maskLinks}
+                  highlight={highlightTerms}
+                  className="text-foreground"
+                />
+              ) : null}
+              
+              <div className={`flex items-center gap-1.5 mt-1 ${isSent ? 'justify-end' : 'justify-start'}`}>
+                <EmotionBadge message={message} />
+                {message.editedAt && !message.isDeleted && (
+                  <button
+                    type="button"
+                    onClick={() => setHistoryMessageId(message.id)}
+                    className="text-[10px] text-muted-foreground italic hover:underline"
+                    aria-label="View edit history"
+                  >
+                    edited
+                  </button>
+                )}
+                <span className="text-[10px] text-muted-foreground">
+                  {formatMessageTime(message.timestamp)}
+                </span>
+                {isSent &&
+                  (queuedIds.has(message.id) ? (
+                    <Clock className="h-3.5 w-3.5 text-muted-foreground" aria-label="Pending" />
+                  ) : (
+                    <ReadReceipt chat={chat} message={message} />
+                  ))}
+              </div>
+            </div>
+            
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity"
+                >
+                  <MoreVertical className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align={isSent ? 'end' : 'start'}>
+                {!message.isDeleted && (
+                  <div className="flex gap-0.5 p-1" role="group" aria-label="React">
+                    {QUICK_REACTIONS.map((emoji) => (
+                      <DropdownMenuItem
+                        key={emoji}
+                        onClick={() => handleToggleReaction(message.id, emoji)}
+                        className="p-1.5 text-lg leading-none"
+                        aria-label={`React with ${emoji}`}
+                      >
+                        {emoji}
+                      </DropdownMenuItem>
+                    ))}
+                  </div>
+                )}
+                {!message.isDeleted && (
+                  <DropdownMenuItem onClick={() => startReply(message)}>
+                    <Reply className="h-4 w-4 mr-2" />
+                    Reply
+                  </DropdownMenuItem>
+                )}
+                {isSent && !message.isDeleted && (
+                  <DropdownMenuItem onClick={() => startEditing(message)}>
+                    <Pencil className="h-4 w-4 mr-2" />
+                    Edit
+                  </DropdownMenuItem>
+                )}
+                {message.editedAt && !message.isDeleted && (
+                  <DropdownMenuItem onClick={() => setHistoryMessageId(message.id)}>
+                    <Clock className="h-4 w-4 mr-2" />
+                    Edit history
+                  </DropdownMenuItem>
+                )}
+                {canDeleteForEveryone(message, user?.uid) && (
+                  <DropdownMenuItem
+                    onClick={() => handleDeleteForEveryone(message.id)}
+                    className="text-destructive"
+                  >
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete for everyone
+                  </DropdownMenuItem>
+                )}
+                <DropdownMenuItem
+                  onClick={() => handleDeleteForMe(message.id)}
+                  className="text-destructive"
+                >
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete for me
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </motion.div>
+
+          {!message.isDeleted && (
+            <div className={`flex ${isSent ? 'justify-end mr-8' : 'ml-8'}`}>
+              <ReactionChips
+                chat={chat}
+                message={message}
+                currentUserId={user?.uid}
+                onToggle={(emoji) => handleToggleReaction(message.id, emoji)}
+              />
+            </div>
+          )}
+        </div>
+      </motion.div>
+    );
+  };
 
   return (
     <div className="flex flex-col h-full bg-background">
@@ -167,27 +1153,60 @@ const ChatView: React.FC<ChatViewProps> = ({
           </AvatarFallback>
         </Avatar>
         
-        <div className="flex-1 min-w-0">
-          <h2 className="font-semibold text-foreground truncate">{chatName}</h2>
+        <div
+          className={`flex-1 min-w-0 ${isGroup ? 'cursor-pointer' : ''}`}
+          onClick={isGroup ? () => setShowGroupInfo(true) : undefined}
+        >
+          <div className="flex items-center gap-1.5 min-w-0">
+            <h2 className="font-semibold text-foreground truncate">{chatName}</h2>
+            {mood.primary !== 'neutral' && emotionIcons[mood.primary] && (
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <span className="shrink-0 opacity-70">{emotionIcons[mood.primary]}</span>
+                </TooltipTrigger>
+                <TooltipContent className="text-xs">
+                  Recent mood: <span className="capitalize">{mood.primary}</span>
+                </TooltipContent>
+              </Tooltip>
+            )}
+          </div>
           {typingUsers.length > 0 ? (
             <p className="text-xs text-status-typing flex items-center gap-1">
               <TypingIndicator />
               <span>typing...</span>
             </p>
+          ) : isGroup ? (
+            <p className="text-xs text-muted-foreground">{chat.participants.length} members</p>
           ) : (
-            <p className="text-xs text-muted-foreground">
-              {isGroup ? 'Group chat' : 'Online'}
-            </p>
+            <PresenceLabel presence={peerPresence} />
           )}
         </div>
         
         <div className="flex items-center gap-1">
-          <Button variant="ghost" size="icon" className="text-muted-foreground">
-            <Phone className="h-5 w-5" />
-          </Button>
-          <Button variant="ghost" size="icon" className="text-muted-foreground">
-            <Video className="h-5 w-5" />
-          </Button>
+          {!isGroup && (
+            <>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="text-muted-foreground"
+                onClick={() => handleStartCall('audio')}
+                disabled={!!call}
+                aria-label="Voice call"
+              >
+                <Phone className="h-5 w-5" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="text-muted-foreground"
+                onClick={() => handleStartCall('video')}
+                disabled={!!call}
+                aria-label="Video call"
+              >
+                <Video className="h-5 w-5" />
+              </Button>
+            </>
+          )}
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
               <Button variant="ghost" size="icon" className="text-muted-foreground">
@@ -195,21 +1214,50 @@ const ChatView: React.FC<ChatViewProps> = ({
               </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end">
-              <DropdownMenuItem>View Profile</DropdownMenuItem>
-              <DropdownMenuItem>Search Messages</DropdownMenuItem>
-              <DropdownMenuItem className="text-destructive">Block User</DropdownMenuItem>
+              {isGroup ? (
+                <DropdownMenuItem onClick={() => setShowGroupInfo(true)}>Group Info</DropdownMenuItem>
+              ) : (
+                <DropdownMenuItem>View Profile</DropdownMenuItem>
+              )}
+              <DropdownMenuItem onClick={() => setSearchOpen(true)}>Search Messages</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handlePreferencesChange({ pinned: !summary.pinned })}>
+                {summary.pinned ? 'Unpin Chat' : 'Pin Chat'}
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handlePreferencesChange({ muted: !summary.muted })}>
+                {summary.muted ? 'Unmute' : 'Mute'}
+              </DropdownMenuItem>
+              {!isGroup && <DropdownMenuItem className="text-destructive">Block User</DropdownMenuItem>}
             </DropdownMenuContent>
           </DropdownMenu>
         </div>
       </div>
 
+      {searchOpen && (
+        <ChatSearchBar
+          query={searchQuery}
+          onQueryChange={setSearchQuery}
+          filters={searchFilters}
+          onFiltersChange={setSearchFilters}
+          senders={chat.participants.map((uid) => ({
+            uid,
+            name: uid === user?.uid ? 'You' : chat.participantNames[uid] || 'User',
+          }))}
+          searching={searching}
+          hitCount={searchHits.length}
+          activeIndex={activeHitIndex}
+          onOlder={() => goToHit(Math.min(activeHitIndex + 1, searchHits.length - 1))}
+          onNewer={() => goToHit(Math.max(activeHitIndex - 1, 0))}
+          onClose={closeSearch}
+        />
+      )}
+
       {/* Messages */}
-      <ScrollArea className="flex-1 p-4" ref={scrollRef}>
+      <ScrollArea className="flex-1 p-4" viewportRef={viewportRef}>
         {loading ? (
           <div className="flex items-center justify-center h-full">
             <Loader2 className="h-8 w-8 animate-spin text-primary" />
           </div>
-        ) : messages.length === 0 ? (
+        ) : messages.length === 0 && outgoing.length === 0 ? (
           <div className="flex flex-col items-center justify-center h-full text-center">
             <div className="h-16 w-16 rounded-full bg-accent flex items-center justify-center mb-4">
               <Smile className="h-8 w-8 text-accent-foreground" />
@@ -219,90 +1267,68 @@ const ChatView: React.FC<ChatViewProps> = ({
           </div>
         ) : (
           <div className="space-y-3">
-            <AnimatePresence>
-              {messages.map((message, index) => {
-                const isSent = message.senderId === user?.uid;
-                const showSender = !isSent && isGroup && 
-                  (index === 0 || messages[index - 1].senderId !== message.senderId);
-                
-                return (
-                  <motion.div
-                    key={message.id}
-                    initial={{ opacity: 0, y: 10 }}
-                    animate={{ opacity: 1, y: 0 }}
-                    exit={{ opacity: 0, y: -10 }}
-                    className={`flex ${isSent ? 'justify-end' : 'justify-start'}`}
-                  >
-                    <div className={`max-w-[75%] group ${isSent ? 'items-end' : 'items-start'}`}>
-                      {showSender && (
-                        <p className="text-xs text-muted-foreground ml-3 mb-1">
-                          {message.senderName}
-                        </p>
-                      )}
-                      
-                      <div className="flex items-end gap-2">
-                        {!isSent && (
-                          <Avatar className="h-6 w-6 mb-1">
-                            <AvatarFallback className="text-xs bg-accent">
-                              {message.senderName.charAt(0)}
-                            </AvatarFallback>
-                          </Avatar>
-                        )}
-                        
-                        <div
-                          className={`relative px-4 py-2 rounded-2xl ${
-                            isSent
-                              ? 'bg-chat-sent rounded-br-md'
-                              : 'bg-chat-received shadow-soft rounded-bl-md'
-                          }`}
-                        >
-                          <p className="text-sm text-foreground whitespace-pre-wrap break-words">
-                            {message.text}
-                          </p>
-                          
-                          <div className={`flex items-center gap-1.5 mt-1 ${isSent ? 'justify-end' : 'justify-start'}`}>
-                            {message.emotion && emotionIcons[message.emotion] && (
-                              <span className="opacity-70">{emotionIcons[message.emotion]}</span>
-                            )}
-                            <span className="text-[10px] text-muted-foreground">
-                              {formatMessageTime(message.timestamp)}
-                            </span>
-                          </div>
-                        </div>
-                        
-                        {isSent && (
-                          <DropdownMenu>
-                            <DropdownMenuTrigger asChild>
-                              <Button
-                                variant="ghost"
-                                size="icon"
-                                className="h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity"
-                              >
-                                <MoreVertical className="h-4 w-4" />
-                              </Button>
-                            </DropdownMenuTrigger>
-                            <DropdownMenuContent align="end">
-                              <DropdownMenuItem
-                                onClick={() => handleDeleteMessage(message.id)}
-                                className="text-destructive"
-                              >
-                                <Trash2 className="h-4 w-4 mr-2" />
-                                Delete for me
-                              </DropdownMenuItem>
-                            </DropdownMenuContent>
-                          </DropdownMenu>
-                        )}
-                      </div>
-                    </div>
-                  </motion.div>
-                );
-              })}
-            </AnimatePresence>
+            {loadingOlder && (
+              <div className="flex justify-center py-2">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            )}
+            {!hasMore && (
+              <p className="text-center text-xs text-muted-foreground py-2">Beginning of conversation</p>
+            )}
+            <div
+              ref={listRef}
+              style={{
+                paddingTop: messageList.paddingTop,
+                paddingBottom: messageList.paddingBottom,
+                overflowAnchor: 'none',
+              }}
+            >
+              {messageList.indexes.map((index) => (
+                <div
+                  key={messages[index].id}
+                  ref={messageList.measure(messages[index].id)}
+                  className={index > 0 ? 'pt-3' : undefined}
+                >
+                  {renderMessage(messages[index], index)}
+                </div>
+              ))}
+            </div>
+            {outgoing.map((entry) => (
+              <motion.div
+                key={`outbox-${entry.id}`}
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="flex justify-end"
+              >
+                <OutboxBubble
+                  entry={entry}
+                  online={outbox.online}
+                  uploadProgress={outbox.uploadProgress}
+                  onCancel={() => {
+                    if (outbox.cancel(entry.id)) return;
+                    toast({
+                      title: "Can't cancel",
+                      description: "This message is still being sent.",
+                    });
+                  }}
+                  onResend={() => outbox.resend(entry.id)}
+                />
+              </motion.div>
+            ))}
           </div>
         )}
       </ScrollArea>
 
       {/* Support message */}
+      <AnimatePresence>
+        {showCrisisResources && (
+          <CrisisResourcesPanel
+            onClose={() => setShowCrisisResources(false)}
+            onNotifyTrustedContact={onNotifyTrustedContact}
+          />
+        )}
+      </AnimatePresence>
+
       <AnimatePresence>
         {supportMessage && (
           <motion.div
@@ -321,32 +1347,176 @@ const ChatView: React.FC<ChatViewProps> = ({
 
       {/* Input */}
       <div className="p-4 border-t bg-card">
-        <form onSubmit={handleSend} className="flex items-center gap-2">
-          <Button type="button" variant="ghost" size="icon" className="text-muted-foreground shrink-0">
-            <Smile className="h-5 w-5" />
-          </Button>
-          
-          <Input
-            value={newMessage}
-            onChange={handleInputChange}
-            placeholder="Type a message..."
-            className="flex-1 bg-muted border-0"
+        {editingMessage && (
+          <div className="flex items-center gap-2 mb-2 px-3 py-1.5 rounded-lg bg-muted text-xs">
+            <Pencil className="h-3.5 w-3.5 text-primary shrink-0" />
+            <span className="font-medium text-foreground">Editing message</span>
+            <span className="flex-1 truncate text-muted-foreground">{editingMessage.text}</span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-5 w-5"
+              onClick={cancelEditing}
+              aria-label="Cancel editing"
+            >
+              <X className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+        )}
+        {replyingTo && (
+          <div className="flex items-center gap-2 mb-2">
+            <Reply className="h-4 w-4 text-primary shrink-0" />
+            <div className="flex-1 min-w-0">
+              <ReplyQuote
+                reply={{
+                  messageId: replyingTo.id,
+                  senderId: replyingTo.senderId,
+                  senderName: replyingTo.senderName,
+                  snippet: replyingTo.text,
+                  timestamp: replyingTo.timestamp,
+                }}
+                currentUserId={user?.uid}
+              />
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              onClick={() => setReplyingTo(null)}
+              aria-label="Cancel reply"
+            >
+              <X className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+        )}
+        {pendingAttachments.attachments.length > 0 && !editingMessage && (
+          <PendingAttachmentList
+            attachments={pendingAttachments.attachments}
+            onRemove={sending ? undefined : pendingAttachments.remove}
           />
+        )}
+        {voiceRecorder.recording ? (
+          <div className="flex items-center gap-2">
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="shrink-0 text-muted-foreground"
+              onClick={voiceRecorder.cancel}
+              aria-label="Discard recording"
+            >
+              <Trash2 className="h-5 w-5" />
+            </Button>
+            <span className="h-2.5 w-2.5 shrink-0 rounded-full bg-destructive animate-pulse" />
+            <span className="w-10 shrink-0 text-sm tabular-nums text-muted-foreground">
+              {formatDuration(voiceRecorder.elapsed)}
+            </span>
+            <Waveform levels={voiceRecorder.levels} className="flex-1 justify-end overflow-hidden" />
+            <Button
+              type="button"
+              size="icon"
+              onClick={sendRecording}
+              disabled={sending}
+              className="shrink-0 gradient-calm"
+              aria-label="Send voice message"
+            >
+              {sending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+            </Button>
+          </div>
+        ) : (
+          <form onSubmit={handleSend} className="flex items-end gap-2">
+            <div className="flex text-muted-foreground shrink-0">
+              <EmojiPicker onSelect={insertEmoji} />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                disabled={!!editingMessage || sending || pendingAttachments.preparing}
+                onClick={() => fileInputRef.current?.click()}
+                aria-label="Attach files"
+              >
+                {pendingAttachments.preparing ? (
+                  <Loader2 className="h-5 w-5 animate-spin" />
+                ) : (
+                  <Paperclip className="h-5 w-5" />
+                )}
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                accept={ACCEPTED_ATTACHMENT_TYPES}
+                className="hidden"
+                onChange={(e) => {
+                  attachFiles(Array.from(e.target.files || []));
+                  e.target.value = '';
+                }}
+              />
+              {!editingMessage && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  disabled={sending}
+                  onClick={startRecording}
+                  aria-label="Record voice message"
+                >
+                  <Mic className="h-5 w-5" />
+                </Button>
+              )}
+            </div>
+
+            <Textarea
+              ref={composerRef}
+              rows={1}
+              value={newMessage}
+              onChange={handleInputChange}
+              onKeyDown={handleComposerKeyDown}
+              onPaste={(e) => {
+                if (editingMessage || !e.clipboardData.files.length) return;
+                e.preventDefault();
+                attachFiles(Array.from(e.clipboardData.files));
+              }}
+              placeholder={editingMessage ? 'Edit your message...' : 'Type a message...'}
+              className="flex-1 min-h-10 resize-none bg-muted border-0"
+            />
           
-          <Button
-            type="submit"
-            size="icon"
-            disabled={!newMessage.trim() || sending}
-            className="shrink-0 gradient-calm"
-          >
-            {sending ? (
-              <Loader2 className="h-4 w-4 animate-spin" />
-            ) : (
-              <Send className="h-4 w-4" />
-            )}
-          </Button>
-        </form>
+            <Button
+              type="submit"
+              size="icon"
+              disabled={!canSend}
+              className="shrink-0 gradient-calm"
+            >
+              {sending ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <Send className="h-4 w-4" />
+              )}
+            </Button>
+          </form>
+        )}
       </div>
+
+      <EditHistoryDialog message={historyMessage} onOpenChange={(open) => !open && setHistoryMessageId(null)} />
+
+      {isGroup && <GroupInfoSheet chat={chat} open={showGroupInfo} onOpenChange={setShowGroupInfo} />}
+
+      <AlertDialog open={!!pendingWarning} onOpenChange={(open) => !open && setPendingWarning(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Send this message?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingWarning?.toxicity.reason}. Take a moment to consider how it might land before sending.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Edit message</AlertDialogCancel>
+            <AlertDialogAction onClick={handleSendAnyway}>Send anyway</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
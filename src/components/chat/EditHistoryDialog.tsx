@@ -0,0 +1,58 @@
+import React from 'react';
+import { format } from 'date-fns';
+import type { Message } from '@/lib/backend';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+
+interface EditHistoryDialogProps {
+  message: Message | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Every version of an edited message, newest first
+const EditHistoryDialog: React.FC<EditHistoryDialogProps> = ({ message, onOpenChange }) => {
+  const versions = message
+    ? [
+        { text: message.text, timestamp: message.editedAt || message.timestamp, current: true },
+        ...Object.values(message.edits || {})
+          .sort((a, b) => b.timestamp - a.timestamp)
+          .map((revision) => ({ ...revision, current: false })),
+      ]
+    : [];
+
+  return (
+    <Dialog open={!!message} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Edit History</DialogTitle>
+          <DialogDescription>
+            {message?.senderName} edited this message {versions.length - 1}{' '}
+            {versions.length === 2 ? 'time' : 'times'}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-80">
+          <ol className="space-y-3 pr-3">
+            {versions.map((version) => (
+              <li key={`${version.timestamp}-${version.current}`} className="rounded-lg bg-muted px-3 py-2">
+                <p className="text-sm text-foreground whitespace-pre-wrap break-words">{version.text}</p>
+                <p className="mt-1 text-[10px] text-muted-foreground">
+                  {version.current ? 'Current · ' : ''}
+                  {format(version.timestamp, 'MMM d, HH:mm')}
+                </p>
+              </li>
+            ))}
+          </ol>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EditHistoryDialog;
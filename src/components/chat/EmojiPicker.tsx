@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { EMOJI_CATEGORIES, searchEmoji } from '@/lib/emojiData';
+import { useEmojiUsage } from '@/hooks/useEmojiUsage';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Smile, Search } from 'lucide-react';
+
+interface EmojiPickerProps {
+  onSelect: (emoji: string) => void;
+  disabled?: boolean;
+}
+
+interface EmojiGridProps {
+  label: string;
+  emoji: Array<{ emoji: string; name?: string }>;
+  onPick: (emoji: string) => void;
+}
+
+const EmojiGrid: React.FC<EmojiGridProps> = ({ label, emoji, onPick }) => (
+  <section className="mb-2">
+    <p className="px-1 pb-1 text-xs font-medium text-muted-foreground">{label}</p>
+    <div className="grid grid-cols-8 gap-0.5">
+      {emoji.map((entry) => (
+        <button
+          key={entry.emoji}
+          type="button"
+          title={entry.name}
+          aria-label={entry.name || entry.emoji}
+          onClick={() => onPick(entry.emoji)}
+          className="h-8 w-8 rounded-md text-xl leading-none hover:bg-muted focus-visible:bg-muted focus-visible:outline-none"
+        >
+          {entry.emoji}
+        </button>
+      ))}
+    </div>
+  </section>
+);
+
+// Smile button that opens a searchable emoji grid with the user's recent and frequent picks on top
+const EmojiPicker: React.FC<EmojiPickerProps> = ({ onSelect, disabled }) => {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const { recent, frequent, recordUse } = useEmojiUsage();
+
+  const results = search.trim() ? searchEmoji(search) : null;
+
+  const pick = (emoji: string) => {
+    recordUse(emoji);
+    onSelect(emoji);
+  };
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) setSearch('');
+      }}
+    >
+      <PopoverTrigger asChild>
+        <Button type="button" variant="ghost" size="icon" disabled={disabled} aria-label="Insert emoji">
+          <Smile className="h-5 w-5" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent side="top" align="start" className="w-80 p-2">
+        <div className="relative mb-2">
+          <Search className="absolute left-2.5 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search emoji..."
+            className="h-8 pl-8"
+            autoFocus
+          />
+        </div>
+
+        <ScrollArea className="h-64 pr-2">
+          {results ? (
+            results.length ? (
+              <EmojiGrid label="Results" emoji={results} onPick={pick} />
+            ) : (
+              <p className="py-8 text-center text-sm text-muted-foreground">No emoji found</p>
+            )
+          ) : (
+            <>
+              {recent.length > 0 && (
+                <EmojiGrid label="Recent" emoji={recent.map((emoji) => ({ emoji }))} onPick={pick} />
+              )}
+              {frequent.length > 0 && (
+                <EmojiGrid label="Frequently used" emoji={frequent.map((emoji) => ({ emoji }))} onPick={pick} />
+              )}
+              {EMOJI_CATEGORIES.map((category) => (
+                <EmojiGrid key={category.id} label={category.label} emoji={category.emoji} onPick={pick} />
+              ))}
+            </>
+          )}
+        </ScrollArea>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default EmojiPicker;
@@ -0,0 +1,227 @@
+import React, { useState, useEffect } from 'react';
+import { useGroupChat, isChatAdmin, type Chat } from '@/hooks/useChat';
+import { useAuth } from '@/contexts/AuthContext';
+import type { DirectoryEntry } from '@/lib/backend';
+import PeoplePicker from '@/components/chat/PeoplePicker';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { MoreVertical, UserPlus, LogOut, Pencil, Check, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+interface GroupInfoSheetProps {
+  chat: Chat;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const GroupInfoSheet: React.FC<GroupInfoSheetProps> = ({ chat, open, onOpenChange }) => {
+  const { user } = useAuth();
+  const { isAdmin, addMembers, removeMember, setAdmin, renameGroup, leaveGroup } = useGroupChat(chat);
+  const { toast } = useToast();
+  const [editingName, setEditingName] = useState(false);
+  const [groupName, setGroupName] = useState(chat.groupName || '');
+  const [adding, setAdding] = useState(false);
+  const [pendingMembers, setPendingMembers] = useState<DirectoryEntry[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!editingName) setGroupName(chat.groupName || '');
+  }, [chat.groupName, editingName]);
+
+  const run = async (action: () => Promise<void>, failureTitle: string) => {
+    setBusy(true);
+    try {
+      await action();
+      return true;
+    } catch (error) {
+      toast({
+        title: failureTitle,
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRename = async () => {
+    if (await run(() => renameGroup(groupName), "Couldn't rename group")) {
+      setEditingName(false);
+    }
+  };
+
+  const handleAddMembers = async () => {
+    if (await run(() => addMembers(pendingMembers), "Couldn't add members")) {
+      setPendingMembers([]);
+      setAdding(false);
+    }
+  };
+
+  const handleLeave = async () => {
+    if (await run(leaveGroup, "Couldn't leave group")) {
+      onOpenChange(false);
+    }
+  };
+
+  const togglePending = (entry: DirectoryEntry) => {
+    setPendingMembers((current) =>
+      current.some((member) => member.uid === entry.uid)
+        ? current.filter((member) => member.uid !== entry.uid)
+        : [...current, entry]
+    );
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="flex flex-col gap-4 overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Group Info</SheetTitle>
+          <SheetDescription>{chat.participants.length} members</SheetDescription>
+        </SheetHeader>
+
+        {/* Name */}
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-foreground">Group name</label>
+          {editingName ? (
+            <div className="flex items-center gap-2">
+              <Input value={groupName} maxLength={50} onChange={(e) => setGroupName(e.target.value)} />
+              <Button size="icon" onClick={handleRename} disabled={!groupName.trim() || busy}>
+                <Check className="h-4 w-4" />
+              </Button>
+            </div>
+          ) : (
+            <div className="flex items-center justify-between">
+              <p className="text-foreground">{chat.groupName || 'Group Chat'}</p>
+              {isAdmin && (
+                <Button variant="ghost" size="icon" onClick={() => setEditingName(true)}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+
+        <Separator />
+
+        {/* Members */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <label className="text-sm font-medium text-foreground">Members</label>
+            {isAdmin && !adding && (
+              <Button variant="ghost" size="sm" onClick={() => setAdding(true)}>
+                <UserPlus className="h-4 w-4 mr-2" />
+                Add
+              </Button>
+            )}
+          </div>
+
+          {adding && (
+            <div className="space-y-2 p-3 rounded-lg bg-muted">
+              <PeoplePicker
+                selectedIds={pendingMembers.map((member) => member.uid)}
+                excludeIds={chat.participants}
+                onToggle={togglePending}
+              />
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  className="flex-1"
+                  onClick={handleAddMembers}
+                  disabled={pendingMembers.length === 0 || busy}
+                >
+                  {busy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Add {pendingMembers.length || ''}
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => {
+                    setAdding(false);
+                    setPendingMembers([]);
+                  }}
+                >
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-1">
+            {chat.participants.map((uid) => {
+              const name = chat.participantNames[uid] || 'Unknown';
+              const memberIsAdmin = isChatAdmin(chat, uid) && !!chat.admins?.length;
+              const isMe = uid === user?.uid;
+
+              return (
+                <div key={uid} className="flex items-center gap-3 p-2 rounded-lg">
+                  <Avatar className="h-8 w-8">
+                    <AvatarFallback className="bg-secondary text-secondary-foreground text-xs">
+                      {name.charAt(0).toUpperCase()}
+                    </AvatarFallback>
+                  </Avatar>
+                  <p className="flex-1 min-w-0 text-sm text-foreground truncate">
+                    {name}
+                    {isMe && <span className="text-muted-foreground"> (you)</span>}
+                  </p>
+                  {memberIsAdmin && (
+                    <Badge variant="secondary" className="text-[10px] px-1.5 py-0">
+                      Admin
+                    </Badge>
+                  )}
+                  {isAdmin && !isMe && (
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="icon" className="h-7 w-7" disabled={busy}>
+                          <MoreVertical className="h-4 w-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem
+                          onClick={() => run(() => setAdmin(uid, !memberIsAdmin), "Couldn't update admin")}
+                        >
+                          {memberIsAdmin ? 'Remove as admin' : 'Make admin'}
+                        </DropdownMenuItem>
+                        <DropdownMenuItem
+                          onClick={() => run(() => removeMember(uid), "Couldn't remove member")}
+                          className="text-destructive"
+                        >
+                          Remove from group
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <Separator />
+
+        <Button variant="outline" className="text-destructive" onClick={handleLeave} disabled={busy}>
+          <LogOut className="h-4 w-4 mr-2" />
+          Leave group
+        </Button>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default GroupInfoSheet;
@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import type { MessageAttachment } from '@/lib/backend';
+import { formatFileSize, toSafeAttachmentUrl } from '@/lib/attachments';
+import VoiceNotePlayer from '@/components/chat/VoiceNotePlayer';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { EyeOff, FileText, File as FileIcon, Download, ShieldAlert } from 'lucide-react';
+
+interface MessageAttachmentsProps {
+  attachments: MessageAttachment[];
+  // Safety Mode: every image stays blurred until tapped (e.g. sent by someone who isn't a contact)
+  blurImages?: boolean;
+  // Safety Mode: images the sender's safety check flagged stay blurred until tapped
+  blurFlagged?: boolean;
+}
+
+const FlaggedBadge: React.FC = () => (
+  <Tooltip>
+    <TooltipTrigger asChild>
+      <ShieldAlert className="h-4 w-4 shrink-0 text-warning" aria-label="Flagged by the safety check" />
+    </TooltipTrigger>
+    <TooltipContent>The safety check flagged this file. Open it only if you trust the sender.</TooltipContent>
+  </Tooltip>
+);
+
+// Images as a thumbnail grid that opens full size, voice messages as players and other
+// files as download cards
+const MessageAttachments: React.FC<MessageAttachmentsProps> = ({ attachments, blurImages, blurFlagged }) => {
+  const [revealedIds, setRevealedIds] = useState<Record<string, boolean>>({});
+  const [openImage, setOpenImage] = useState<MessageAttachment | null>(null);
+
+  const images = attachments.filter((attachment) => attachment.kind === 'image');
+  const voiceNotes = attachments.filter((attachment) => attachment.kind === 'voice');
+  const files = attachments.filter((attachment) => attachment.kind === 'pdf' || attachment.kind === 'file');
+  const isBlurred = (attachment: MessageAttachment) =>
+    !revealedIds[attachment.id] && (!!blurImages || (!!blurFlagged && !!attachment.flagged));
+
+  return (
+    <div className="space-y-1.5">
+      {images.length > 0 && (
+        <div className={`grid gap-1 ${images.length > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}>
+          {images.map((image) => {
+            const blurred = isBlurred(image);
+            return (
+              <button
+                key={image.id}
+                type="button"
+                onClick={() =>
+                  blurred ? setRevealedIds((prev) => ({ ...prev, [image.id]: true })) : setOpenImage(image)
+                }
+                className="relative block overflow-hidden rounded-lg bg-muted"
+                aria-label={blurred ? 'Reveal image hidden by Safety Mode' : `Open ${image.name}`}
+              >
+                <img
+                  src={toSafeAttachmentUrl(image.thumbnail || image.url, 'image')}
+                  alt={image.name}
+                  width={image.width}
+                  height={image.height}
+                  loading="lazy"
+                  className={`max-h-64 w-full object-cover ${blurred ? 'blur-xl scale-110' : ''}`}
+                />
+                {blurred && (
+                  <span className="absolute inset-0 flex items-center justify-center gap-1.5 bg-background/30 text-xs font-medium text-foreground">
+                    <EyeOff className="h-3.5 w-3.5" />
+                    Tap to reveal
+                  </span>
+                )}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {voiceNotes.map((voice) => (
+        <VoiceNotePlayer
+          key={voice.id}
+          url={voice.url}
+          duration={voice.duration}
+          waveform={voice.waveform}
+          transcript={voice.transcript}
+        />
+      ))}
+
+      {files.map((file) => (
+        <a
+          key={file.id}
+          href={toSafeAttachmentUrl(file.url, file.kind)}
+          download={file.name}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-2 rounded-lg bg-background/60 px-3 py-2 hover:bg-background/80"
+        >
+          {file.kind === 'pdf' ? (
+            <FileText className="h-6 w-6 shrink-0 text-destructive" />
+          ) : (
+            <FileIcon className="h-6 w-6 shrink-0 text-primary" />
+          )}
+          <span className="min-w-0 flex-1">
+            <span className="block truncate text-sm font-medium">{file.name}</span>
+            <span className="block text-xs text-muted-foreground">{formatFileSize(file.size)}</span>
+          </span>
+          {file.flagged && <FlaggedBadge />}
+          <Download className="h-4 w-4 shrink-0 text-muted-foreground" />
+        </a>
+      ))}
+
+      <Dialog open={!!openImage} onOpenChange={(open) => !open && setOpenImage(null)}>
+        <DialogContent className="max-w-3xl p-2">
+          <DialogTitle className="sr-only">{openImage?.name}</DialogTitle>
+          {openImage && (
+            <img src={toSafeAttachmentUrl(openImage.url, 'image')} alt={openImage.name} className="max-h-[80vh] w-full rounded-md object-contain" />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default MessageAttachments;
@@ -0,0 +1,121 @@
+import React from 'react';
+import { endOfDay, format, startOfDay } from 'date-fns';
+import type { EmotionLabel } from '@/lib/backend';
+import { hasActiveFilters, type MessageSearchFilters } from '@/lib/messageSearch';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SlidersHorizontal } from 'lucide-react';
+
+interface MessageSearchFilterMenuProps {
+  filters: MessageSearchFilters;
+  onChange: (filters: MessageSearchFilters) => void;
+  // People to filter by; the sender filter is left out when there is nobody to pick
+  senders: Array<{ uid: string; name: string }>;
+}
+
+const EMOTION_OPTIONS: EmotionLabel[] = ['happy', 'sad', 'angry', 'stressed', 'anxious', 'neutral'];
+// Radix selects can't use an empty string as an item value
+const ANY = 'any';
+
+const toDateInput = (timestamp?: number) => (timestamp ? format(timestamp, 'yyyy-MM-dd') : '');
+const fromDateInput = (value: string, edge: typeof startOfDay) =>
+  value ? edge(new Date(`${value}T00:00:00`)).getTime() : undefined;
+
+// Sender, date range and emotion filters behind a button, shared by the chat and global searches
+const MessageSearchFilterMenu: React.FC<MessageSearchFilterMenuProps> = ({ filters, onChange, senders }) => {
+  const active = hasActiveFilters(filters);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className={`h-8 w-8 shrink-0 ${active ? 'text-primary' : 'text-muted-foreground'}`}
+          aria-label="Search filters"
+        >
+          <SlidersHorizontal className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 space-y-3">
+        {senders.length > 0 && (
+          <div className="space-y-1.5">
+            <Label>From</Label>
+            <Select
+              value={filters.senderId || ANY}
+              onValueChange={(value) => onChange({ ...filters, senderId: value === ANY ? undefined : value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Anyone</SelectItem>
+                {senders.map((sender) => (
+                  <SelectItem key={sender.uid} value={sender.uid}>
+                    {sender.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1.5">
+            <Label htmlFor="search-from">After</Label>
+            <Input
+              id="search-from"
+              type="date"
+              value={toDateInput(filters.from)}
+              max={toDateInput(filters.to) || undefined}
+              onChange={(e) => onChange({ ...filters, from: fromDateInput(e.target.value, startOfDay) })}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="search-to">Before</Label>
+            <Input
+              id="search-to"
+              type="date"
+              value={toDateInput(filters.to)}
+              min={toDateInput(filters.from) || undefined}
+              onChange={(e) => onChange({ ...filters, to: fromDateInput(e.target.value, endOfDay) })}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-1.5">
+          <Label>Emotion</Label>
+          <Select
+            value={filters.emotion || ANY}
+            onValueChange={(value) =>
+              onChange({ ...filters, emotion: value === ANY ? undefined : (value as EmotionLabel) })
+            }
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any emotion</SelectItem>
+              {EMOTION_OPTIONS.map((emotion) => (
+                <SelectItem key={emotion} value={emotion} className="capitalize">
+                  {emotion}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {active && (
+          <Button variant="ghost" size="sm" className="w-full" onClick={() => onChange({})}>
+            Clear filters
+          </Button>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default MessageSearchFilterMenu;
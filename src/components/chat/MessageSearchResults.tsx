@@ -0,0 +1,107 @@
+import React from 'react';
+import { format, isToday } from 'date-fns';
+import type { ChatSummary } from '@/hooks/useChat';
+import { hitSnippet, type MessageSearchHit } from '@/lib/messageSearch';
+import MessageText from '@/components/chat/MessageText';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Loader2, Users } from 'lucide-react';
+
+interface MessageSearchResultsProps {
+  // Conversations whose name matches
+  chats: ChatSummary[];
+  // Every conversation, to name the one each hit is from
+  allChats: ChatSummary[];
+  hits: MessageSearchHit[];
+  terms: string[];
+  searching: boolean;
+  currentUserId?: string;
+  getChatName: (chat: ChatSummary) => string;
+  onSelectChat: (chat: ChatSummary) => void;
+  onSelectHit: (hit: MessageSearchHit) => void;
+}
+
+// Hits past this are left out; narrowing the search finds the rest
+const MAX_SHOWN_HITS = 100;
+
+const formatHitTime = (timestamp: number) =>
+  isToday(timestamp) ? format(timestamp, 'HH:mm') : format(timestamp, 'MMM d, yyyy');
+
+// The sidebar while searching: matching conversations, then matching messages from all of them
+const MessageSearchResults: React.FC<MessageSearchResultsProps> = ({
+  chats,
+  allChats,
+  hits,
+  terms,
+  searching,
+  currentUserId,
+  getChatName,
+  onSelectChat,
+  onSelectHit,
+}) => {
+  const chatsById = new Map(allChats.map((chat) => [chat.id, chat]));
+
+  return (
+    <ScrollArea className="h-full">
+      <div className="p-2 space-y-4">
+        {chats.length > 0 && (
+          <section>
+            <h3 className="px-3 pb-1 text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+              Conversations
+            </h3>
+            {chats.map((chat) => (
+              <button
+                key={chat.id}
+                type="button"
+                onClick={() => onSelectChat(chat)}
+                className="w-full flex items-center gap-3 rounded-xl p-2 text-left hover:bg-muted"
+              >
+                <Avatar className="h-8 w-8">
+                  <AvatarFallback className="bg-secondary text-secondary-foreground text-xs">
+                    {chat.isGroup ? <Users className="h-4 w-4" /> : getChatName(chat).charAt(0).toUpperCase()}
+                  </AvatarFallback>
+                </Avatar>
+                <span className="truncate text-sm font-medium text-foreground">{getChatName(chat)}</span>
+              </button>
+            ))}
+          </section>
+        )}
+
+        <section>
+          <h3 className="flex items-center gap-2 px-3 pb-1 text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+            Messages
+            {searching && <Loader2 className="h-3 w-3 animate-spin" />}
+          </h3>
+          {!searching && hits.length === 0 && (
+            <p className="px-3 py-2 text-sm text-muted-foreground">No messages found.</p>
+          )}
+          {hits.slice(0, MAX_SHOWN_HITS).map((hit) => {
+            const chat = chatsById.get(hit.chatId);
+            const sender = hit.message.senderId === currentUserId ? 'You' : hit.message.senderName;
+            return (
+              <button
+                key={`${hit.chatId}/${hit.message.id}`}
+                type="button"
+                onClick={() => onSelectHit(hit)}
+                className="w-full rounded-xl p-3 text-left hover:bg-muted"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="truncate text-sm font-medium text-foreground">
+                    {chat ? getChatName(chat) : 'Conversation'}
+                  </span>
+                  <span className="shrink-0 text-xs text-muted-foreground">{formatHitTime(hit.message.timestamp)}</span>
+                </div>
+                <div className="flex gap-1 text-sm text-muted-foreground">
+                  <span className="shrink-0">{sender}:</span>
+                  <MessageText text={hitSnippet(hit.text, terms)} highlight={terms} maskLinks className="line-clamp-2" />
+                </div>
+              </button>
+            );
+          })}
+        </section>
+      </div>
+    </ScrollArea>
+  );
+};
+
+export default MessageSearchResults;
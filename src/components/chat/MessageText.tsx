@@ -0,0 +1,91 @@
+import React, { useMemo } from 'react';
+import { parseMarkdown, type MarkdownNode } from '@/lib/markdown';
+import { HIDDEN_LINK_LABEL, hideLinks } from '@/lib/safety';
+import { findMatches } from '@/lib/messageSearch';
+import { cn } from '@/lib/utils';
+
+interface MessageTextProps {
+  text: string;
+  // Safety Mode: links render as a label instead of being clickable
+  maskLinks?: boolean;
+  // Lower-cased search terms to mark in the text
+  highlight?: string[];
+  className?: string;
+}
+
+const highlightText = (text: string, terms: string[], key: number): React.ReactNode => {
+  const ranges = terms.length ? findMatches(text, terms) : [];
+  if (!ranges.length) return text;
+
+  const parts: React.ReactNode[] = [];
+  let offset = 0;
+  ranges.forEach(([start, end]) => {
+    parts.push(text.slice(offset, start));
+    parts.push(
+      <mark key={start} className="rounded-sm bg-warning/40 text-inherit">
+        {text.slice(start, end)}
+      </mark>
+    );
+    offset = end;
+  });
+  parts.push(text.slice(offset));
+  return <React.Fragment key={key}>{parts}</React.Fragment>;
+};
+
+const renderNodes = (nodes: MarkdownNode[], maskLinks: boolean, terms: string[]): React.ReactNode[] =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return highlightText(maskLinks ? hideLinks(node.text) : node.text, terms, index);
+      case 'bold':
+        return <strong key={index}>{renderNodes(node.children, maskLinks, terms)}</strong>;
+      case 'italic':
+        return <em key={index}>{renderNodes(node.children, maskLinks, terms)}</em>;
+      case 'code':
+        return (
+          <code key={index} className="rounded bg-background/60 px-1 py-0.5 font-mono text-[0.85em]">
+            {node.text}
+          </code>
+        );
+      case 'codeBlock':
+        return (
+          <pre
+            key={index}
+            className="my-1 overflow-x-auto rounded-md bg-background/60 px-2 py-1.5 font-mono text-xs whitespace-pre"
+          >
+            {node.text}
+          </pre>
+        );
+      case 'link': {
+        if (maskLinks) {
+          const label = node.children.map((child) => (child.type === 'text' ? child.text : '')).join('');
+          // A bare URL's label is the URL itself, which must not leak through
+          return label && !/^(?:https?:\/\/|www\.)/i.test(label) ? `${label} ${HIDDEN_LINK_LABEL}` : HIDDEN_LINK_LABEL;
+        }
+        return (
+          <a
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className="underline underline-offset-2 break-all hover:opacity-80"
+          >
+            {renderNodes(node.children, maskLinks, terms)}
+          </a>
+        );
+      }
+    }
+  });
+
+// Message body with lightweight markdown, rendered as React elements (never raw HTML)
+const MessageText: React.FC<MessageTextProps> = ({ text, maskLinks = false, highlight, className }) => {
+  const terms = highlight?.join(' ') || '';
+  const content = useMemo(
+    () => renderNodes(parseMarkdown(text), maskLinks, terms ? terms.split(' ') : []),
+    [text, maskLinks, terms]
+  );
+
+  return <div className={cn('text-sm whitespace-pre-wrap break-words', className)}>{content}</div>;
+};
+
+export default MessageText;
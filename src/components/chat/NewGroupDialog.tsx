@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import type { DirectoryEntry } from '@/lib/backend';
+import PeoplePicker from '@/components/chat/PeoplePicker';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Users, X, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+interface NewGroupDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreate: (members: DirectoryEntry[], groupName: string) => Promise<string | null>;
+  onCreated?: (chatId: string) => void;
+}
+
+const NewGroupDialog: React.FC<NewGroupDialogProps> = ({ open, onOpenChange, onCreate, onCreated }) => {
+  const { toast } = useToast();
+  const [groupName, setGroupName] = useState('');
+  const [members, setMembers] = useState<DirectoryEntry[]>([]);
+  const [creating, setCreating] = useState(false);
+
+  const handleOpenChange = (next: boolean) => {
+    onOpenChange(next);
+    if (!next) {
+      setGroupName('');
+      setMembers([]);
+    }
+  };
+
+  const toggleMember = (entry: DirectoryEntry) => {
+    setMembers((current) =>
+      current.some((member) => member.uid === entry.uid)
+        ? current.filter((member) => member.uid !== entry.uid)
+        : [...current, entry]
+    );
+  };
+
+  const handleCreate = async () => {
+    if (!groupName.trim() || members.length === 0) return;
+
+    setCreating(true);
+    try {
+      const chatId = await onCreate(members, groupName);
+      if (chatId) {
+        handleOpenChange(false);
+        onCreated?.(chatId);
+        toast({
+          title: 'Group created',
+          description: `${groupName.trim()} is ready for conversation.`,
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Couldn't create group",
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Create a Group</DialogTitle>
+          <DialogDescription>Name your group and choose who to invite.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 pt-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-foreground">Group name</label>
+            <Input
+              placeholder="e.g. Study buddies"
+              value={groupName}
+              maxLength={50}
+              onChange={(e) => setGroupName(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-foreground">Members</label>
+            {members.length > 0 && (
+              <div className="flex flex-wrap gap-1.5">
+                {members.map((member) => (
+                  <Badge key={member.uid} variant="secondary" className="gap-1 pr-1">
+                    {member.displayName}
+                    <button
+                      type="button"
+                      onClick={() => toggleMember(member)}
+                      className="rounded-full hover:bg-muted p-0.5"
+                      aria-label={`Remove ${member.displayName}`}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            )}
+            <PeoplePicker selectedIds={members.map((member) => member.uid)} onToggle={toggleMember} />
+          </div>
+
+          <Button
+            className="w-full"
+            onClick={handleCreate}
+            disabled={!groupName.trim() || members.length === 0 || creating}
+          >
+            {creating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Users className="h-4 w-4 mr-2" />}
+            Create Group{members.length > 0 ? ` (${members.length + 1})` : ''}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default NewGroupDialog;
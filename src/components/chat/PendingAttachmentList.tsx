@@ -0,0 +1,62 @@
+import React from 'react';
+import { formatDuration, formatFileSize, type PreparedAttachment } from '@/lib/attachments';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { FileText, File as FileIcon, Mic, ShieldAlert, X } from 'lucide-react';
+
+interface PendingAttachmentListProps {
+  attachments: PreparedAttachment[];
+  // Upload progress by attachment id, 0..1, while the outbox delivers them
+  progress?: Record<string, number>;
+  // Left out where the files can't be removed any more
+  onRemove?: (id: string) => void;
+}
+
+// Files attached to a message that hasn't been sent: in the composer above the text field,
+// and in the message's pending bubble until it is delivered
+const PendingAttachmentList: React.FC<PendingAttachmentListProps> = ({ attachments, progress, onRemove }) => (
+  <div className="flex gap-2 overflow-x-auto pb-2">
+    {attachments.map((attachment) => (
+      <div key={attachment.id} className="relative w-24 shrink-0 overflow-hidden rounded-lg border bg-muted">
+        {attachment.kind === 'voice' ? (
+          <div className="flex h-20 flex-col items-center justify-center gap-1">
+            <Mic className="h-6 w-6 text-primary" />
+            <span className="text-xs tabular-nums text-muted-foreground">{formatDuration(attachment.duration || 0)}</span>
+          </div>
+        ) : attachment.previewUrl ? (
+          <img src={attachment.previewUrl} alt={attachment.name} className="h-20 w-full object-cover" />
+        ) : (
+          <div className="flex h-20 flex-col items-center justify-center gap-1 px-1 text-center">
+            {attachment.kind === 'pdf' ? (
+              <FileText className="h-6 w-6 text-destructive" />
+            ) : (
+              <FileIcon className="h-6 w-6 text-primary" />
+            )}
+            <span className="w-full truncate text-[10px] text-muted-foreground">{attachment.name}</span>
+          </div>
+        )}
+        <div className="flex items-center gap-1 px-1.5 py-0.5 text-[10px] text-muted-foreground">
+          {attachment.flagged && <ShieldAlert className="h-3 w-3 text-warning" aria-label="Flagged by the safety check" />}
+          {formatFileSize(attachment.size)}
+        </div>
+        {progress && (
+          <Progress value={(progress[attachment.id] || 0) * 100} className="absolute inset-x-0 bottom-0 h-1 rounded-none" />
+        )}
+        {onRemove && (
+          <Button
+            type="button"
+            variant="secondary"
+            size="icon"
+            className="absolute right-1 top-1 h-5 w-5 rounded-full"
+            onClick={() => onRemove(attachment.id)}
+            aria-label={`Remove ${attachment.name}`}
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        )}
+      </div>
+    ))}
+  </div>
+);
+
+export default PendingAttachmentList;
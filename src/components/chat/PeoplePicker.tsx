@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { useUserSearch } from '@/hooks/useUserSearch';
+import type { DirectoryEntry } from '@/lib/backend';
+import { Input } from '@/components/ui/input';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Search, Check, Loader2 } from 'lucide-react';
+
+interface PeoplePickerProps {
+  selectedIds: string[];
+  onToggle: (entry: DirectoryEntry) => void;
+  excludeIds?: string[];
+  placeholder?: string;
+}
+
+const PeoplePicker: React.FC<PeoplePickerProps> = ({
+  selectedIds,
+  onToggle,
+  excludeIds = [],
+  placeholder = 'Search by name or email...',
+}) => {
+  const [term, setTerm] = useState('');
+  const { results, searching } = useUserSearch(term);
+
+  const visibleResults = results.filter((entry) => !excludeIds.includes(entry.uid));
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          autoFocus
+          placeholder={placeholder}
+          value={term}
+          onChange={(e) => setTerm(e.target.value)}
+          className="pl-10"
+        />
+        {searching && (
+          <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 animate-spin text-muted-foreground" />
+        )}
+      </div>
+
+      {term.trim() && !searching && visibleResults.length === 0 && (
+        <p className="text-xs text-muted-foreground px-1">
+          No one found. Check the spelling or ask them for the email they signed up with.
+        </p>
+      )}
+
+      {visibleResults.length > 0 && (
+        <div className="max-h-60 overflow-y-auto">
+          <div className="space-y-1">
+            {visibleResults.map((entry) => {
+              const isSelected = selectedIds.includes(entry.uid);
+
+              return (
+                <button
+                  key={entry.uid}
+                  type="button"
+                  onClick={() => onToggle(entry)}
+                  className={`w-full flex items-center gap-3 p-2 rounded-lg text-left transition-colors ${
+                    isSelected ? 'bg-accent' : 'hover:bg-muted'
+                  }`}
+                >
+                  <Avatar className="h-8 w-8">
+                    <AvatarImage src={entry.photoURL || undefined} />
+                    <AvatarFallback className="bg-secondary text-secondary-foreground text-xs">
+                      {entry.displayName.charAt(0).toUpperCase()}
+                    </AvatarFallback>
+                  </Avatar>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-foreground truncate">{entry.displayName}</p>
+                    {entry.email && <p className="text-xs text-muted-foreground truncate">{entry.email}</p>}
+                  </div>
+                  {isSelected && <Check className="h-4 w-4 text-primary shrink-0" />}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PeoplePicker;
@@ -0,0 +1,135 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { formatDuration } from '@/lib/attachments';
+import { Button } from '@/components/ui/button';
+import { Play, Pause } from 'lucide-react';
+
+interface VoiceNotePlayerProps {
+  url: string;
+  // Length in seconds as recorded; some browsers report Infinity for recorded audio
+  duration?: number;
+  waveform?: number[];
+  transcript?: string;
+}
+
+const PLAYBACK_RATES = [1, 1.5, 2];
+
+interface WaveformProps {
+  levels: number[];
+  // Share of the bars drawn as played, 0..1
+  progress?: number;
+  onSeek?: (fraction: number) => void;
+  className?: string;
+}
+
+export const Waveform: React.FC<WaveformProps> = ({ levels, progress = 0, onSeek, className = '' }) => (
+  <div
+    className={`flex h-8 items-center gap-[2px] ${onSeek ? 'cursor-pointer' : ''} ${className}`}
+    onClick={(e) => {
+      if (!onSeek) return;
+      const bounds = e.currentTarget.getBoundingClientRect();
+      onSeek(Math.min(1, Math.max(0, (e.clientX - bounds.left) / bounds.width)));
+    }}
+  >
+    {levels.map((level, index) => (
+      <span
+        key={index}
+        className={`w-[3px] shrink-0 rounded-full ${
+          index / levels.length < progress ? 'bg-primary' : 'bg-muted-foreground/40'
+        }`}
+        style={{ height: `${Math.max(12, level * 100)}%` }}
+      />
+    ))}
+  </div>
+);
+
+// Play/pause, a seekable waveform, the time and a playback speed toggle; the transcript
+// folds out underneath
+const VoiceNotePlayer: React.FC<VoiceNotePlayerProps> = ({ url, duration = 0, waveform, transcript }) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [playing, setPlaying] = useState(false);
+  const [position, setPosition] = useState(0);
+  const [rate, setRate] = useState(PLAYBACK_RATES[0]);
+  const [showTranscript, setShowTranscript] = useState(false);
+  const levels = waveform?.length ? waveform : Array(32).fill(0.3);
+
+  useEffect(() => {
+    if (audioRef.current) audioRef.current.playbackRate = rate;
+  }, [rate]);
+
+  const togglePlay = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) {
+      audio.play().catch((error) => console.error('Playback failed:', error));
+    } else {
+      audio.pause();
+    }
+  };
+
+  const seek = (fraction: number) => {
+    const audio = audioRef.current;
+    if (!audio || !duration) return;
+    audio.currentTime = fraction * duration;
+    setPosition(audio.currentTime);
+  };
+
+  const cycleRate = () => setRate(PLAYBACK_RATES[(PLAYBACK_RATES.indexOf(rate) + 1) % PLAYBACK_RATES.length]);
+
+  return (
+    <div className="min-w-[220px]">
+      <div className="flex items-center gap-2">
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 shrink-0 rounded-full bg-background/60"
+          onClick={togglePlay}
+          aria-label={playing ? 'Pause voice message' : 'Play voice message'}
+        >
+          {playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+        </Button>
+        <Waveform levels={levels} progress={duration ? position / duration : 0} onSeek={seek} className="flex-1" />
+        <span className="w-9 shrink-0 text-right text-[10px] tabular-nums text-muted-foreground">
+          {formatDuration(playing || position ? position : duration)}
+        </span>
+        <button
+          type="button"
+          onClick={cycleRate}
+          className="shrink-0 rounded-full bg-background/60 px-1.5 py-0.5 text-[10px] font-medium hover:bg-background/80"
+          aria-label="Change playback speed"
+        >
+          {rate}×
+        </button>
+      </div>
+
+      {transcript && (
+        <div className="mt-1">
+          <button
+            type="button"
+            onClick={() => setShowTranscript((shown) => !shown)}
+            className="text-[10px] text-muted-foreground hover:underline"
+          >
+            {showTranscript ? 'Hide transcript' : 'Show transcript'}
+          </button>
+          {showTranscript && <p className="text-xs italic text-muted-foreground whitespace-pre-wrap">{transcript}</p>}
+        </div>
+      )}
+
+      <audio
+        ref={audioRef}
+        src={url}
+        preload="metadata"
+        onPlay={() => setPlaying(true)}
+        onPause={() => setPlaying(false)}
+        onTimeUpdate={(e) => setPosition(e.currentTarget.currentTime)}
+        onEnded={() => {
+          setPlaying(false);
+          setPosition(0);
+        }}
+        className="hidden"
+      />
+    </div>
+  );
+};
+
+export default VoiceNotePlayer;
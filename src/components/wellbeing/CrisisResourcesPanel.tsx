@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { useAuth } from '@/contexts/AuthContext';
+import { getCrisisResources } from '@/lib/crisis';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Heart, Phone, MessageSquare, ExternalLink, Send, Loader2, X } from 'lucide-react';
+
+interface CrisisResourcesPanelProps {
+  onClose: () => void;
+  onNotifyTrustedContact: () => Promise<void>;
+}
+
+const CrisisResourcesPanel: React.FC<CrisisResourcesPanelProps> = ({ onClose, onNotifyTrustedContact }) => {
+  const { userProfile } = useAuth();
+  const { toast } = useToast();
+  const [notifying, setNotifying] = useState(false);
+  const [notified, setNotified] = useState(false);
+  const resources = getCrisisResources();
+  const trustedContact = userProfile?.trustedContact;
+
+  const handleNotify = async () => {
+    setNotifying(true);
+    try {
+      await onNotifyTrustedContact();
+      setNotified(true);
+    } catch (error) {
+      toast({
+        title: "Couldn't reach your trusted contact",
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setNotifying(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: 20 }}
+      role="region"
+      aria-label="Support resources"
+      className="mx-4 mb-2 p-4 rounded-lg bg-chat-system border border-primary/30"
+    >
+      <div className="flex items-start gap-2">
+        <Heart className="h-4 w-4 text-primary mt-0.5 shrink-0" />
+        <div className="flex-1 space-y-3">
+          <div>
+            <p className="text-sm font-medium text-foreground">You don't have to go through this alone.</p>
+            <p className="text-sm text-muted-foreground">
+              It sounds like things are really hard right now. Talking to someone can help, and these
+              services are free, confidential and there for you.
+            </p>
+          </div>
+
+          <ul className="space-y-2">
+            {resources.map((resource) => (
+              <li key={resource.name} className="text-sm">
+                <p className="font-medium text-foreground">{resource.name}</p>
+                <div className="flex flex-wrap gap-x-3 gap-y-1 text-muted-foreground">
+                  {resource.phone && (
+                    <a href={`tel:${resource.phone.split('/')[0].replace(/\s/g, '')}`} className="flex items-center gap-1 hover:text-primary">
+                      <Phone className="h-3 w-3" />
+                      {resource.phone}
+                    </a>
+                  )}
+                  {resource.sms && (
+                    <span className="flex items-center gap-1">
+                      <MessageSquare className="h-3 w-3" />
+                      {resource.sms}
+                    </span>
+                  )}
+                  {resource.url && (
+                    <a
+                      href={resource.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center gap-1 hover:text-primary"
+                    >
+                      <ExternalLink className="h-3 w-3" />
+                      Website
+                    </a>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          {trustedContact && (
+            <Button size="sm" variant="outline" onClick={handleNotify} disabled={notifying || notified}>
+              {notifying ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+              {notified ? `${trustedContact.displayName} has been told` : `Let ${trustedContact.displayName} know`}
+            </Button>
+          )}
+        </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 shrink-0 text-muted-foreground"
+          onClick={onClose}
+          aria-label="Close support resources"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    </motion.div>
+  );
+};
+
+export default CrisisResourcesPanel;
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import type { DirectoryEntry } from '@/lib/backend';
+import PeoplePicker from '@/components/chat/PeoplePicker';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { HeartHandshake, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+interface TrustedContactDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const TrustedContactDialog: React.FC<TrustedContactDialogProps> = ({ open, onOpenChange }) => {
+  const { userProfile, updateUserProfile } = useAuth();
+  const { toast } = useToast();
+  const [selected, setSelected] = useState<DirectoryEntry | null>(null);
+  const [saving, setSaving] = useState(false);
+  const current = userProfile?.trustedContact;
+
+  const handleOpenChange = (next: boolean) => {
+    onOpenChange(next);
+    if (!next) setSelected(null);
+  };
+
+  const save = async (entry: DirectoryEntry | null) => {
+    setSaving(true);
+    try {
+      await updateUserProfile({
+        trustedContact: entry ? { uid: entry.uid, displayName: entry.displayName } : null,
+      });
+      toast({
+        title: entry ? 'Trusted contact saved' : 'Trusted contact removed',
+        description: entry
+          ? `You can let ${entry.displayName} know if you ever need support.`
+          : 'Nobody will be offered as a trusted contact.',
+      });
+      handleOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Couldn't update your trusted contact",
+        description: 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Trusted Contact</DialogTitle>
+          <DialogDescription>
+            Choose someone you trust. If you ever share that you're struggling, you'll be offered the
+            option to let them know. They are never contacted without your say.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 pt-2">
+          {current && (
+            <div className="flex items-center justify-between rounded-lg bg-muted px-3 py-2 text-sm">
+              <span>
+                Current: <span className="font-medium">{current.displayName}</span>
+              </span>
+              <Button variant="ghost" size="sm" onClick={() => save(null)} disabled={saving}>
+                Remove
+              </Button>
+            </div>
+          )}
+
+          <PeoplePicker
+            selectedIds={selected ? [selected.uid] : []}
+            onToggle={(entry) => setSelected((prev) => (prev?.uid === entry.uid ? null : entry))}
+            excludeIds={current ? [current.uid] : []}
+          />
+
+          <Button className="w-full" onClick={() => save(selected)} disabled={!selected || saving}>
+            {saving ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <HeartHandshake className="h-4 w-4 mr-2" />
+            )}
+            {selected ? `Make ${selected.displayName} my trusted contact` : 'Choose a trusted contact'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TrustedContactDialog;
@@ -87,7 +87,8 @@ const BreathingExercise: React.FC<{ onClose: () => void }> = ({ onClose }) => {
 };
 
 const WellbeingWidget: React.FC = () => {
-  const { todayUsage, dailyLimit, isLimitReached, showBreakReminder, dismissBreakReminder } = useWellbeing();
+  const { todayUsage, todayCallUsage, dailyLimit, isLimitReached, showBreakReminder, dismissBreakReminder } =
+    useWellbeing();
   const [showBreathing, setShowBreathing] = useState(false);
   
   const usagePercentage = Math.min((todayUsage / dailyLimit) * 100, 100);
@@ -113,6 +114,13 @@ const WellbeingWidget: React.FC = () => {
           className={`h-2 ${isLimitReached ? '[&>div]:bg-destructive' : ''}`}
         />
         
+        {todayCallUsage > 0 && (
+          <p className="text-xs text-muted-foreground mt-2">
+            Including {Math.floor(todayCallUsage / 60) ? `${Math.floor(todayCallUsage / 60)}h ` : ''}
+            {todayCallUsage % 60}m in calls
+          </p>
+        )}
+
         {usagePercentage >= 80 && !isLimitReached && (
           <p className="text-xs text-warning mt-2">
             You're approaching your daily limit. Consider taking a break soon.
@@ -0,0 +1,83 @@
+import React from 'react';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { act, cleanup, render, waitFor } from '@testing-library/react';
+import { setChatBackend } from '@/lib/backend';
+import { createLocalBackend } from '@/lib/backend/local';
+import { createLocalStore, type LocalStore } from '@/lib/backend/localStore';
+import { AuthProvider, useAuth } from './AuthContext';
+
+type Auth = ReturnType<typeof useAuth>;
+
+const renderAuth = () => {
+  const current: { auth: Auth | null } = { auth: null };
+  const Probe: React.FC = () => {
+    current.auth = useAuth();
+    return null;
+  };
+  const view = render(
+    <AuthProvider>
+      <Probe />
+    </AuthProvider>
+  );
+  return { current, view };
+};
+
+describe('AuthProvider', () => {
+  let store: LocalStore;
+
+  beforeEach(() => {
+    store = createLocalStore(`auth-test-${crypto.randomUUID()}`);
+    setChatBackend(createLocalBackend(store));
+  });
+
+  afterEach(() => {
+    cleanup();
+    setChatBackend(null);
+  });
+
+  it('keeps at most one profile listener across sign in, sign out and sign in again', async () => {
+    const { current, view } = renderAuth();
+    await waitFor(() => expect(current.auth?.loading).toBe(false));
+
+    await act(() => current.auth!.signUp('sam@example.com', 'secret-password', 'Sam'));
+    await waitFor(() => expect(current.auth?.userProfile?.displayName).toBe('Sam'));
+    const profilePath = `users/${current.auth!.user!.uid}`;
+    expect(store.listenerCount(profilePath)).toBe(1);
+
+    await act(() => current.auth!.logout());
+    await waitFor(() => expect(current.auth?.user).toBeNull());
+    expect(current.auth?.userProfile).toBeNull();
+    expect(store.listenerCount(profilePath)).toBe(0);
+
+    await act(() => current.auth!.signIn('sam@example.com', 'secret-password'));
+    await waitFor(() => expect(current.auth?.userProfile?.displayName).toBe('Sam'));
+    expect(store.listenerCount(profilePath)).toBe(1);
+
+    view.unmount();
+    expect(store.listenerCount(profilePath)).toBe(0);
+    expect(store.listenerCount()).toBe(0);
+  });
+
+  it('moves the profile listener when another account signs in without signing out', async () => {
+    const { current, view } = renderAuth();
+    await waitFor(() => expect(current.auth?.loading).toBe(false));
+
+    await act(() => current.auth!.signUp('sam@example.com', 'secret-password', 'Sam'));
+    await waitFor(() => expect(current.auth?.userProfile?.displayName).toBe('Sam'));
+    const samPath = `users/${current.auth!.user!.uid}`;
+
+    await act(() => current.auth!.signUp('alex@example.com', 'secret-password', 'Alex'));
+    await waitFor(() => expect(current.auth?.userProfile?.displayName).toBe('Alex'));
+    const alexPath = `users/${current.auth!.user!.uid}`;
+    expect(store.listenerCount(samPath)).toBe(0);
+    expect(store.listenerCount(alexPath)).toBe(1);
+
+    await act(() => current.auth!.signIn('sam@example.com', 'secret-password'));
+    await waitFor(() => expect(current.auth?.userProfile?.displayName).toBe('Sam'));
+    expect(store.listenerCount(samPath)).toBe(1);
+    expect(store.listenerCount(alexPath)).toBe(0);
+
+    view.unmount();
+    expect(store.listenerCount()).toBe(0);
+  });
+});
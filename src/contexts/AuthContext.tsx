@@ -1,39 +1,50 @@
-import React, { createContext, useContext, useEffect, useState } from 'react';
+import React, { createContext, useContext, useEffect, useRef, useState } from 'react';
 import {
-  User,
-  createUserWithEmailAndPassword,
-  signInWithEmailAndPassword,
-  signInWithPopup,
-  signOut,
-  onAuthStateChanged,
-  updateProfile,
-} from 'firebase/auth';
-import { ref, set, onValue, serverTimestamp, onDisconnect } from 'firebase/database';
-import {
-  getFirebaseServices,
-  googleProvider,
-  isFirebaseConfigured,
-  getFirebaseInitError,
-} from '@/lib/firebase';
-
-interface UserProfile {
-  uid: string;
-  email: string | null;
-  displayName: string | null;
-  photoURL: string | null;
-  status: 'online' | 'offline';
-  lastSeen: number | null;
-  createdAt: number;
-  safetyMode: boolean;
-  dailyUsageLimit: number; // in minutes
-  todayUsage: number; // in minutes
-}
+  getChatBackend,
+  type BackendKind,
+  type BackendUser,
+  type DirectoryEntry,
+  type PresenceConnection,
+  type UserProfile,
+} from '@/lib/backend';
+import { getFirebaseInitError } from '@/lib/firebase';
+import { IDLE_TIMEOUT_MS } from '@/lib/presence';
+import { useIdle } from '@/hooks/useIdle';
+
+export type { UserProfile };
+
+const createDefaultProfile = (
+  user: BackendUser,
+  overrides: Partial<UserProfile> = {}
+): UserProfile => ({
+  uid: user.uid,
+  email: user.email,
+  displayName: user.displayName,
+  photoURL: user.photoURL,
+  status: 'online',
+  lastSeen: null,
+  createdAt: Date.now(),
+  safetyMode: false,
+  dailyUsageLimit: 120, // 2 hours default
+  todayUsage: 0,
+  todayCallUsage: 0,
+  ...overrides,
+});
+
+// Keeps the account findable from the New Conversation people picker
+const toDirectoryEntry = (user: BackendUser, displayName = user.displayName): DirectoryEntry => ({
+  uid: user.uid,
+  displayName: displayName || user.email || 'User',
+  email: user.email,
+  photoURL: user.photoURL,
+});
 
 interface AuthContextType {
-  user: User | null;
+  user: BackendUser | null;
   userProfile: UserProfile | null;
   loading: boolean;
   isConfigured: boolean;
+  backendKind: BackendKind;
   configError: string | null;
   signUp: (email: string, password: string, displayName: string) => Promise<void>;
   signIn: (email: string, password: string) => Promise<void>;
@@ -53,26 +64,19 @@ export const useAuth = () => {
 };
 
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [user, setUser] = useState<User | null>(null);
+  const [user, setUser] = useState<BackendUser | null>(null);
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
   const [loading, setLoading] = useState(true);
   const [configError, setConfigError] = useState<string | null>(null);
+  const presenceRef = useRef<PresenceConnection | null>(null);
+  const idle = useIdle(IDLE_TIMEOUT_MS);
 
-  const envConfigured = isFirebaseConfigured();
-  const isConfigured = envConfigured && !configError;
+  const backend = getChatBackend();
+  const isConfigured = !configError;
 
   useEffect(() => {
-    if (!envConfigured) {
-      setConfigError(null);
-      setLoading(false);
-      return;
-    }
-
-    let auth: ReturnType<typeof getFirebaseServices>['auth'];
-    let database: ReturnType<typeof getFirebaseServices>['database'];
-
     try {
-      ({ auth, database } = getFirebaseServices());
+      backend.initialize();
       setConfigError(null);
     } catch (e: any) {
       setConfigError(getFirebaseInitError() || e?.message || 'Firebase failed to initialize.');
@@ -80,114 +84,108 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       return;
     }
 
-    const unsubscribe = onAuthStateChanged(auth, async (fbUser) => {
-      setUser(fbUser);
+    const unsubscribe = backend.auth.onAuthStateChanged((authUser) => {
+      setUser(authUser);
+      setLoading(false);
+    });
 
-      if (fbUser) {
-        // Set up presence system
-        const userStatusRef = ref(database, `users/${fbUser.uid}/status`);
-        const userLastSeenRef = ref(database, `users/${fbUser.uid}/lastSeen`);
+    return () => unsubscribe();
+  }, [backend]);
 
-        // Set online status
-        await set(userStatusRef, 'online');
+  // Follow the signed-in user's profile; a new user or signing out drops the previous listener
+  const uid = user?.uid;
 
-        // Set up disconnect handler
-        onDisconnect(userStatusRef).set('offline');
-        onDisconnect(userLastSeenRef).set(serverTimestamp());
+  useEffect(() => {
+    if (!uid) return;
 
-        // Listen for user profile changes
-        const userRef = ref(database, `users/${fbUser.uid}`);
-        onValue(userRef, (snapshot) => {
-          if (snapshot.exists()) {
-            setUserProfile(snapshot.val() as UserProfile);
-          }
-        });
-      } else {
-        setUserProfile(null);
-      }
+    const unsubscribe = backend.users.subscribeProfile(uid, setUserProfile);
+    return () => {
+      unsubscribe();
+      setUserProfile(null);
+    };
+  }, [backend, uid]);
 
-      setLoading(false);
-    });
+  // One presence connection per open tab, made once the profile says whether to share last seen
+  const profileLoaded = !!userProfile;
+  const hideLastSeen = !!userProfile?.hideLastSeen;
+  const hideLastSeenRef = useRef(hideLastSeen);
+  hideLastSeenRef.current = hideLastSeen;
 
-    return () => unsubscribe();
-  }, [envConfigured]);
+  useEffect(() => {
+    if (!uid || !profileLoaded) return;
+
+    const connection = backend.presence.connect(uid, { shareLastSeen: !hideLastSeenRef.current });
+    presenceRef.current = connection;
+    return () => {
+      // Signing out has already disconnected it
+      if (presenceRef.current !== connection) return;
+      presenceRef.current = null;
+      connection.disconnect().catch((error) => console.error('Disconnecting presence failed:', error));
+    };
+  }, [backend, uid, profileLoaded]);
+
+  useEffect(() => {
+    presenceRef.current
+      ?.setShareLastSeen(!hideLastSeen)
+      .catch((error) => console.error('Updating last seen sharing failed:', error));
+  }, [hideLastSeen]);
+
+  useEffect(() => {
+    presenceRef.current?.setIdle(idle).catch((error) => console.error('Updating idle presence failed:', error));
+  }, [idle]);
 
   const signUp = async (email: string, password: string, displayName: string) => {
-    const { auth, database } = getFirebaseServices();
-
-    const { user } = await createUserWithEmailAndPassword(auth, email, password);
-    await updateProfile(user, { displayName });
-
-    // Create user profile in RTDB
-    const userRef = ref(database, `users/${user.uid}`);
-    await set(userRef, {
-      uid: user.uid,
-      email: user.email,
-      displayName,
-      photoURL: null,
-      status: 'online',
-      lastSeen: null,
-      createdAt: Date.now(),
-      safetyMode: false,
-      dailyUsageLimit: 120, // 2 hours default
-      todayUsage: 0,
-    });
+    const user = await backend.auth.signUp(email, password, displayName);
+
+    // Create user profile and directory entry
+    await backend.users.setProfile(user.uid, createDefaultProfile(user, { displayName }));
+    await backend.directory.upsert(toDirectoryEntry(user, displayName));
   };
 
   const signIn = async (email: string, password: string) => {
-    const { auth } = getFirebaseServices();
-    await signInWithEmailAndPassword(auth, email, password);
+    const user = await backend.auth.signIn(email, password);
+
+    // Accounts created before the directory existed get listed on their next sign in
+    const existingEntry = await backend.directory.get(user.uid);
+    if (!existingEntry) {
+      const profile = await backend.users.getProfile(user.uid);
+      await backend.directory.upsert(toDirectoryEntry(user, profile?.displayName));
+    }
   };
 
   const signInWithGoogle = async () => {
-    const { auth, database } = getFirebaseServices();
-
-    const { user } = await signInWithPopup(auth, googleProvider);
+    const user = await backend.auth.signInWithGoogle();
 
     // Check if user profile exists, if not create one
-    const userRef = ref(database, `users/${user.uid}`);
-    onValue(
-      userRef,
-      async (snapshot) => {
-        if (!snapshot.exists()) {
-          await set(userRef, {
-            uid: user.uid,
-            email: user.email,
-            displayName: user.displayName,
-            photoURL: user.photoURL,
-            status: 'online',
-            lastSeen: null,
-            createdAt: Date.now(),
-            safetyMode: false,
-            dailyUsageLimit: 120,
-            todayUsage: 0,
-          });
-        }
-      },
-      { onlyOnce: true }
-    );
+    const existingProfile = await backend.users.getProfile(user.uid);
+    if (!existingProfile) {
+      await backend.users.setProfile(user.uid, createDefaultProfile(user));
+    }
+    await backend.directory.upsert(toDirectoryEntry(user, existingProfile?.displayName));
   };
 
   const logout = async () => {
-    const { auth, database } = getFirebaseServices();
-
-    if (user) {
-      // Set offline status before signing out
-      const userStatusRef = ref(database, `users/${user.uid}/status`);
-      const userLastSeenRef = ref(database, `users/${user.uid}/lastSeen`);
-      await set(userStatusRef, 'offline');
-      await set(userLastSeenRef, serverTimestamp());
-    }
+    // Go offline while still allowed to write presence
+    const connection = presenceRef.current;
+    presenceRef.current = null;
+    await connection?.disconnect();
 
-    await signOut(auth);
+    await backend.auth.signOut();
   };
 
   const updateUserProfile = async (data: Partial<UserProfile>) => {
     if (!user) return;
 
-    const { database } = getFirebaseServices();
-    const userRef = ref(database, `users/${user.uid}`);
-    await set(userRef, { ...userProfile, ...data });
+    await backend.users.updateProfile(user.uid, data);
+
+    if (data.displayName !== undefined || data.photoURL !== undefined) {
+      await backend.directory.upsert(
+        toDirectoryEntry(
+          { ...user, photoURL: data.photoURL ?? userProfile?.photoURL ?? user.photoURL },
+          data.displayName ?? userProfile?.displayName
+        )
+      );
+    }
   };
 
   return (
@@ -197,6 +195,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         userProfile,
         loading,
         isConfigured,
+        backendKind: backend.kind,
         configError,
         signUp,
         signIn,
@@ -0,0 +1,409 @@
+import React, { useEffect, useState, useCallback, useRef } from 'react';
+import {
+  getChatBackend,
+  type CallMedia,
+  type CallRecord,
+  type CallSession,
+  type CallStatus,
+  type Chat,
+  type IceCandidate,
+  type Unsubscribe,
+} from '@/lib/backend';
+import { describeCall, getCallConstraints, getIceServers, RING_TIMEOUT_MS } from '@/lib/calls';
+import { CallContext, type CallState } from '@/hooks/useCall';
+import { useAuth } from './AuthContext';
+import { useWellbeing } from './WellbeingContext';
+
+// Everything that has to be torn down when a call ends
+interface CallResources {
+  chatId: string;
+  session: CallSession;
+  role: 'caller' | 'callee';
+  participants: string[];
+  peer: RTCPeerConnection | null;
+  localStream: MediaStream | null;
+  // Candidates that arrived before the remote description was set
+  queuedCandidates: IceCandidate[];
+  unsubscribes: Unsubscribe[];
+  ringTimeout: ReturnType<typeof setTimeout> | null;
+  finished: boolean;
+}
+
+const TERMINAL_STATUSES: CallStatus[] = ['ended', 'declined', 'missed'];
+
+const callId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const toRecord = (session: CallSession, status: CallStatus): CallRecord => {
+  if (status === 'declined') return { media: session.media, outcome: 'declined' };
+  if (!session.answeredAt) return { media: session.media, outcome: 'missed' };
+  return {
+    media: session.media,
+    outcome: 'completed',
+    duration: Math.round(((session.endedAt || Date.now()) - session.answeredAt) / 1000),
+  };
+};
+
+const getMedia = async (media: CallMedia) => {
+  if (!navigator.mediaDevices?.getUserMedia || typeof RTCPeerConnection === 'undefined') {
+    throw new Error('Calls are not supported in this browser.');
+  }
+  return navigator.mediaDevices.getUserMedia(getCallConstraints(media)).catch(() => {
+    throw new Error(
+      media === 'video'
+        ? 'Camera and microphone access are needed for video calls.'
+        : 'Microphone access is needed for calls.'
+    );
+  });
+};
+
+export const CallProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user, userProfile } = useAuth();
+  const { setInCall } = useWellbeing();
+  const [call, setCall] = useState<CallState | null>(null);
+  const resourcesRef = useRef<CallResources | null>(null);
+
+  const patchCall = useCallback((changes: Partial<CallState>) => {
+    setCall((current) => (current ? { ...current, ...changes } : current));
+  }, []);
+
+  // Tears the call down once, whichever side ended it. The caller records it in the chat and
+  // clears the signaling data.
+  const finish = useCallback(
+    async (status: CallStatus) => {
+      const resources = resourcesRef.current;
+      if (!resources || resources.finished) return;
+      resources.finished = true;
+      resourcesRef.current = null;
+
+      resources.unsubscribes.forEach((unsubscribe) => unsubscribe());
+      if (resources.ringTimeout) clearTimeout(resources.ringTimeout);
+      resources.peer?.close();
+      resources.localStream?.getTracks().forEach((track) => track.stop());
+      setCall(null);
+      setInCall(false);
+
+      if (resources.role !== 'caller') return;
+
+      const { chatId, session } = resources;
+      const backend = getChatBackend();
+      const record = toRecord(session, status);
+      try {
+        await backend.messages.send(
+          chatId,
+          {
+            type: 'call',
+            senderId: session.callerId,
+            senderName: session.callerName,
+            text: describeCall(record),
+            timestamp: Date.now(),
+            call: record,
+          },
+          // Only a missed call is something for the callee to catch up on
+          record.outcome === 'missed' ? [session.calleeId] : []
+        );
+      } catch (error) {
+        console.error('Failed to record call:', error);
+      }
+      await backend.calls.clear(chatId, session.calleeId).catch((error) => {
+        console.error('Failed to clear call:', error);
+      });
+    },
+    [setInCall]
+  );
+
+  const addRemoteCandidate = useCallback((resources: CallResources, candidate: IceCandidate) => {
+    if (!resources.peer?.remoteDescription) {
+      resources.queuedCandidates.push(candidate);
+      return;
+    }
+    resources.peer.addIceCandidate(candidate).catch((error) => console.warn('Bad ICE candidate:', error));
+  }, []);
+
+  const flushCandidates = useCallback(
+    (resources: CallResources) => {
+      const queued = resources.queuedCandidates.splice(0);
+      queued.forEach((candidate) => addRemoteCandidate(resources, candidate));
+    },
+    [addRemoteCandidate]
+  );
+
+  // Peer connection that sends our media, surfaces theirs and publishes our candidates
+  const createPeer = useCallback(
+    (resources: CallResources, selfId: string, peerId: string, localStream: MediaStream) => {
+      const backend = getChatBackend();
+      const peer = new RTCPeerConnection({ iceServers: getIceServers() });
+      const remoteStream = new MediaStream();
+
+      localStream.getTracks().forEach((track) => peer.addTrack(track, localStream));
+      peer.ontrack = (event) => {
+        event.streams[0]?.getTracks().forEach((track) => {
+          if (!remoteStream.getTracks().includes(track)) remoteStream.addTrack(track);
+        });
+        patchCall({ remoteStream });
+      };
+      peer.onicecandidate = (event) => {
+        if (event.candidate) {
+          backend.calls
+            .addCandidate(resources.chatId, selfId, event.candidate.toJSON() as IceCandidate)
+            .catch((error) => console.error('Failed to send ICE candidate:', error));
+        }
+      };
+      peer.onconnectionstatechange = () => {
+        if (peer.connectionState === 'connected') {
+          patchCall({ phase: 'active' });
+          setInCall(true);
+        } else if (peer.connectionState === 'failed') {
+          backend.calls
+            .update(resources.chatId, { status: 'ended', endedAt: Date.now() })
+            .catch(() => finish('ended'));
+        }
+      };
+
+      resources.unsubscribes.push(
+        backend.calls.subscribeCandidates(resources.chatId, peerId, (candidate) =>
+          addRemoteCandidate(resources, candidate)
+        )
+      );
+      return peer;
+    },
+    [patchCall, setInCall, finish, addRemoteCandidate]
+  );
+
+  // Follows the shared session: the answer arriving, or either side ending the call
+  const watchSession = useCallback(
+    (resources: CallResources) => {
+      const unsubscribe = getChatBackend().calls.subscribe(resources.chatId, (session) => {
+        if (!session || session.id !== resources.session.id) {
+          finish('ended');
+          return;
+        }
+        resources.session = session;
+        setCall((current) => (current ? { ...current, session } : current));
+
+        if (TERMINAL_STATUSES.includes(session.status)) {
+          finish(session.status);
+          return;
+        }
+
+        const peer = resources.peer;
+        if (resources.role === 'caller' && session.answer && peer && !peer.remoteDescription) {
+          if (resources.ringTimeout) clearTimeout(resources.ringTimeout);
+          resources.ringTimeout = null;
+          patchCall({ phase: 'connecting' });
+          peer
+            .setRemoteDescription(session.answer)
+            .then(() => flushCandidates(resources))
+            .catch((error) => console.error('Failed to apply answer:', error));
+        }
+      });
+      resources.unsubscribes.push(unsubscribe);
+    },
+    [finish, patchCall, flushCandidates]
+  );
+
+  const startCall = useCallback(
+    async (chat: Chat, media: CallMedia) => {
+      if (!user || !userProfile) return;
+      if (resourcesRef.current) throw new Error("You're already in a call.");
+
+      const peerId = chat.participants.find((uid) => uid !== user.uid);
+      if (chat.isGroup || !peerId) throw new Error('Calls are available in one-to-one chats.');
+
+      const localStream = await getMedia(media);
+      const resources: CallResources = {
+        chatId: chat.id,
+        role: 'caller',
+        participants: chat.participants,
+        session: {
+          id: callId(),
+          callerId: user.uid,
+          callerName: userProfile.displayName || 'User',
+          calleeId: peerId,
+          media,
+          status: 'ringing',
+          createdAt: Date.now(),
+        },
+        peer: null,
+        localStream,
+        queuedCandidates: [],
+        unsubscribes: [],
+        ringTimeout: null,
+        finished: false,
+      };
+      resourcesRef.current = resources;
+
+      try {
+        const backend = getChatBackend();
+        const peer = createPeer(resources, user.uid, peerId, localStream);
+        resources.peer = peer;
+        const offer = await peer.createOffer();
+        await peer.setLocalDescription(offer);
+        resources.session.offer = { type: 'offer', sdp: offer.sdp || '' };
+
+        await backend.calls.start(chat.id, resources.session);
+        setCall({
+          chatId: chat.id,
+          session: resources.session,
+          role: 'caller',
+          peerName: chat.participantNames[peerId] || 'User',
+          phase: 'outgoing',
+          localStream,
+          remoteStream: null,
+          muted: false,
+          cameraOff: false,
+        });
+        watchSession(resources);
+
+        resources.ringTimeout = setTimeout(() => {
+          if (resources.session.status === 'ringing') {
+            backend.calls.update(chat.id, { status: 'missed', endedAt: Date.now() }).catch((error) => {
+              // The session won't report it, so end the call here
+              console.error('Failed to mark call missed:', error);
+              finish('missed');
+            });
+          }
+        }, RING_TIMEOUT_MS);
+      } catch (error) {
+        await finish('ended');
+        throw error;
+      }
+    },
+    [user, userProfile, createPeer, watchSession, finish]
+  );
+
+  // Rings for invites addressed to us; a second call while one is going is turned away
+  useEffect(() => {
+    if (!user) return;
+
+    const backend = getChatBackend();
+    return backend.calls.subscribeInvite(user.uid, (invite) => {
+      if (!invite) return;
+      const current = resourcesRef.current;
+      if (current?.session.id === invite.id) return;
+
+      if (current) {
+        backend.calls
+          .update(invite.chatId, { status: 'declined', endedAt: Date.now() })
+          .catch((error) => console.error('Failed to decline call:', error));
+        return;
+      }
+      if (Date.now() - invite.createdAt > RING_TIMEOUT_MS) return;
+
+      const resources: CallResources = {
+        chatId: invite.chatId,
+        role: 'callee',
+        participants: [invite.callerId, user.uid],
+        session: { ...invite, calleeId: user.uid, status: 'ringing' },
+        peer: null,
+        localStream: null,
+        queuedCandidates: [],
+        unsubscribes: [],
+        ringTimeout: null,
+        finished: false,
+      };
+      resourcesRef.current = resources;
+      setCall({
+        chatId: invite.chatId,
+        session: resources.session,
+        role: 'callee',
+        peerName: invite.callerName,
+        phase: 'incoming',
+        localStream: null,
+        remoteStream: null,
+        muted: false,
+        cameraOff: false,
+      });
+      watchSession(resources);
+    });
+  }, [user, watchSession]);
+
+  const accept = useCallback(async () => {
+    const resources = resourcesRef.current;
+    if (!user || !resources || resources.role !== 'callee' || resources.peer) return;
+
+    const { chatId, session } = resources;
+    if (!session.offer) throw new Error('The call is no longer available.');
+
+    try {
+      const localStream = await getMedia(session.media);
+      resources.localStream = localStream;
+      const peer = createPeer(resources, user.uid, session.callerId, localStream);
+      resources.peer = peer;
+      patchCall({ phase: 'connecting', localStream });
+
+      await peer.setRemoteDescription(session.offer);
+      flushCandidates(resources);
+      const answer = await peer.createAnswer();
+      await peer.setLocalDescription(answer);
+
+      await getChatBackend().calls.update(chatId, {
+        answer: { type: 'answer', sdp: answer.sdp || '' },
+        status: 'active',
+        answeredAt: Date.now(),
+      });
+    } catch (error) {
+      await getChatBackend()
+        .calls.update(chatId, { status: 'ended', endedAt: Date.now() })
+        .catch(() => undefined);
+      await finish('ended');
+      throw error;
+    }
+  }, [user, createPeer, patchCall, flushCandidates, finish]);
+
+  const decline = useCallback(async () => {
+    const resources = resourcesRef.current;
+    if (!resources) return;
+    await getChatBackend().calls.update(resources.chatId, { status: 'declined', endedAt: Date.now() });
+  }, []);
+
+  // Ringing calls the caller gives up on count as missed
+  const hangUp = useCallback(async () => {
+    const resources = resourcesRef.current;
+    if (!resources) return;
+
+    const status: CallStatus = resources.session.answeredAt ? 'ended' : 'missed';
+    try {
+      await getChatBackend().calls.update(resources.chatId, { status, endedAt: Date.now() });
+    } finally {
+      await finish(status);
+    }
+  }, [finish]);
+
+  const toggleMute = useCallback(() => {
+    const stream = resourcesRef.current?.localStream;
+    if (!stream) return;
+    const muted = stream.getAudioTracks().some((track) => track.enabled);
+    stream.getAudioTracks().forEach((track) => {
+      track.enabled = !muted;
+    });
+    patchCall({ muted });
+  }, [patchCall]);
+
+  const toggleCamera = useCallback(() => {
+    const stream = resourcesRef.current?.localStream;
+    if (!stream) return;
+    const cameraOff = stream.getVideoTracks().some((track) => track.enabled);
+    stream.getVideoTracks().forEach((track) => {
+      track.enabled = !cameraOff;
+    });
+    patchCall({ cameraOff });
+  }, [patchCall]);
+
+  // Hang up when signing out or leaving the app
+  useEffect(() => {
+    const handleUnload = () => {
+      if (resourcesRef.current) hangUp().catch((error) => console.error('Failed to hang up:', error));
+    };
+    window.addEventListener('beforeunload', handleUnload);
+    return () => {
+      window.removeEventListener('beforeunload', handleUnload);
+      handleUnload();
+    };
+  }, [user, hangUp]);
+
+  return (
+    <CallContext.Provider value={{ call, startCall, accept, decline, hangUp, toggleMute, toggleCamera }}>
+      {children}
+    </CallContext.Provider>
+  );
+};
@@ -0,0 +1,176 @@
+import React, { useEffect, useRef, useState, useCallback } from 'react';
+import { getChatBackend } from '@/lib/backend';
+import { releaseAttachment } from '@/lib/attachments';
+import {
+  deliverOutboxEntry,
+  isRetryable,
+  isSendPending,
+  loadOutbox,
+  retryDelay,
+  saveOutbox,
+  MAX_AUTO_ATTEMPTS,
+  type NewOutboxEntry,
+  type OutboxEntry,
+} from '@/lib/outbox';
+import { OutboxContext } from '@/hooks/useOutbox';
+import { useAuth } from './AuthContext';
+
+const releaseEntry = (entry: OutboxEntry) => entry.attachments.forEach(releaseAttachment);
+
+// Delivers queued messages one at a time while connected, backing off between failed attempts
+export const OutboxProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const uid = user?.uid ?? null;
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [uploadProgress, setUploadProgress] = useState<Record<string, number>>({});
+  const [online, setOnline] = useState(false);
+  // Bumped to look for due entries again
+  const [wake, setWake] = useState(0);
+  const entriesRef = useRef<OutboxEntry[]>([]);
+  const ownerRef = useRef<string | null>(null);
+  // Settles once the stored entries are in, so a new one can't overwrite them
+  const loadedRef = useRef<Promise<void>>(Promise.resolve());
+  const deliveringRef = useRef(false);
+
+  // Every change goes through here: state to render, the ref for callbacks, and IndexedDB
+  const commit = useCallback((change: (current: OutboxEntry[]) => OutboxEntry[]) => {
+    const owner = ownerRef.current;
+    if (!owner) return;
+
+    const next = change(entriesRef.current);
+    if (next === entriesRef.current) return;
+    entriesRef.current = next;
+    setEntries(next);
+    saveOutbox(owner, next).catch((error) => console.error('Saving the outbox failed:', error));
+  }, []);
+
+  useEffect(() => {
+    if (!uid) return;
+
+    let cancelled = false;
+    ownerRef.current = uid;
+    loadedRef.current = loadOutbox(uid)
+      .then((stored) => {
+        if (cancelled) {
+          stored.forEach(releaseEntry);
+          return;
+        }
+        entriesRef.current = stored;
+        setEntries(stored);
+      })
+      .catch((error) => console.error('Loading the outbox failed:', error));
+
+    return () => {
+      cancelled = true;
+      ownerRef.current = null;
+      entriesRef.current.forEach(releaseEntry);
+      entriesRef.current = [];
+      setEntries([]);
+      setUploadProgress({});
+    };
+  }, [uid]);
+
+  useEffect(() => {
+    if (!uid) return;
+
+    return getChatBackend().connection.subscribe(setOnline);
+  }, [uid]);
+
+  // Back online: waiting entries go out now rather than at the end of their backoff
+  useEffect(() => {
+    if (!online) return;
+
+    commit((current) =>
+      current.some((entry) => entry.status === 'pending')
+        ? current.map((entry) => (entry.status === 'pending' ? { ...entry, nextAttemptAt: Date.now() } : entry))
+        : current
+    );
+  }, [online, commit]);
+
+  useEffect(() => {
+    if (!online || !uid || deliveringRef.current) return;
+
+    const now = Date.now();
+    const waiting = entries.filter((entry) => entry.status === 'pending');
+    const due = waiting.find((entry) => entry.nextAttemptAt <= now);
+    if (!due) {
+      if (!waiting.length) return;
+
+      const nextAttemptAt = Math.min(...waiting.map((entry) => entry.nextAttemptAt));
+      const timeout = setTimeout(() => setWake((count) => count + 1), nextAttemptAt - now);
+      return () => clearTimeout(timeout);
+    }
+
+    const update = (changes: Partial<OutboxEntry>) =>
+      commit((current) => current.map((entry) => (entry.id === due.id ? { ...entry, ...changes } : entry)));
+
+    deliveringRef.current = true;
+    update({ status: 'sending' });
+    deliverOutboxEntry(due, (attachmentId, progress) =>
+      setUploadProgress((current) => ({ ...current, [attachmentId]: progress }))
+    )
+      .then(() => {
+        commit((current) => current.filter((entry) => entry.id !== due.id));
+        releaseEntry(due);
+      })
+      .catch((error) => {
+        const attempts = due.attempts + 1;
+        const failed = attempts >= MAX_AUTO_ATTEMPTS || !isRetryable(error);
+        update({
+          status: failed ? 'failed' : 'pending',
+          attempts,
+          nextAttemptAt: Date.now() + retryDelay(attempts),
+          error: error instanceof Error ? error.message : String(error),
+        });
+      })
+      .finally(() => {
+        deliveringRef.current = false;
+        setUploadProgress({});
+        setWake((count) => count + 1);
+      });
+  }, [entries, online, uid, wake, commit]);
+
+  const enqueue = useCallback(
+    async (entry: NewOutboxEntry) => {
+      await loadedRef.current;
+      if (!ownerRef.current) {
+        throw new Error('Sign in to send messages.');
+      }
+
+      commit((current) => [...current, { ...entry, status: 'pending', attempts: 0, nextAttemptAt: Date.now() }]);
+    },
+    [commit]
+  );
+
+  const cancel = useCallback(
+    (id: string) => {
+      const entry = entriesRef.current.find((candidate) => candidate.id === id);
+      if (!entry || entry.status === 'sending' || isSendPending(id)) return false;
+
+      commit((current) => current.filter((candidate) => candidate.id !== id));
+      releaseEntry(entry);
+      return true;
+    },
+    [commit]
+  );
+
+  // A failed entry gets a fresh set of automatic attempts
+  const resend = useCallback(
+    (id: string) => {
+      commit((current) =>
+        current.map((entry) =>
+          entry.id === id && entry.status === 'failed'
+            ? { ...entry, status: 'pending', attempts: 0, nextAttemptAt: Date.now(), error: undefined }
+            : entry
+        )
+      );
+    },
+    [commit]
+  );
+
+  return (
+    <OutboxContext.Provider value={{ entries, uploadProgress, online, enqueue, cancel, resend }}>
+      {children}
+    </OutboxContext.Provider>
+  );
+};
@@ -1,12 +1,14 @@
 import React, { createContext, useContext, useEffect, useState, useCallback } from 'react';
-import { ref, set } from 'firebase/database';
-import { getFirebaseDatabase } from '@/lib/firebase';
+import { getChatBackend } from '@/lib/backend';
 import { useAuth } from './AuthContext';
 import { useToast } from '@/hooks/use-toast';
 
 interface WellbeingContextType {
   sessionStartTime: number | null;
   todayUsage: number; // in minutes
+  todayCallUsage: number; // in minutes, included in todayUsage
+  inCall: boolean;
+  setInCall: (inCall: boolean) => void;
   dailyLimit: number; // in minutes
   isLimitReached: boolean;
   showBreakReminder: boolean;
@@ -29,6 +31,8 @@ export const WellbeingProvider: React.FC<{ children: React.ReactNode }> = ({ chi
   const { toast } = useToast();
   const [sessionStartTime, setSessionStartTime] = useState<number | null>(null);
   const [todayUsage, setTodayUsage] = useState(0);
+  const [todayCallUsage, setTodayCallUsage] = useState(0);
+  const [inCall, setInCall] = useState(false);
   const [dailyLimit, setDailyLimit] = useState(120);
   const [showBreakReminder, setShowBreakReminder] = useState(false);
   const [lastBreakReminder, setLastBreakReminder] = useState(0);
@@ -36,7 +40,7 @@ export const WellbeingProvider: React.FC<{ children: React.ReactNode }> = ({ chi
   // Track session time
   useEffect(() => {
     if (user && isConfigured) {
-      const database = getFirebaseDatabase();
+      const backend = getChatBackend();
 
       setSessionStartTime(Date.now());
 
@@ -46,8 +50,7 @@ export const WellbeingProvider: React.FC<{ children: React.ReactNode }> = ({ chi
           const newUsage = prev + 1;
 
           // Save to database
-          const usageRef = ref(database, `users/${user.uid}/todayUsage`);
-          set(usageRef, newUsage);
+          backend.usage.setTodayUsage(user.uid, newUsage);
 
           return newUsage;
         });
@@ -57,10 +60,28 @@ export const WellbeingProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     }
   }, [user, isConfigured]);
 
+  // Track time spent in calls
+  useEffect(() => {
+    if (user && isConfigured && inCall) {
+      const backend = getChatBackend();
+
+      const interval = setInterval(() => {
+        setTodayCallUsage((prev) => {
+          const newUsage = prev + 1;
+          backend.usage.setTodayCallUsage(user.uid, newUsage);
+          return newUsage;
+        });
+      }, 60000);
+
+      return () => clearInterval(interval);
+    }
+  }, [user, isConfigured, inCall]);
+
   // Load user preferences
   useEffect(() => {
     if (userProfile) {
       setTodayUsage(userProfile.todayUsage || 0);
+      setTodayCallUsage(userProfile.todayCallUsage || 0);
       setDailyLimit(userProfile.dailyUsageLimit || 120);
     }
   }, [userProfile]);
@@ -109,11 +130,11 @@ export const WellbeingProvider: React.FC<{ children: React.ReactNode }> = ({ chi
 
   const resetDailyUsage = useCallback(async () => {
     if (user && isConfigured) {
-      const database = getFirebaseDatabase();
-
       setTodayUsage(0);
-      const usageRef = ref(database, `users/${user.uid}/todayUsage`);
-      await set(usageRef, 0);
+      setTodayCallUsage(0);
+      const backend = getChatBackend();
+      await backend.usage.setTodayUsage(user.uid, 0);
+      await backend.usage.setTodayCallUsage(user.uid, 0);
     }
   }, [user, isConfigured]);
 
@@ -122,6 +143,9 @@ export const WellbeingProvider: React.FC<{ children: React.ReactNode }> = ({ chi
       value={{
         sessionStartTime,
         todayUsage,
+        todayCallUsage,
+        inCall,
+        setInCall,
         dailyLimit,
         isLimitReached,
         showBreakReminder,
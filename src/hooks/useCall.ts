@@ -0,0 +1,39 @@
+import { createContext, useContext } from 'react';
+import type { CallMedia, CallSession, Chat } from '@/lib/backend';
+
+// outgoing: we are ringing them; incoming: they are ringing us; connecting: answered, media
+// still being negotiated; active: talking
+export type CallPhase = 'outgoing' | 'incoming' | 'connecting' | 'active';
+
+export interface CallState {
+  chatId: string;
+  session: CallSession;
+  role: 'caller' | 'callee';
+  peerName: string;
+  phase: CallPhase;
+  localStream: MediaStream | null;
+  remoteStream: MediaStream | null;
+  muted: boolean;
+  cameraOff: boolean;
+}
+
+export interface CallContextType {
+  call: CallState | null;
+  startCall: (chat: Chat, media: CallMedia) => Promise<void>;
+  accept: () => Promise<void>;
+  decline: () => Promise<void>;
+  hangUp: () => Promise<void>;
+  toggleMute: () => void;
+  toggleCamera: () => void;
+}
+
+// Provided by CallProvider (contexts/CallContext)
+export const CallContext = createContext<CallContextType | undefined>(undefined);
+
+export const useCall = () => {
+  const context = useContext(CallContext);
+  if (!context) {
+    throw new Error('useCall must be used within a CallProvider');
+  }
+  return context;
+};
@@ -1,296 +1,660 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import {
-  ref,
-  push,
-  set,
-  onValue,
-  off,
-  serverTimestamp,
-  query,
-  orderByChild,
-  limitToLast,
-  remove,
-} from 'firebase/database';
-import { getFirebaseDatabase } from '@/lib/firebase';
+  getChatBackend,
+  compareMessages,
+  isEventMessage,
+  type Chat,
+  type ChatMembership,
+  type ChatPreferences,
+  type ChatSummary,
+  type DirectoryEntry,
+  type Message,
+  type MessageCursor,
+  type MessageEdit,
+  type MessageReply,
+  type MessageRevision,
+} from '@/lib/backend';
 import { useAuth } from '@/contexts/AuthContext';
-import { analyzeEmotion, detectToxicity } from '@/lib/ai';
-
-export interface Message {
-  id: string;
-  senderId: string;
-  senderName: string;
-  text: string;
-  timestamp: number;
-  emotion?: 'neutral' | 'happy' | 'sad' | 'angry' | 'stressed' | 'anxious';
-  isToxic?: boolean;
-  isDeleted?: boolean;
-  deletedAt?: number;
+import { useOutbox } from '@/hooks/useOutbox';
+import { analyzeEmotions, detectToxicity, type Emotion, type ToxicityResult } from '@/lib/ai';
+import { detectCrisisSignal } from '@/lib/crisis';
+import { screenedContent } from '@/lib/safety';
+import { hasReacted } from '@/lib/reactions';
+import type { PreparedAttachment } from '@/lib/attachments';
+import {
+  EMPTY_MESSAGE_STORE,
+  removeMessage,
+  selectMessages,
+  updateMessage,
+  upsertMessages,
+  type MessageStore,
+} from '@/lib/messageStore';
+
+export type { Chat, ChatPreferences, ChatSummary, Message };
+
+export interface SendMessageOptions {
+  // The sender has seen the warning for this text and chose to send it anyway
+  acknowledgeWarning?: boolean;
+  replyTo?: Message;
+  attachments?: PreparedAttachment[];
 }
 
-export interface Chat {
-  id: string;
-  participants: string[];
-  participantNames: Record<string, string>;
-  lastMessage?: string;
-  lastMessageTime?: number;
-  isGroup: boolean;
-  groupName?: string;
-  createdAt: number;
-}
+// 'sent' once the message is in the outbox, which delivers it from there
+export type SendMessageResult =
+  | { status: 'sent'; emotion: Emotion; crisis: boolean }
+  | { status: 'needs-confirmation'; toxicity: ToxicityResult };
+
+// Messages per page, for both the live window and each older page
+const PAGE_SIZE = 50;
+
+// How long after sending a message its sender may still delete it for everyone
+export const DELETE_FOR_EVERYONE_WINDOW_MS = 60 * 60 * 1000;
+// How long a deletion can be undone before it is written
+export const UNDO_WINDOW_MS = 5000;
+
+// Length of the quote stored with a reply
+const REPLY_SNIPPET_LENGTH = 100;
+
+const toReply = (message: Message): MessageReply => ({
+  messageId: message.id,
+  senderId: message.senderId,
+  senderName: message.senderName,
+  snippet: message.text.substring(0, REPLY_SNIPPET_LENGTH),
+  timestamp: message.timestamp,
+});
+
+const toTombstone = (message: Message): Message => ({
+  ...message,
+  isDeleted: true,
+  text: '',
+  emotion: undefined,
+  emotionAnalysis: undefined,
+  edits: undefined,
+  reactions: undefined,
+  attachments: undefined,
+});
+
+export const canDeleteForEveryone = (message: Message, uid: string | undefined) =>
+  !!uid &&
+  message.senderId === uid &&
+  !isEventMessage(message) &&
+  !message.isDeleted &&
+  Date.now() - message.timestamp <= DELETE_FOR_EVERYONE_WINDOW_MS;
+
+// Groups created before admin roles existed have no admins, so every member manages them
+export const isChatAdmin = (chat: Chat, uid: string | undefined) =>
+  !!uid && chat.participants.includes(uid) && (!chat.admins?.length || chat.admins.includes(uid));
+
+// Refuses severe content and asks the sender to confirm milder content; null means it may go out
+const screenOutgoing = async (
+  text: string,
+  strict: boolean,
+  options: SendMessageOptions
+): Promise<SendMessageResult | null> => {
+  const toxicity = await detectToxicity(text, { strict });
+
+  if (toxicity.action === 'block') {
+    throw new Error('This message contains harmful content. Please rephrase it kindly.');
+  }
+
+  if (toxicity.action === 'warn' && !options.acknowledgeWarning) {
+    return { status: 'needs-confirmation', toxicity };
+  }
+
+  return null;
+};
+
+const recipientsOf = (participants: string[], senderId: string) =>
+  participants.filter((uid) => uid !== senderId);
+
+const systemMessage = (senderId: string, senderName: string, text: string): Omit<Message, 'id'> => ({
+  type: 'system',
+  senderId,
+  senderName,
+  text,
+  timestamp: Date.now(),
+});
+
+const postSystemMessage = (
+  chatId: string,
+  participants: string[],
+  senderId: string,
+  senderName: string,
+  text: string
+) =>
+  getChatBackend().messages.send(
+    chatId,
+    systemMessage(senderId, senderName, text),
+    recipientsOf(participants, senderId)
+  );
 
-export const useChat = (chatId: string | null) => {
+// Users whose chat list was already checked for leftovers of interrupted writes this session
+const repairedUsers = new Set<string>();
+
+// Pinned chats first, then the most recent conversation
+const compareChatSummaries = (a: ChatSummary, b: ChatSummary) =>
+  Number(!!b.pinned) - Number(!!a.pinned) || (b.lastMessageTime || 0) - (a.lastMessageTime || 0);
+
+// `unreadCount` is the user's count for the chat, from their chat list
+export const useChat = (chat: Chat | null, unreadCount = 0) => {
   const { user, userProfile } = useAuth();
-  const [messages, setMessages] = useState<Message[]>([]);
+  const { enqueue } = useOutbox();
+  const chatId = chat?.id ?? null;
+  const [messageStore, setMessageStore] = useState<MessageStore>(EMPTY_MESSAGE_STORE);
+  const messagesById = messageStore.byId;
   const [loading, setLoading] = useState(true);
+  // The chat whose first page has arrived; until it matches, state still holds the previous chat
+  const [loadedChatId, setLoadedChatId] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
   const [isTyping, setIsTyping] = useState<Record<string, boolean>>({});
-
-  // Listen to messages
+  const [hiddenIds, setHiddenIds] = useState<Record<string, boolean>>({});
+  // Deletions for everyone still inside the undo window, shown as tombstones until written
+  const [pendingDeleteIds, setPendingDeleteIds] = useState<Record<string, boolean>>({});
+  const pendingDeletesRef = useRef(new Map<string, { timer: ReturnType<typeof setTimeout>; commit: () => void }>());
+  const activeChatRef = useRef(chatId);
+  const lastMarkedReadRef = useRef(0);
+
+  // Listen to the latest page of messages
   useEffect(() => {
+    activeChatRef.current = chatId;
+    setMessageStore(EMPTY_MESSAGE_STORE);
+    setHiddenIds({});
+    setHasMore(false);
+    setLoadingOlder(false);
+
     if (!chatId || !user) {
       setLoading(false);
       return;
     }
 
-    const database = getFirebaseDatabase();
-
-    const messagesRef = query(
-      ref(database, `chats/${chatId}/messages`),
-      orderByChild('timestamp'),
-      limitToLast(100)
-    );
-
-    onValue(messagesRef, (snapshot) => {
-      const data = snapshot.val();
-      if (data) {
-        const messageList = Object.entries(data).map(([id, msg]: [string, any]) => ({
-          id,
-          ...msg,
-        }));
-        setMessages(messageList.filter((m) => !m.isDeleted));
-      } else {
-        setMessages([]);
-      }
-      setLoading(false);
+    setLoading(true);
+
+    const backend = getChatBackend();
+
+    // Changes arrive one message at a time, so an edit or a reaction replaces just that message
+    const unsubscribeMessages = backend.messages.subscribe(chatId, PAGE_SIZE, {
+      onInitial: (page) => {
+        setMessageStore((prev) => upsertMessages(prev, page));
+        setHasMore(page.length >= PAGE_SIZE);
+        setLoadedChatId(chatId);
+        setLoading(false);
+      },
+      onAdded: (message) => setMessageStore((prev) => upsertMessages(prev, [message])),
+      onChanged: (message) => setMessageStore((prev) => upsertMessages(prev, [message])),
+      onRemoved: (messageId) => setMessageStore((prev) => removeMessage(prev, messageId)),
     });
 
     // Listen to typing status
-    const typingRef = ref(database, `chats/${chatId}/typing`);
-    onValue(typingRef, (snapshot) => {
-      const data = snapshot.val();
-      if (data) {
-        // Filter out current user's typing status
-        const typingUsers = Object.entries(data)
-          .filter(([uid, isTyping]: [string, any]) => uid !== user.uid && isTyping)
-          .reduce((acc, [uid, val]) => ({ ...acc, [uid]: val }), {});
-        setIsTyping(typingUsers);
-      } else {
-        setIsTyping({});
-      }
+    const unsubscribeTyping = backend.typing.subscribe(chatId, (data) => {
+      // Filter out current user's typing status
+      const typingUsers = Object.entries(data)
+        .filter(([uid, isTyping]) => uid !== user.uid && isTyping)
+        .reduce((acc, [uid, val]) => ({ ...acc, [uid]: val }), {});
+      setIsTyping(typingUsers);
     });
 
+    const unsubscribeHidden = backend.messages.subscribeHidden(user.uid, chatId, setHiddenIds);
+
     return () => {
-      off(messagesRef);
-      off(typingRef);
+      unsubscribeMessages();
+      unsubscribeTyping();
+      unsubscribeHidden();
     };
   }, [chatId, user]);
 
+  // Leaving the chat ends the undo window early: write any deletion still waiting
+  useEffect(() => {
+    const pendingDeletes = pendingDeletesRef.current;
+    return () => {
+      pendingDeletes.forEach(({ timer, commit }) => {
+        clearTimeout(timer);
+        commit();
+      });
+      pendingDeletes.clear();
+      setPendingDeleteIds({});
+    };
+  }, [chatId]);
+
+  const allMessages = useMemo(() => selectMessages(messageStore), [messageStore]);
+  // Messages deleted for everyone stay as tombstones; ones deleted for me are dropped
+  const messages = useMemo(
+    () =>
+      allMessages
+        .filter((m) => !hiddenIds[m.id])
+        .map((m) => (pendingDeleteIds[m.id] ? toTombstone(m) : m)),
+    [allMessages, hiddenIds, pendingDeleteIds]
+  );
+  const latestMessage = allMessages[allMessages.length - 1];
+
+  // Mark the chat read up to the newest message while it is open and the tab is visible
+  useEffect(() => {
+    lastMarkedReadRef.current = 0;
+  }, [chatId]);
+
+  useEffect(() => {
+    if (!chat || !user || !latestMessage) return;
+
+    const markRead = () => {
+      if (document.visibilityState !== 'visible') return;
+
+      const lastReadAt = Math.max(chat.lastReadAt?.[user.uid] || 0, lastMarkedReadRef.current);
+      if (latestMessage.timestamp <= lastReadAt && !unreadCount) return;
+
+      const readUpTo = Math.max(latestMessage.timestamp, lastReadAt);
+      const previous = lastMarkedReadRef.current;
+      lastMarkedReadRef.current = readUpTo;
+      getChatBackend()
+        .chats.markRead(chat.id, user.uid, readUpTo)
+        .catch((error) => {
+          // Let the next visibility change try again
+          if (lastMarkedReadRef.current === readUpTo) lastMarkedReadRef.current = previous;
+          console.error('Marking chat read failed:', error);
+        });
+    };
+
+    markRead();
+    document.addEventListener('visibilitychange', markRead);
+    return () => document.removeEventListener('visibilitychange', markRead);
+  }, [chat, user, latestMessage, unreadCount]);
+
+  // Fetch the page before the oldest loaded message (cursor pagination on timestamp)
+  const loadOlder = useCallback(async () => {
+    const oldest = allMessages[0];
+    if (!chatId || !user || !hasMore || loadingOlder || !oldest) return;
+
+    setLoadingOlder(true);
+    try {
+      const page = await getChatBackend().messages.fetchBefore(chatId, oldest, PAGE_SIZE);
+      if (activeChatRef.current !== chatId) return;
+
+      setMessageStore((prev) => upsertMessages(prev, page, { keepExisting: true }));
+      setHasMore(page.length >= PAGE_SIZE);
+    } finally {
+      if (activeChatRef.current === chatId) {
+        setLoadingOlder(false);
+      }
+    }
+  }, [chatId, user, hasMore, loadingOlder, allMessages]);
+
+  // Pages back through history until `target` is loaded; resolves false if it no longer exists
+  const loadUntil = useCallback(
+    async (target: MessageCursor) => {
+      if (messagesById[target.id]) return true;
+
+      let oldest: MessageCursor | undefined = allMessages[0];
+      if (!chatId || !user || !oldest || compareMessages(target, oldest) > 0) return false;
+
+      setLoadingOlder(true);
+      try {
+        const fetched: Message[] = [];
+        let more = true;
+        while (more && oldest && compareMessages(target, oldest) < 0) {
+          const page = await getChatBackend().messages.fetchBefore(chatId, oldest, PAGE_SIZE);
+          if (activeChatRef.current !== chatId) return false;
+
+          fetched.push(...page);
+          more = page.length >= PAGE_SIZE;
+          oldest = page[0];
+        }
+
+        setMessageStore((prev) => upsertMessages(prev, fetched, { keepExisting: true }));
+        setHasMore(more);
+        return fetched.some((m) => m.id === target.id);
+      } finally {
+        if (activeChatRef.current === chatId) {
+          setLoadingOlder(false);
+        }
+      }
+    },
+    [chatId, user, messagesById, allMessages]
+  );
+
   const setTypingStatus = useCallback(
     async (typing: boolean) => {
       if (!chatId || !user) return;
 
-      const database = getFirebaseDatabase();
-      const typingRef = ref(database, `chats/${chatId}/typing/${user.uid}`);
-      await set(typingRef, typing);
+      await getChatBackend().typing.set(chatId, user.uid, typing);
     },
     [chatId, user]
   );
 
   const sendMessage = useCallback(
-    async (text: string) => {
-      if (!chatId || !user || !userProfile || !text.trim()) return;
+    async (text: string, options: SendMessageOptions = {}): Promise<SendMessageResult | undefined> => {
+      const pendingAttachments = options.attachments || [];
+      if (!chat || !user || !userProfile || (!text.trim() && !pendingAttachments.length)) return;
+
+      const content = screenedContent(text, pendingAttachments);
+
+      // Analyze message for toxicity: severe content is refused, milder content needs confirming
+      const screened = await screenOutgoing(content, userProfile.safetyMode, options);
+      if (screened) return screened;
+
+      // Analyze emotion; the primary label is kept alongside the full ranking
+      const emotionAnalysis = await analyzeEmotions(content);
+      const emotion = emotionAnalysis.primary;
+
+      // Queued rather than written, so it shows at once and outlives a dropped connection. The
+      // files upload from the outbox, only after the text has passed the checks.
+      await enqueue({
+        id: getChatBackend().messages.createId(chatId),
+        chatId,
+        recipientIds: recipientsOf(chat.participants, user.uid),
+        message: {
+          senderId: user.uid,
+          senderName: userProfile.displayName || 'User',
+          text: text.trim(),
+          timestamp: Date.now(),
+          emotion,
+          emotionAnalysis,
+          isToxic: false,
+          ...(options.replyTo ? { replyTo: toReply(options.replyTo) } : {}),
+        },
+        attachments: pendingAttachments,
+      });
 
-      const database = getFirebaseDatabase();
+      // Clear typing indicator; not awaited, as offline the write waits for the connection
+      setTypingStatus(false);
 
-      // Analyze message for toxicity
-      const toxicityResult = await detectToxicity(text);
+      // Crisis signals never hold a message back; the sender is offered support instead
+      return { status: 'sent', emotion, crisis: detectCrisisSignal(content) };
+    },
+    [chatId, chat, user, userProfile, enqueue, setTypingStatus]
+  );
 
-      if (toxicityResult.isToxic) {
-        throw new Error('This message contains harmful content. Please rephrase it kindly.');
+  // Edited text goes through the same checks as a new message
+  const editMessage = useCallback(
+    async (
+      messageId: string,
+      text: string,
+      options: SendMessageOptions = {}
+    ): Promise<SendMessageResult | undefined> => {
+      if (!chat || !user || !userProfile || !text.trim()) return;
+
+      const original = messagesById[messageId];
+      if (!original || original.senderId !== user.uid || isEventMessage(original) || original.isDeleted) {
+        throw new Error('You can only edit your own messages.');
       }
+      if (original.text === text.trim()) return;
 
-      // Analyze emotion
-      const emotion = await analyzeEmotion(text);
+      const screened = await screenOutgoing(text, userProfile.safetyMode, options);
+      if (screened) return screened;
 
-      const messagesRef = ref(database, `chats/${chatId}/messages`);
-      const newMessageRef = push(messagesRef);
-
-      const message: Omit<Message, 'id'> = {
-        senderId: user.uid,
-        senderName: userProfile.displayName || 'User',
+      const emotionAnalysis = await analyzeEmotions(text);
+      const changes: MessageEdit = {
         text: text.trim(),
-        timestamp: Date.now(),
-        emotion,
+        editedAt: Date.now(),
+        emotion: emotionAnalysis.primary,
+        emotionAnalysis,
         isToxic: false,
       };
+      const previous: MessageRevision = {
+        text: original.text,
+        timestamp: original.editedAt || original.timestamp,
+        emotion: original.emotion,
+      };
+
+      await getChatBackend().messages.edit(
+        chatId,
+        messageId,
+        changes,
+        previous,
+        chat.lastMessageTime === original.timestamp
+      );
+
+      // Older pages are fetched once, so apply the edit locally unless the live listener already has
+      setMessageStore((prev) =>
+        prev.byId[messageId]?.editedAt === changes.editedAt
+          ? prev
+          : updateMessage(prev, messageId, (current) => ({
+              ...current,
+              ...changes,
+              edits: { ...current.edits, [`local-${changes.editedAt}`]: previous },
+            }))
+      );
 
-      await set(newMessageRef, message);
+      return { status: 'sent', emotion: changes.emotion!, crisis: detectCrisisSignal(text) };
+    },
+    [chatId, chat, user, userProfile, messagesById]
+  );
 
-      // Update chat last message
-      const chatLastMsgRef = ref(database, `chats/${chatId}/lastMessage`);
-      const chatLastTimeRef = ref(database, `chats/${chatId}/lastMessageTime`);
-      await set(chatLastMsgRef, text.trim().substring(0, 50));
-      await set(chatLastTimeRef, Date.now());
+  const toggleReaction = useCallback(
+    async (messageId: string, emoji: string) => {
+      const message = messagesById[messageId];
+      if (!chatId || !user || !message || message.isDeleted || isEventMessage(message)) return;
 
-      // Clear typing indicator
-      await setTypingStatus(false);
+      const reacted = !hasReacted(message, emoji, user.uid);
+      await getChatBackend().messages.setReaction(chatId, messageId, emoji, user.uid, reacted);
 
-      return emotion;
+      // Keep older, fetched-once pages in step with the write
+      setMessageStore((prev) => {
+        const current = prev.byId[messageId];
+        if (!current || hasReacted(current, emoji, user.uid) === reacted) return prev;
+
+        const { [user.uid]: _previous, ...others } = current.reactions?.[emoji] || {};
+        const users = reacted ? { ...others, [user.uid]: true } : others;
+        return upsertMessages(prev, [{ ...current, reactions: { ...current.reactions, [emoji]: users } }]);
+      });
     },
-    [chatId, user, userProfile, setTypingStatus]
+    [chatId, user, messagesById]
   );
 
-  const deleteMessage = useCallback(
+  // Hides the message for this user only; resolves to an undo function
+  const deleteForMe = useCallback(
     async (messageId: string) => {
-      if (!chatId || !user) return;
+      if (!chatId || !user) return () => undefined;
 
-      const database = getFirebaseDatabase();
-      const messageDeletedRef = ref(database, `chats/${chatId}/messages/${messageId}/isDeleted`);
-      const messageDeletedAtRef = ref(database, `chats/${chatId}/messages/${messageId}/deletedAt`);
-      await set(messageDeletedRef, true);
-      await set(messageDeletedAtRef, Date.now());
+      const backend = getChatBackend();
+      await backend.messages.setHidden(user.uid, chatId, messageId, true);
+      return () => backend.messages.setHidden(user.uid, chatId, messageId, false);
     },
     [chatId, user]
   );
 
+  // Turns the message into a tombstone for every participant once the undo window has passed.
+  // Returns an undo function that cancels the deletion.
+  const deleteForEveryone = useCallback(
+    (messageId: string) => {
+      const message = messagesById[messageId];
+      if (!chat || !chatId || !user || !message) return () => undefined;
+
+      if (!canDeleteForEveryone(message, user.uid)) {
+        throw new Error('Messages can only be deleted for everyone within an hour of sending.');
+      }
+
+      const pendingDeletes = pendingDeletesRef.current;
+      const clearPending = () => {
+        pendingDeletes.delete(messageId);
+        setPendingDeleteIds(({ [messageId]: _undone, ...rest }) => rest);
+      };
+      const commit = () => {
+        const backend = getChatBackend();
+        backend.messages
+          .markDeleted(chatId, messageId, chat.lastMessageTime === message.timestamp)
+          // The files go too once nothing points at them any more
+          .then(() => Promise.all((message.attachments || []).map((attachment) => backend.storage.remove(attachment.path))))
+          .catch((error) => console.error('Failed to delete message:', error));
+      };
+
+      const timer = setTimeout(() => {
+        clearPending();
+        commit();
+      }, UNDO_WINDOW_MS);
+      pendingDeletes.set(messageId, { timer, commit });
+      setPendingDeleteIds((prev) => ({ ...prev, [messageId]: true }));
+
+      return () => {
+        clearTimeout(timer);
+        clearPending();
+      };
+    },
+    [chat, chatId, user, messagesById]
+  );
+
   return {
     messages,
-    loading,
+    loading: loading || (!!chatId && loadedChatId !== chatId),
+    hasMore,
+    loadingOlder,
+    loadOlder,
+    loadUntil,
     isTyping,
     sendMessage,
-    deleteMessage,
+    editMessage,
+    toggleReaction,
+    deleteForMe,
+    deleteForEveryone,
     setTypingStatus,
   };
 };
 
 export const useChats = () => {
-  const { user } = useAuth();
-  const [chats, setChats] = useState<Chat[]>([]);
+  const { user, userProfile } = useAuth();
+  const [chats, setChats] = useState<ChatSummary[]>([]);
   const [loading, setLoading] = useState(true);
 
+  // One live read of the user's chat list, whose entries carry everything the list shows
   useEffect(() => {
     if (!user) {
       setLoading(false);
       return;
     }
 
-    const database = getFirebaseDatabase();
-    const userChatsRef = ref(database, `userChats/${user.uid}`);
-
-    onValue(userChatsRef, async (snapshot) => {
-      const data = snapshot.val();
-      if (data) {
-        const chatIds = Object.keys(data);
-        const chatPromises = chatIds.map(async (chatId) => {
-          const chatRef = ref(database, `chats/${chatId}`);
-          return new Promise<Chat | null>((resolve) => {
-            onValue(
-              chatRef,
-              (chatSnapshot) => {
-                if (chatSnapshot.exists()) {
-                  resolve({ id: chatId, ...chatSnapshot.val() } as Chat);
-                } else {
-                  resolve(null);
-                }
-              },
-              { onlyOnce: true }
-            );
-          });
-        });
-
-        const chatList = (await Promise.all(chatPromises)).filter(Boolean) as Chat[];
-        setChats(chatList.sort((a, b) => (b.lastMessageTime || 0) - (a.lastMessageTime || 0)));
-      } else {
-        setChats([]);
-      }
+    const unsubscribe = getChatBackend().chats.subscribeUserChats(user.uid, (chatList) => {
+      setChats(chatList.sort(compareChatSummaries));
       setLoading(false);
     });
 
-    return () => off(userChatsRef);
+    return unsubscribe;
+  }, [user]);
+
+  useEffect(() => {
+    if (!user || repairedUsers.has(user.uid)) return;
+
+    repairedUsers.add(user.uid);
+    getChatBackend()
+      .chats.repair(user.uid)
+      .then((report) => {
+        if (report.removedEntries || report.addedEntries || report.rebuiltSummaries || report.refreshedPreviews) {
+          console.warn('Repaired chat list:', report);
+        }
+      })
+      .catch((error) => {
+        repairedUsers.delete(user.uid);
+        console.error('Chat list repair failed:', error);
+      });
   }, [user]);
 
+  // Acknowledge delivery of the newest message in every chat that reached this device
+  useEffect(() => {
+    if (!user) return;
+
+    chats.forEach((chat) => {
+      const latest = chat.lastMessageTime;
+      if (latest && latest > (chat.deliveredAt || 0)) {
+        getChatBackend()
+          .chats.markDelivered(chat.id, user.uid, latest)
+          .catch((error) => console.error('Marking chat delivered failed:', error));
+      }
+    });
+  }, [chats, user]);
+
   const createChat = useCallback(
-    async (participantId: string, participantName: string) => {
+    async (participantId: string) => {
       if (!user) return null;
 
-      const database = getFirebaseDatabase();
+      if (participantId === user.uid) {
+        throw new Error("You can't start a conversation with yourself.");
+      }
 
       // Check if chat already exists
-      const existingChat = chats.find(
-        (chat) =>
-          !chat.isGroup &&
-          chat.participants.includes(participantId) &&
-          chat.participants.includes(user.uid)
-      );
+      const existingChat = chats.find((chat) => !chat.isGroup && participantId in chat.participantNames);
 
       if (existingChat) return existingChat.id;
 
-      // Create new chat
-      const chatsRef = ref(database, 'chats');
-      const newChatRef = push(chatsRef);
-      const chatId = newChatRef.key!;
+      // Only chat with accounts that actually exist
+      const participant = await getChatBackend().directory.get(participantId);
+      if (!participant) {
+        throw new Error("We couldn't find that account.");
+      }
 
+      // Create new chat
       const chat: Omit<Chat, 'id'> = {
         participants: [user.uid, participantId],
         participantNames: {
           [user.uid]: user.displayName || 'User',
-          [participantId]: participantName,
+          [participantId]: participant.displayName,
         },
         isGroup: false,
+        createdBy: user.uid,
         createdAt: Date.now(),
       };
 
-      await set(newChatRef, chat);
-
-      // Add to both users' chat lists
-      await set(ref(database, `userChats/${user.uid}/${chatId}`), true);
-      await set(ref(database, `userChats/${participantId}/${chatId}`), true);
-
-      return chatId;
+      // Also adds the chat to both users' chat lists
+      return getChatBackend().chats.create(chat);
     },
     [user, chats]
   );
 
   const createGroupChat = useCallback(
-    async (participantIds: string[], groupName: string, participantNames: Record<string, string>) => {
+    async (members: DirectoryEntry[], groupName: string) => {
       if (!user) return null;
 
-      const database = getFirebaseDatabase();
-      const chatsRef = ref(database, 'chats');
-      const newChatRef = push(chatsRef);
-      const chatId = newChatRef.key!;
-
-      const allParticipants = [user.uid, ...participantIds];
-      const allNames = {
-        [user.uid]: user.displayName || 'User',
-        ...participantNames,
-      };
+      const entries = await Promise.all(members.map((member) => getChatBackend().directory.get(member.uid)));
+      if (entries.some((entry) => !entry)) {
+        throw new Error("We couldn't find one or more of those accounts.");
+      }
 
+      const creatorName = userProfile?.displayName || user.displayName || 'User';
       const chat: Omit<Chat, 'id'> = {
-        participants: allParticipants,
-        participantNames: allNames,
+        participants: [user.uid, ...entries.map((entry) => entry!.uid)],
+        participantNames: {
+          [user.uid]: creatorName,
+          ...Object.fromEntries(entries.map((entry) => [entry!.uid, entry!.displayName])),
+        },
         isGroup: true,
-        groupName,
+        groupName: groupName.trim(),
+        admins: [user.uid],
+        createdBy: user.uid,
         createdAt: Date.now(),
       };
 
-      await set(newChatRef, chat);
+      // Also adds the chat to all users' chat lists, together with the announcement
+      return getChatBackend().chats.create(
+        chat,
+        systemMessage(user.uid, creatorName, `${creatorName} created "${chat.groupName}"`)
+      );
+    },
+    [user, userProfile]
+  );
 
-      // Add to all users' chat lists
-      for (const participantId of allParticipants) {
-        await set(ref(database, `userChats/${participantId}/${chatId}`), true);
-      }
+  // Sent only when the user asks for it from the crisis resources panel
+  const notifyTrustedContact = useCallback(async () => {
+    const trustedContact = userProfile?.trustedContact;
+    if (!user || !trustedContact) return;
+
+    const chatId = await createChat(trustedContact.uid);
+    if (!chatId) return;
 
-      return chatId;
+    const myName = userProfile.displayName || user.displayName || 'User';
+    await getChatBackend().messages.send(
+      chatId,
+      {
+        senderId: user.uid,
+        senderName: myName,
+        text: `${myName} is going through a hard time right now and chose you as their trusted contact. Please check in with them when you can.`,
+        timestamp: Date.now(),
+        emotion: 'neutral',
+        isToxic: false,
+      },
+      [trustedContact.uid]
+    );
+  }, [user, userProfile, createChat]);
+
+  const setPreferences = useCallback(
+    async (chatId: string, preferences: ChatPreferences) => {
+      if (!user) return;
+      await getChatBackend().chats.setPreferences(chatId, user.uid, preferences);
     },
     [user]
   );
@@ -300,5 +664,181 @@ export const useChats = () => {
     loading,
     createChat,
     createGroupChat,
+    notifyTrustedContact,
+    setPreferences,
+  };
+};
+
+// The full record of one chat, kept live; null while it loads and once it is gone
+export const useChatRecord = (chatId: string | null) => {
+  const [chat, setChat] = useState<Chat | null>(null);
+
+  useEffect(() => {
+    if (!chatId) return;
+
+    const unsubscribe = getChatBackend().chats.subscribe(chatId, setChat);
+    return () => {
+      unsubscribe();
+      setChat(null);
+    };
+  }, [chatId]);
+
+  // Until the new chat's record arrives, state may still hold the previous one
+  return chat?.id === chatId ? chat : null;
+};
+
+// Membership management for a group chat. Every change is announced with a system message.
+export const useGroupChat = (chat: Chat | null) => {
+  const { user, userProfile } = useAuth();
+  const myName = userProfile?.displayName || user?.displayName || 'User';
+  const isAdmin = chat ? isChatAdmin(chat, user?.uid) : false;
+
+  const requireAdmin = useCallback(() => {
+    if (!chat || !user || !chat.isGroup) {
+      throw new Error('This is not a group chat.');
+    }
+    if (!isChatAdmin(chat, user.uid)) {
+      throw new Error('Only group admins can do that.');
+    }
+    return { chat, user };
+  }, [chat, user]);
+
+  const addMembers = useCallback(
+    async (members: DirectoryEntry[]) => {
+      const { chat, user } = requireAdmin();
+
+      const newMembers = members.filter((member) => !chat.participants.includes(member.uid));
+      if (!newMembers.length) return;
+
+      const entries = await Promise.all(newMembers.map((member) => getChatBackend().directory.get(member.uid)));
+      if (entries.some((entry) => !entry)) {
+        throw new Error("We couldn't find one or more of those accounts.");
+      }
+
+      const membership: ChatMembership = {
+        participants: [...chat.participants, ...entries.map((entry) => entry!.uid)],
+        participantNames: {
+          ...chat.participantNames,
+          ...Object.fromEntries(entries.map((entry) => [entry!.uid, entry!.displayName])),
+        },
+        admins: chat.admins,
+      };
+
+      await getChatBackend().chats.updateMembership(chat.id, membership, {
+        added: entries.map((entry) => entry!.uid),
+        removed: [],
+      });
+      await postSystemMessage(
+        chat.id,
+        membership.participants,
+        user.uid,
+        myName,
+        `${myName} added ${entries.map((entry) => entry!.displayName).join(', ')}`
+      );
+    },
+    [requireAdmin, myName]
+  );
+
+  const removeMember = useCallback(
+    async (memberId: string) => {
+      const { chat, user } = requireAdmin();
+
+      if (memberId === user.uid) {
+        throw new Error('Use "Leave group" to remove yourself.');
+      }
+      if (!chat.participants.includes(memberId)) return;
+
+      const memberName = chat.participantNames[memberId] || 'a member';
+      const { [memberId]: _removed, ...participantNames } = chat.participantNames;
+      const membership: ChatMembership = {
+        participants: chat.participants.filter((uid) => uid !== memberId),
+        participantNames,
+        admins: chat.admins?.filter((uid) => uid !== memberId),
+      };
+
+      // Announce first so the removed member can still see why they were removed
+      await postSystemMessage(chat.id, chat.participants, user.uid, myName, `${myName} removed ${memberName}`);
+      await getChatBackend().chats.updateMembership(chat.id, membership, { added: [], removed: [memberId] });
+    },
+    [requireAdmin, myName]
+  );
+
+  const setAdmin = useCallback(
+    async (memberId: string, admin: boolean) => {
+      const { chat, user } = requireAdmin();
+
+      const currentAdmins = chat.admins?.length ? chat.admins : chat.participants;
+      const admins = admin
+        ? Array.from(new Set([...currentAdmins, memberId]))
+        : currentAdmins.filter((uid) => uid !== memberId);
+
+      if (!admins.length) {
+        throw new Error('A group needs at least one admin.');
+      }
+
+      await getChatBackend().chats.updateMembership(
+        chat.id,
+        { participants: chat.participants, participantNames: chat.participantNames, admins },
+        { added: [], removed: [] }
+      );
+
+      const memberName = chat.participantNames[memberId] || 'a member';
+      await postSystemMessage(
+        chat.id,
+        chat.participants,
+        user.uid,
+        myName,
+        admin ? `${myName} made ${memberName} an admin` : `${myName} removed ${memberName} as admin`
+      );
+    },
+    [requireAdmin, myName]
+  );
+
+  const renameGroup = useCallback(
+    async (groupName: string) => {
+      const { chat, user } = requireAdmin();
+
+      const trimmed = groupName.trim();
+      if (!trimmed || trimmed === chat.groupName) return;
+
+      await getChatBackend().chats.rename(chat.id, trimmed);
+      await postSystemMessage(
+        chat.id,
+        chat.participants,
+        user.uid,
+        myName,
+        `${myName} renamed the group to "${trimmed}"`
+      );
+    },
+    [requireAdmin, myName]
+  );
+
+  const leaveGroup = useCallback(async () => {
+    if (!chat || !user || !chat.isGroup) return;
+
+    const participants = chat.participants.filter((uid) => uid !== user.uid);
+    const { [user.uid]: _me, ...participantNames } = chat.participantNames;
+    let admins = chat.admins?.filter((uid) => uid !== user.uid);
+
+    // Hand the group over rather than leave it without an admin
+    if (chat.admins?.length && !admins?.length && participants.length) {
+      admins = [participants[0]];
+    }
+
+    await postSystemMessage(chat.id, chat.participants, user.uid, myName, `${myName} left the group`);
+    await getChatBackend().chats.updateMembership(
+      chat.id,
+      { participants, participantNames, admins },
+      { added: [], removed: [user.uid] }
+    );
+  }, [chat, user, myName]);
+
+  return {
+    isAdmin,
+    addMembers,
+    removeMember,
+    setAdmin,
+    renameGroup,
+    leaveGroup,
   };
 };
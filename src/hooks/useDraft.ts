@@ -0,0 +1,67 @@
+import { useState, useEffect, useCallback } from 'react';
+import { preferencesStore } from '@/lib/preferences';
+import { useAuth } from '@/contexts/AuthContext';
+
+// Typing pauses this long before the draft is written to IndexedDB
+const DRAFT_SAVE_DELAY_MS = 400;
+
+// Latest text per draft key, so switching back to a chat restores it without waiting on IndexedDB
+const draftCache = new Map<string, string>();
+
+const draftKey = (uid: string, chatId: string) => `draft/${uid}/${chatId}`;
+
+const writeDraft = (key: string, text: string) =>
+  (text.trim() ? preferencesStore.set(key, text) : preferencesStore.delete(key)).catch((error) => {
+    console.error('Error saving draft:', error);
+  });
+
+// Composer text that survives switching chats and reloads. Pass persist=false while the
+// composer holds something else (e.g. a message being edited) so the draft isn't overwritten.
+export const useDraft = (chatId: string | null, persist = true) => {
+  const { user } = useAuth();
+  const key = user && chatId ? draftKey(user.uid, chatId) : null;
+  // Text is tagged with its key so a chat switch never saves one chat's text under another
+  const [draft, setDraftState] = useState({ key, text: key ? draftCache.get(key) ?? '' : '' });
+
+  useEffect(() => {
+    setDraftState({ key, text: key ? draftCache.get(key) ?? '' : '' });
+    if (!key || draftCache.has(key)) return;
+
+    let cancelled = false;
+    preferencesStore
+      .get<string>(key)
+      .then((saved) => {
+        if (cancelled || !saved) return;
+        draftCache.set(key, saved);
+        // Anything typed while the draft loaded wins
+        setDraftState((current) => (current.key === key && !current.text ? { key, text: saved } : current));
+      })
+      .catch((error) => {
+        // The composer just starts empty
+        console.error('Error loading draft:', error);
+      });
+
+    return () => {
+      cancelled = true;
+      // Flush on chat switch and unmount; the debounced write below may not have run yet
+      if (draftCache.has(key)) writeDraft(key, draftCache.get(key) as string);
+    };
+  }, [key]);
+
+  useEffect(() => {
+    if (!key || !persist || draft.key !== key) return;
+
+    draftCache.set(key, draft.text);
+    const timeout = setTimeout(() => writeDraft(key, draft.text), DRAFT_SAVE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [key, draft, persist]);
+
+  const setDraft = useCallback((text: string) => setDraftState({ key, text }), [key]);
+
+  // Puts the saved draft back into the composer, e.g. after cancelling an edit
+  const restoreDraft = useCallback(() => {
+    setDraftState({ key, text: key ? draftCache.get(key) ?? '' : '' });
+  }, [key]);
+
+  return { draft: draft.key === key ? draft.text : '', setDraft, restoreDraft };
+};
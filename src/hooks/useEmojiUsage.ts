@@ -0,0 +1,71 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { preferencesStore } from '@/lib/preferences';
+
+const USAGE_KEY = 'emoji-usage';
+// Emoji shown in each of the picker's Recent and Frequently used rows
+const USAGE_ROW_SIZE = 16;
+// Older entries are dropped so the record doesn't grow forever
+const MAX_TRACKED = 64;
+
+interface EmojiUsage {
+  count: number;
+  lastUsed: number;
+}
+
+type UsageRecord = Record<string, EmojiUsage>;
+
+// Recently and frequently picked emoji on this device
+export const useEmojiUsage = () => {
+  const [usage, setUsage] = useState<UsageRecord>({});
+
+  useEffect(() => {
+    let cancelled = false;
+    preferencesStore
+      .get<UsageRecord>(USAGE_KEY)
+      .then((saved) => {
+        if (!cancelled && saved) setUsage((current) => ({ ...saved, ...current }));
+      })
+      .catch((error) => {
+        // Recent and frequent rows start empty
+        console.error('Error loading emoji usage:', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const recordUse = useCallback((emoji: string) => {
+    setUsage((current) => {
+      const next: UsageRecord = {
+        ...current,
+        [emoji]: { count: (current[emoji]?.count || 0) + 1, lastUsed: Date.now() },
+      };
+      const trimmed = Object.fromEntries(
+        Object.entries(next)
+          .sort(([, a], [, b]) => b.lastUsed - a.lastUsed)
+          .slice(0, MAX_TRACKED)
+      );
+      preferencesStore.set(USAGE_KEY, trimmed).catch((error) => {
+        console.error('Error saving emoji usage:', error);
+      });
+      return trimmed;
+    });
+  }, []);
+
+  const { recent, frequent } = useMemo(() => {
+    const entries = Object.entries(usage);
+    return {
+      recent: [...entries]
+        .sort(([, a], [, b]) => b.lastUsed - a.lastUsed)
+        .slice(0, USAGE_ROW_SIZE)
+        .map(([emoji]) => emoji),
+      frequent: entries
+        .filter(([, entry]) => entry.count > 1)
+        .sort(([, a], [, b]) => b.count - a.count || b.lastUsed - a.lastUsed)
+        .slice(0, USAGE_ROW_SIZE)
+        .map(([emoji]) => emoji),
+    };
+  }, [usage]);
+
+  return { recent, frequent, recordUse };
+};
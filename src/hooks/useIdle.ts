@@ -0,0 +1,29 @@
+import { useState, useEffect } from 'react';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'] as const;
+
+// True once the page has had no input for `timeoutMs`; hidden tabs get no input and so go
+// idle on their own
+export const useIdle = (timeoutMs: number) => {
+  const [idle, setIdle] = useState(false);
+
+  useEffect(() => {
+    let timeout: ReturnType<typeof setTimeout>;
+    const markActive = () => {
+      clearTimeout(timeout);
+      setIdle(false);
+      timeout = setTimeout(() => setIdle(true), timeoutMs);
+    };
+
+    markActive();
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, markActive, { passive: true }));
+    document.addEventListener('visibilitychange', markActive);
+    return () => {
+      clearTimeout(timeout);
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, markActive));
+      document.removeEventListener('visibilitychange', markActive);
+    };
+  }, [timeoutMs]);
+
+  return idle;
+};
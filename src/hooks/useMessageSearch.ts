@@ -0,0 +1,84 @@
+import { useState, useEffect, useRef } from 'react';
+import type { Message } from '@/lib/backend';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  fetchSearchableHistory,
+  hasActiveFilters,
+  searchMessages,
+  type MessageSearchFilters,
+  type MessageSearchHit,
+} from '@/lib/messageSearch';
+
+const SEARCH_DEBOUNCE = 250;
+
+// Debounced search over the history of the given chats, newest hits first. History is fetched
+// once per chat until the search is closed (no chat ids); `liveMessages`, the open chat's
+// loaded messages, take precedence so edits and new messages are found too.
+export const useMessageSearch = (
+  chatIds: string[],
+  query: string,
+  filters: MessageSearchFilters,
+  liveMessages?: Message[]
+) => {
+  const { user } = useAuth();
+  const [results, setResults] = useState<MessageSearchHit[]>([]);
+  const [searching, setSearching] = useState(false);
+  const historyRef = useRef(new Map<string, Promise<Message[]>>());
+  const chatKey = chatIds.join(',');
+  const filterKey = JSON.stringify(filters);
+
+  useEffect(() => {
+    const ids = chatKey ? chatKey.split(',') : [];
+    const activeFilters: MessageSearchFilters = JSON.parse(filterKey);
+    // Closing the search drops the fetched history so the next one sees new messages
+    if (!ids.length) historyRef.current.clear();
+    if (!user || !ids.length || (!query.trim() && !hasActiveFilters(activeFilters))) {
+      setResults([]);
+      setSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    setSearching(true);
+
+    const loadHistory = (chatId: string) => {
+      let history = historyRef.current.get(chatId);
+      if (!history) {
+        history = fetchSearchableHistory(chatId, user.uid);
+        historyRef.current.set(chatId, history);
+        // A failed fetch is retried by the next search
+        history.catch(() => historyRef.current.delete(chatId));
+      }
+      return history;
+    };
+
+    const timeout = setTimeout(async () => {
+      try {
+        const hits = await Promise.all(
+          ids.map(async (chatId) => {
+            const byId = new Map((await loadHistory(chatId)).map((message) => [message.id, message]));
+            if (liveMessages && ids.length === 1) {
+              liveMessages.forEach((message) => byId.set(message.id, message));
+            }
+            return searchMessages(chatId, Array.from(byId.values()), query, activeFilters);
+          })
+        );
+        if (!cancelled) {
+          setResults(hits.flat().sort((a, b) => b.message.timestamp - a.message.timestamp));
+        }
+      } catch (error) {
+        console.error('Message search failed:', error);
+        if (!cancelled) setResults([]);
+      } finally {
+        if (!cancelled) setSearching(false);
+      }
+    }, SEARCH_DEBOUNCE);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [chatKey, query, filterKey, liveMessages, user]);
+
+  return { results, searching };
+};
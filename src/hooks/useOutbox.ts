@@ -0,0 +1,25 @@
+import { createContext, useContext } from 'react';
+import type { NewOutboxEntry, OutboxEntry } from '@/lib/outbox';
+
+export interface OutboxContextType {
+  // The signed-in user's unsent messages, oldest first
+  entries: OutboxEntry[];
+  // Upload progress of the entry being delivered, by attachment id (0..1)
+  uploadProgress: Record<string, number>;
+  online: boolean;
+  enqueue: (entry: NewOutboxEntry) => Promise<void>;
+  // Only entries that aren't being delivered right now can be cancelled; false when it wasn't
+  cancel: (id: string) => boolean;
+  resend: (id: string) => void;
+}
+
+// Provided by OutboxProvider (contexts/OutboxContext)
+export const OutboxContext = createContext<OutboxContextType | undefined>(undefined);
+
+export const useOutbox = () => {
+  const context = useContext(OutboxContext);
+  if (!context) {
+    throw new Error('useOutbox must be used within an OutboxProvider');
+  }
+  return context;
+};
@@ -0,0 +1,63 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  MAX_ATTACHMENTS,
+  prepareAttachment,
+  releaseAttachment,
+  type PreparedAttachment,
+} from '@/lib/attachments';
+
+// Files waiting in the composer until the message is sent
+export const usePendingAttachments = () => {
+  const [attachments, setAttachments] = useState<PreparedAttachment[]>([]);
+  const [preparing, setPreparing] = useState(false);
+  const attachmentsRef = useRef(attachments);
+  attachmentsRef.current = attachments;
+
+  useEffect(() => () => attachmentsRef.current.forEach(releaseAttachment), []);
+
+  // Resolves to the reasons any of the files were refused
+  const addFiles = useCallback(async (files: File[]): Promise<string[]> => {
+    const room = MAX_ATTACHMENTS - attachmentsRef.current.length;
+    const accepted = files.slice(0, Math.max(room, 0));
+    const errors =
+      files.length > accepted.length ? [`You can attach up to ${MAX_ATTACHMENTS} files to a message.`] : [];
+
+    setPreparing(true);
+    try {
+      const results = await Promise.allSettled(accepted.map(prepareAttachment));
+      const prepared = results.flatMap((result) => (result.status === 'fulfilled' ? [result.value] : []));
+      results.forEach((result) => {
+        if (result.status === 'rejected') errors.push(result.reason?.message || 'The file could not be attached.');
+      });
+
+      setAttachments((current) => [...current, ...prepared]);
+      return errors;
+    } finally {
+      setPreparing(false);
+    }
+  }, []);
+
+  // Attachments made in the app rather than picked from disk, e.g. a voice message
+  const addPrepared = useCallback((attachment: PreparedAttachment) => {
+    setAttachments((current) => [...current, attachment]);
+  }, []);
+
+  const remove = useCallback((id: string) => {
+    attachmentsRef.current.filter((attachment) => attachment.id === id).forEach(releaseAttachment);
+    setAttachments((current) => current.filter((attachment) => attachment.id !== id));
+  }, []);
+
+  const clear = useCallback(() => {
+    attachmentsRef.current.forEach(releaseAttachment);
+    attachmentsRef.current = [];
+    setAttachments([]);
+  }, []);
+
+  // Empties the composer once the outbox has taken the files, leaving their previews to it
+  const detach = useCallback(() => {
+    attachmentsRef.current = [];
+    setAttachments([]);
+  }, []);
+
+  return { attachments, preparing, addFiles, addPrepared, remove, clear, detach };
+};
@@ -0,0 +1,15 @@
+import { useState, useEffect } from 'react';
+import { getChatBackend, type UserPresence } from '@/lib/backend';
+
+// Live presence of another user; null until known or without a uid
+export const usePresence = (uid: string | null | undefined) => {
+  const [presence, setPresence] = useState<UserPresence | null>(null);
+
+  useEffect(() => {
+    setPresence(null);
+    if (!uid) return;
+    return getChatBackend().presence.subscribe(uid, setPresence);
+  }, [uid]);
+
+  return presence;
+};
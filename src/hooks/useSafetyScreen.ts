@@ -0,0 +1,59 @@
+import { useState, useEffect, useCallback } from 'react';
+import { isEventMessage, type Message } from '@/lib/backend';
+import { detectToxicity } from '@/lib/ai';
+import { hasNegativeEmotion, screenedContent } from '@/lib/safety';
+import { useAuth } from '@/contexts/AuthContext';
+
+// Screens incoming messages for users with Safety Mode on. Messages the strict thresholds
+// would warn about or block, or that carry a negative emotion, stay covered until revealed.
+export const useSafetyScreen = (messages: Message[]) => {
+  const { user, userProfile } = useAuth();
+  const safetyMode = !!userProfile?.safetyMode;
+  const [flaggedIds, setFlaggedIds] = useState<Record<string, boolean>>({});
+  const [revealedIds, setRevealedIds] = useState<Record<string, boolean>>({});
+
+  useEffect(() => {
+    if (!safetyMode || !user) return;
+
+    const unscreened = messages.filter(
+      (message) =>
+        message.senderId !== user.uid && !isEventMessage(message) && !(message.id in flaggedIds)
+    );
+    if (!unscreened.length) return;
+
+    let cancelled = false;
+
+    Promise.all(
+      unscreened.map(async (message) => {
+        try {
+          const content = screenedContent(message.text, message.attachments);
+          const { action } = await detectToxicity(content, { strict: true });
+          return [message.id, action !== 'allow' || hasNegativeEmotion(message)] as const;
+        } catch (error) {
+          // A message that couldn't be screened stays covered rather than shown unchecked
+          console.error('Safety screening failed:', error);
+          return [message.id, true] as const;
+        }
+      })
+    ).then((results) => {
+      if (!cancelled) {
+        setFlaggedIds((prev) => ({ ...prev, ...Object.fromEntries(results) }));
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [messages, safetyMode, user, flaggedIds]);
+
+  const isCovered = useCallback(
+    (message: Message) => safetyMode && !!flaggedIds[message.id] && !revealedIds[message.id],
+    [safetyMode, flaggedIds, revealedIds]
+  );
+
+  const reveal = useCallback((messageId: string) => {
+    setRevealedIds((prev) => ({ ...prev, [messageId]: true }));
+  }, []);
+
+  return { safetyMode, isCovered, reveal };
+};
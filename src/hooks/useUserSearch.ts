@@ -0,0 +1,46 @@
+import { useState, useEffect } from 'react';
+import { getChatBackend, type DirectoryEntry } from '@/lib/backend';
+import { useAuth } from '@/contexts/AuthContext';
+
+const SEARCH_DEBOUNCE = 250;
+const SEARCH_LIMIT = 10;
+
+// Debounced lookup of other accounts in the user directory by name or email
+export const useUserSearch = (term: string) => {
+  const { user } = useAuth();
+  const [results, setResults] = useState<DirectoryEntry[]>([]);
+  const [searching, setSearching] = useState(false);
+
+  useEffect(() => {
+    const trimmed = term.trim();
+    if (!trimmed || !user) {
+      setResults([]);
+      setSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    setSearching(true);
+
+    const timeout = setTimeout(async () => {
+      try {
+        const entries = await getChatBackend().directory.search(trimmed, SEARCH_LIMIT + 1);
+        if (!cancelled) {
+          setResults(entries.filter((entry) => entry.uid !== user.uid).slice(0, SEARCH_LIMIT));
+        }
+      } catch (error) {
+        console.error('User search failed:', error);
+        if (!cancelled) setResults([]);
+      } finally {
+        if (!cancelled) setSearching(false);
+      }
+    }, SEARCH_DEBOUNCE);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [term, user]);
+
+  return { results, searching };
+};
@@ -0,0 +1,180 @@
+import { useState, useEffect, useLayoutEffect, useCallback, useMemo, useRef, type RefObject } from 'react';
+
+interface VirtualListOptions {
+  // The scrolling element
+  viewportRef: RefObject<HTMLElement>;
+  // The element the items are laid out in, somewhere inside the viewport
+  listRef: RefObject<HTMLElement>;
+  // One stable key per item, in order
+  keys: string[];
+  // Height assumed for an item until it has rendered once (px)
+  estimateSize: number;
+  // How far past the visible area items are still rendered (px)
+  overscan?: number;
+}
+
+// Distance from the bottom (px) within which the list counts as scrolled to the end
+const BOTTOM_THRESHOLD = 4;
+
+// Index of the item that contains `position`, given each item's start offset
+const indexAt = (offsets: number[], position: number) => {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (offsets[mid + 1] > position) high = mid;
+    else low = mid + 1;
+  }
+  return Math.max(low, 0);
+};
+
+// Renders only the items of a long list near the visible area, with padding standing in for the
+// rest. Items may differ in height: each is measured once it renders, and a size change above
+// the visible area moves the scroll position with it so the content in view stays put.
+export const useVirtualList = ({ viewportRef, listRef, keys, estimateSize, overscan = 600 }: VirtualListOptions) => {
+  const [sizes, setSizes] = useState<Record<string, number>>({});
+  // Rendered items, [start, end)
+  const [range, setRange] = useState<[number, number]>([0, 0]);
+  const sizesRef = useRef(sizes);
+  sizesRef.current = sizes;
+  const keysRef = useRef(new Map<Element, string>());
+  const measureRefs = useRef(new Map<string, (element: HTMLElement | null) => void>());
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const atBottomRef = useRef(true);
+
+  // Where each item starts, plus the total height at the end
+  const offsets = useMemo(() => {
+    const result = [0];
+    keys.forEach((key, index) => result.push(result[index] + (sizes[key] ?? estimateSize)));
+    return result;
+  }, [keys, sizes, estimateSize]);
+  const offsetsRef = useRef(offsets);
+  offsetsRef.current = offsets;
+
+  // Works out which items are in view; call after moving the scroll position
+  const sync = useCallback(() => {
+    const viewport = viewportRef.current;
+    const list = listRef.current;
+    if (!viewport || !list) return;
+
+    atBottomRef.current = viewport.scrollHeight - viewport.scrollTop - viewport.clientHeight <= BOTTOM_THRESHOLD;
+
+    const current = offsetsRef.current;
+    const count = current.length - 1;
+    const listTop = list.getBoundingClientRect().top - viewport.getBoundingClientRect().top + viewport.scrollTop;
+    const top = viewport.scrollTop - listTop - overscan;
+    const bottom = viewport.scrollTop + viewport.clientHeight - listTop + overscan;
+    const start = count ? indexAt(current, top) : 0;
+    const end = count ? Math.min(indexAt(current, bottom) + 1, count) : 0;
+
+    setRange((prev) => (prev[0] === start && prev[1] === end ? prev : [start, end]));
+  }, [viewportRef, listRef, overscan]);
+
+  // The items and their heights change the range too
+  useLayoutEffect(() => {
+    sync();
+  }, [sync, offsets]);
+
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+
+    const resizeObserver = new ResizeObserver(() => sync());
+    resizeObserver.observe(viewport);
+    viewport.addEventListener('scroll', sync, { passive: true });
+    return () => {
+      resizeObserver.disconnect();
+      viewport.removeEventListener('scroll', sync);
+    };
+  }, [viewportRef, sync]);
+
+  useEffect(() => {
+    const keysByElement = keysRef.current;
+    const observer = new ResizeObserver((entries) => {
+      const viewport = viewportRef.current;
+      const viewportTop = viewport?.getBoundingClientRect().top ?? 0;
+      const changes: Record<string, number> = {};
+      let shift = 0;
+
+      entries.forEach((entry) => {
+        const element = entry.target as HTMLElement;
+        const key = keysByElement.get(element);
+        if (!key) return;
+
+        const size = element.offsetHeight;
+        const previous = sizesRef.current[key] ?? estimateSize;
+        if (size === sizesRef.current[key]) return;
+
+        changes[key] = size;
+        if (element.getBoundingClientRect().bottom <= viewportTop) shift += size - previous;
+      });
+      if (!Object.keys(changes).length) return;
+
+      if (viewport) {
+        if (atBottomRef.current) viewport.scrollTop = viewport.scrollHeight;
+        else if (shift) viewport.scrollTop += shift;
+      }
+      setSizes((prev) => ({ ...prev, ...changes }));
+    });
+
+    observerRef.current = observer;
+    keysByElement.forEach((_key, element) => observer.observe(element));
+    return () => {
+      observer.disconnect();
+      observerRef.current = null;
+    };
+  }, [viewportRef, estimateSize]);
+
+  // Ref callback for each rendered item's outermost element, the same function for a key
+  // every render so React doesn't detach and reattach it
+  const measure = useCallback((key: string) => {
+    let callback = measureRefs.current.get(key);
+    if (!callback) {
+      let observed: HTMLElement | null = null;
+      callback = (element) => {
+        if (observed) {
+          keysRef.current.delete(observed);
+          observerRef.current?.unobserve(observed);
+        }
+        observed = element;
+        if (element) {
+          keysRef.current.set(element, key);
+          observerRef.current?.observe(element);
+        }
+      };
+      measureRefs.current.set(key, callback);
+    }
+    return callback;
+  }, []);
+
+  // Brings an item that may not be rendered into the middle of the viewport
+  const scrollToKey = useCallback(
+    (key: string) => {
+      const viewport = viewportRef.current;
+      const list = listRef.current;
+      const index = keys.indexOf(key);
+      if (!viewport || !list || index < 0) return;
+
+      const listTop = list.getBoundingClientRect().top - viewport.getBoundingClientRect().top + viewport.scrollTop;
+      const itemCenter = (offsets[index] + offsets[index + 1]) / 2;
+      viewport.scrollTop = listTop + itemCenter - viewport.clientHeight / 2;
+      sync();
+    },
+    [viewportRef, listRef, keys, offsets, sync]
+  );
+
+  // The range may still describe a longer list than the one just rendered
+  const end = Math.min(range[1], keys.length);
+  const start = Math.min(range[0], end);
+  const indexes = useMemo(() => Array.from({ length: end - start }, (_, i) => start + i), [start, end]);
+
+  return {
+    // Indexes of the items to render
+    indexes,
+    paddingTop: offsets[start],
+    paddingBottom: offsets[keys.length] - offsets[end],
+    measure,
+    scrollToKey,
+    sync,
+  };
+};
@@ -0,0 +1,143 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { getSpeechProvider, type TranscriptionSession } from '@/lib/speech';
+import type { VoiceRecording } from '@/lib/attachments';
+
+// Longest voice message, in seconds
+export const MAX_VOICE_SECONDS = 5 * 60;
+// Bars in a voice message's stored waveform
+const WAVEFORM_BARS = 48;
+// How often the input level is sampled (ms)
+const LEVEL_INTERVAL_MS = 100;
+
+interface ActiveRecording {
+  recorder: MediaRecorder;
+  stream: MediaStream;
+  audioContext: AudioContext;
+  chunks: Blob[];
+  levels: number[];
+  startedAt: number;
+  sampler: ReturnType<typeof setInterval>;
+  transcription: TranscriptionSession;
+}
+
+// Averages the sampled levels into a fixed number of bars, scaled so the loudest is 1
+const toWaveform = (levels: number[]): number[] => {
+  if (!levels.length) return Array(WAVEFORM_BARS).fill(0);
+
+  const bars = Array.from({ length: WAVEFORM_BARS }, (_, bar) => {
+    const start = Math.floor((bar * levels.length) / WAVEFORM_BARS);
+    const end = Math.max(start + 1, Math.floor(((bar + 1) * levels.length) / WAVEFORM_BARS));
+    const slice = levels.slice(start, end);
+    return slice.reduce((sum, level) => sum + level, 0) / slice.length;
+  });
+  const peak = Math.max(...bars) || 1;
+  return bars.map((value) => Math.round((value / peak) * 100) / 100);
+};
+
+// Records a voice message from the microphone, with live levels for the recording UI
+// and a transcript from the configured speech provider
+export const useVoiceRecorder = () => {
+  const [recording, setRecording] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+  const [levels, setLevels] = useState<number[]>([]);
+  // Set once the recording hits MAX_VOICE_SECONDS; the caller decides whether to stop and send
+  const [limitReached, setLimitReached] = useState(false);
+  const activeRef = useRef<ActiveRecording | null>(null);
+
+  const release = useCallback((active: ActiveRecording) => {
+    clearInterval(active.sampler);
+    active.stream.getTracks().forEach((track) => track.stop());
+    active.audioContext.close().catch(() => undefined);
+    activeRef.current = null;
+    setRecording(false);
+    setElapsed(0);
+    setLevels([]);
+    setLimitReached(false);
+  }, []);
+
+  const start = useCallback(async () => {
+    if (activeRef.current) return;
+    if (!navigator.mediaDevices?.getUserMedia || typeof MediaRecorder === 'undefined') {
+      throw new Error('Voice messages are not supported in this browser.');
+    }
+
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true }).catch(() => {
+      throw new Error('Microphone access is needed to record voice messages.');
+    });
+
+    const audioContext = new AudioContext();
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 512;
+    audioContext.createMediaStreamSource(stream).connect(analyser);
+    const samples = new Uint8Array(analyser.fftSize);
+
+    const recorder = new MediaRecorder(stream);
+    const active: ActiveRecording = {
+      recorder,
+      stream,
+      audioContext,
+      chunks: [],
+      levels: [],
+      startedAt: Date.now(),
+      transcription: getSpeechProvider().start(navigator.language),
+      sampler: setInterval(() => {
+        // RMS of the current frame, centred on 128
+        analyser.getByteTimeDomainData(samples);
+        const rms = Math.sqrt(samples.reduce((sum, sample) => sum + ((sample - 128) / 128) ** 2, 0) / samples.length);
+        active.levels.push(Math.min(1, rms * 4));
+        setLevels(active.levels.slice(-WAVEFORM_BARS));
+
+        const seconds = (Date.now() - active.startedAt) / 1000;
+        setElapsed(seconds);
+        if (seconds >= MAX_VOICE_SECONDS) setLimitReached(true);
+      }, LEVEL_INTERVAL_MS),
+    };
+    recorder.ondataavailable = (event) => {
+      if (event.data.size) active.chunks.push(event.data);
+    };
+
+    recorder.start();
+    activeRef.current = active;
+    setRecording(true);
+  }, []);
+
+  // Resolves to the finished recording, transcript included
+  const stop = useCallback(async (): Promise<VoiceRecording | null> => {
+    const active = activeRef.current;
+    if (!active) return null;
+    // Claimed right away so a second stop or a cancel can't touch it mid-way
+    activeRef.current = null;
+
+    const stopped = new Promise<void>((resolve) => {
+      active.recorder.onstop = () => resolve();
+    });
+    active.recorder.stop();
+    await stopped;
+
+    const audio = new Blob(active.chunks, { type: active.recorder.mimeType || 'audio/webm' });
+    const duration = (Date.now() - active.startedAt) / 1000;
+    const waveform = toWaveform(active.levels);
+    release(active);
+
+    const transcript = await active.transcription.finish(audio).catch((error) => {
+      console.warn('Transcription failed:', error);
+      return '';
+    });
+    return { audio, duration, waveform, transcript };
+  }, [release]);
+
+  const cancel = useCallback(() => {
+    const active = activeRef.current;
+    if (!active) return;
+
+    active.recorder.onstop = null;
+    if (active.recorder.state !== 'inactive') active.recorder.stop();
+    active.transcription.cancel();
+    release(active);
+  }, [release]);
+
+  // Never leave the microphone on after the composer goes away
+  useEffect(() => cancel, [cancel]);
+
+  return { recording, elapsed, levels, limitReached, start, stop, cancel };
+};
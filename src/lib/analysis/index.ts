@@ -0,0 +1,40 @@
+import { createLlmAnalysisProvider } from './llm';
+import { createLocalAnalysisProvider } from './local';
+import type { AnalysisProvider } from './types';
+
+export * from './types';
+export { createLlmAnalysisProvider, type LlmAnalysisConfig } from './llm';
+export { createLocalAnalysisProvider } from './local';
+
+let provider: AnalysisProvider | null = null;
+
+const createConfiguredProvider = (): AnalysisProvider => {
+  const env = import.meta.env;
+  const apiKey = (env.VITE_GEMINI_API_KEY || '').trim();
+  const baseUrl = (env.VITE_ANALYSIS_ENDPOINT || '').trim() || undefined;
+
+  // A mock server at VITE_ANALYSIS_ENDPOINT doesn't need a real key
+  if (env.VITE_ANALYSIS_PROVIDER !== 'llm' || (!apiKey && !baseUrl)) {
+    return createLocalAnalysisProvider();
+  }
+
+  return createLlmAnalysisProvider({
+    apiKey: apiKey || 'local-mock',
+    baseUrl,
+    model: (env.VITE_GEMINI_MODEL || '').trim() || undefined,
+    timeoutMs: Number(env.VITE_ANALYSIS_TIMEOUT_MS) || undefined,
+  });
+};
+
+// The local engine unless VITE_ANALYSIS_PROVIDER=llm and a key or endpoint is configured
+export const getAnalysisProvider = (): AnalysisProvider => {
+  if (!provider) {
+    provider = createConfiguredProvider();
+  }
+  return provider;
+};
+
+// Lets tests and demos swap in a provider before the app renders
+export const setAnalysisProvider = (next: AnalysisProvider | null) => {
+  provider = next;
+};
@@ -0,0 +1,172 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import type { EmotionLabel } from '@/lib/backend';
+import { EMOTIONS, rankEmotions } from '@/lib/emotion';
+import { TOXICITY_CATEGORIES, scoreToxicity } from '@/lib/toxicity';
+import { createLocalAnalysisProvider } from './local';
+import type { AnalysisProvider } from './types';
+
+export interface LlmAnalysisConfig {
+  apiKey: string;
+  model?: string;
+  // API root; defaults to Google's endpoint, point it at a mock server for local development
+  baseUrl?: string;
+  timeoutMs?: number;
+  // Analyses kept per task, keyed by message text
+  cacheSize?: number;
+  // Used whenever the model errors, times out or returns something unusable
+  fallback?: AnalysisProvider;
+}
+
+const DEFAULT_MODEL = 'gemini-1.5-flash';
+const DEFAULT_TIMEOUT_MS = 4000;
+const DEFAULT_CACHE_SIZE = 200;
+
+const EMOTION_PROMPT = `Rate how strongly the chat message below expresses each emotion, from 0 (not at all) to 1 (very strongly).
+Take negation, sarcasm, intensifiers and emoji into account.
+Reply with JSON only, in the form {"happy":0,"sad":0,"angry":0,"stressed":0,"anxious":0}.`;
+
+const TOXICITY_PROMPT = `Rate the chat message below in each category from 0 (not present) to 1 (severe):
+- insult: demeaning the reader
+- threat: threatening violence or harm to someone
+- profanity: swearing, including obfuscated spellings
+- selfHarm: the sender talking about hurting or killing themselves
+- harassment: hostile, intimidating or encouraging someone to self-harm
+Figures of speech ("I could kill for a coffee") and casual mild swearing score low.
+Reply with JSON only, in the form {"insult":0,"threat":0,"profanity":0,"selfHarm":0,"harassment":0}.`;
+
+const supportPrompt = (emotion: EmotionLabel) =>
+  `Someone just sent the chat message below and seems ${emotion}. Write one or two short, warm sentences ` +
+  `that acknowledge how they feel and gently suggest a small self-care step. Do not quote the message, ` +
+  `diagnose, or give medical advice. Reply with the sentences only.`;
+
+const withTimeout = <T>(promise: Promise<T>, ms: number) =>
+  new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`Analysis timed out after ${ms}ms`)), ms);
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+
+// Reads {"key": number} scores from a model reply, rejecting anything malformed
+const readScores = <K extends string>(reply: string, keys: readonly K[]): Record<K, number> => {
+  const parsed = JSON.parse(reply);
+  return Object.fromEntries(
+    keys.map((key) => {
+      const value = parsed?.[key];
+      if (typeof value !== 'number' || Number.isNaN(value)) {
+        throw new Error(`Analysis reply is missing a score for "${key}"`);
+      }
+      return [key, Math.min(1, Math.max(0, value))];
+    })
+  ) as Record<K, number>;
+};
+
+// Gemini-backed analysis. Replies are validated, cached by text, and any failure falls back
+// to the local engine so sending a message never depends on the model being reachable.
+export const createLlmAnalysisProvider = ({
+  apiKey,
+  model = DEFAULT_MODEL,
+  baseUrl,
+  timeoutMs = DEFAULT_TIMEOUT_MS,
+  cacheSize = DEFAULT_CACHE_SIZE,
+  fallback = createLocalAnalysisProvider(),
+}: LlmAnalysisConfig): AnalysisProvider => {
+  const client = new GoogleGenerativeAI(apiKey);
+  const requestOptions = { baseUrl, timeout: timeoutMs };
+  const scoringModel = client.getGenerativeModel(
+    { model, generationConfig: { temperature: 0, responseMimeType: 'application/json' } },
+    requestOptions
+  );
+  const writingModel = client.getGenerativeModel(
+    { model, generationConfig: { temperature: 0.7, maxOutputTokens: 120 } },
+    requestOptions
+  );
+
+  const cache = new Map<string, Promise<unknown>>();
+
+  // Only successful replies stay cached; a failed request is retried next time
+  const cached = <T>(key: string, load: () => Promise<T>): Promise<T> => {
+    const hit = cache.get(key) as Promise<T> | undefined;
+    if (hit) {
+      cache.delete(key);
+      cache.set(key, hit);
+      return hit;
+    }
+
+    const pending = load();
+    cache.set(key, pending);
+    pending.catch(() => cache.delete(key));
+    if (cache.size > cacheSize) {
+      cache.delete(cache.keys().next().value as string);
+    }
+    return pending;
+  };
+
+  const ask = async (
+    target: typeof scoringModel,
+    instructions: string,
+    text: string
+  ): Promise<string> => {
+    const result = await withTimeout(
+      target.generateContent(`${instructions}\n\nMessage: ${JSON.stringify(text)}`),
+      timeoutMs
+    );
+    return result.response.text();
+  };
+
+  const orFallback = async <T>(task: () => Promise<T>, local: () => Promise<T>): Promise<T> => {
+    try {
+      return await task();
+    } catch (error) {
+      console.warn('LLM analysis failed, using the local engine instead:', error);
+      return local();
+    }
+  };
+
+  return {
+    kind: 'llm',
+
+    analyzeEmotion: (text) =>
+      orFallback(
+        async () => {
+          const scores = await cached(`emotion:${text}`, async () =>
+            readScores(await ask(scoringModel, EMOTION_PROMPT, text), EMOTIONS)
+          );
+          return rankEmotions(scores);
+        },
+        () => fallback.analyzeEmotion(text)
+      ),
+
+    detectToxicity: (text, options) =>
+      orFallback(
+        async () => {
+          const scores = await cached(`toxicity:${text}`, async () =>
+            readScores(await ask(scoringModel, TOXICITY_PROMPT, text), TOXICITY_CATEGORIES)
+          );
+          return scoreToxicity({ ...scores }, options);
+        },
+        () => fallback.detectToxicity(text, options)
+      ),
+
+    getSupportiveResponse: async (emotion, text) => {
+      if (emotion === 'neutral' || emotion === 'happy') return null;
+      if (!text) return fallback.getSupportiveResponse(emotion);
+
+      return orFallback(
+        async () => {
+          const reply = (await ask(writingModel, supportPrompt(emotion), text)).trim();
+          if (!reply) throw new Error('Analysis reply was empty');
+          return reply;
+        },
+        () => fallback.getSupportiveResponse(emotion, text)
+      );
+    },
+  };
+};
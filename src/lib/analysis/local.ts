@@ -0,0 +1,42 @@
+import type { EmotionLabel } from '@/lib/backend';
+import { analyzeEmotions } from '@/lib/emotion';
+import { classifyToxicity } from '@/lib/toxicity';
+import type { AnalysisProvider } from './types';
+
+const SUPPORTIVE_RESPONSES: Record<Exclude<EmotionLabel, 'neutral' | 'happy'>, string[]> = {
+  sad: [
+    "I notice you might be feeling down. Remember, it's okay to feel this way. Would you like to take a moment to breathe?",
+    "I'm here for you. Sometimes talking helps. Take your time.",
+    "It's okay to feel sad. Would you like some suggestions for self-care?",
+  ],
+  angry: [
+    "I sense some frustration. Take a deep breath - in for 4 seconds, hold for 4, out for 4.",
+    "Strong emotions are valid. Would stepping away for a moment help?",
+    "It's okay to feel this way. Let's take a moment before continuing.",
+  ],
+  stressed: [
+    "You seem overwhelmed. Remember to take breaks. Your wellbeing matters most.",
+    "One thing at a time. Would you like to try a quick breathing exercise?",
+    "It's okay to step back. You don't have to respond right away.",
+  ],
+  anxious: [
+    "I notice some worry in your words. Remember, you're in a safe space here.",
+    "Take a moment to ground yourself. Look around and name 5 things you can see.",
+    "It's okay to feel anxious. Would you like some calming suggestions?",
+  ],
+};
+
+export const pickSupportiveResponse = (emotion: EmotionLabel): string | null => {
+  if (emotion === 'neutral' || emotion === 'happy') return null;
+
+  const responses = SUPPORTIVE_RESPONSES[emotion];
+  return responses[Math.floor(Math.random() * responses.length)];
+};
+
+// Rule-based engine that runs entirely in the browser; the default and the fallback for every other provider
+export const createLocalAnalysisProvider = (): AnalysisProvider => ({
+  kind: 'local',
+  analyzeEmotion: async (text) => analyzeEmotions(text),
+  detectToxicity: async (text, options) => classifyToxicity(text, options),
+  getSupportiveResponse: async (emotion) => pickSupportiveResponse(emotion),
+});
@@ -0,0 +1,15 @@
+// Contract for the engines behind emotion, toxicity and supportive-response analysis.
+// ai.ts talks to an AnalysisProvider instead of a specific model or rule set.
+
+import type { EmotionAnalysis, EmotionLabel } from '@/lib/backend';
+import type { ToxicityOptions, ToxicityResult } from '@/lib/toxicity';
+
+export type AnalysisProviderKind = 'local' | 'llm';
+
+export interface AnalysisProvider {
+  kind: AnalysisProviderKind;
+  analyzeEmotion(text: string): Promise<EmotionAnalysis>;
+  detectToxicity(text: string, options?: ToxicityOptions): Promise<ToxicityResult>;
+  // Short message shown to the sender after a message with a difficult emotion; null for none
+  getSupportiveResponse(emotion: EmotionLabel, text?: string): Promise<string | null>;
+}
@@ -0,0 +1,89 @@
+// Pre-upload safety check for attachments. The local scanner runs entirely in the browser;
+// a deployment can plug in its own (e.g. a hosted image moderation service) with
+// setAttachmentScanner. Blocked files never upload; flagged ones upload marked as such.
+
+import type { AttachmentKind } from '@/lib/backend';
+import { classifyToxicity, type ModerationAction } from '@/lib/toxicity';
+
+export interface AttachmentScanInput {
+  file: Blob;
+  name: string;
+  mimeType: string;
+  kind: AttachmentKind;
+}
+
+export interface AttachmentScanResult {
+  action: ModerationAction;
+  reason?: string;
+}
+
+export interface AttachmentScanner {
+  kind: string;
+  scan: (input: AttachmentScanInput) => Promise<AttachmentScanResult>;
+}
+
+// Leading bytes every file of the type starts with
+const SIGNATURES: Record<string, Array<Array<number | null>>> = {
+  'image/jpeg': [[0xff, 0xd8, 0xff]],
+  'image/png': [[0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]],
+  'image/gif': [[0x47, 0x49, 0x46, 0x38]],
+  // RIFF....WEBP
+  'image/webp': [[0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x45, 0x42, 0x50]],
+  'application/pdf': [[0x25, 0x50, 0x44, 0x46]],
+};
+
+// Extensions of things that run when opened, caught even when hidden behind a second extension
+const EXECUTABLE_EXTENSIONS = /\.(exe|scr|bat|cmd|com|msi|js|jse|vbs|vbe|ps1|jar|apk|app|dmg|sh|lnk|hta)(\.|$)/i;
+
+// PDF features that run code or open other things
+const RISKY_PDF_MARKERS = ['/JavaScript', '/JS', '/Launch', '/EmbeddedFile', '/OpenAction'];
+// How much of a PDF is searched for them
+const PDF_SCAN_BYTES = 2 * 1024 * 1024;
+
+const matchesSignature = (bytes: Uint8Array, signature: Array<number | null>) =>
+  signature.every((byte, index) => byte === null || bytes[index] === byte);
+
+const createLocalAttachmentScanner = (): AttachmentScanner => ({
+  kind: 'local',
+  scan: async ({ file, name, mimeType }) => {
+    if (EXECUTABLE_EXTENSIONS.test(name)) {
+      return { action: 'block', reason: 'Files that can run programs cannot be sent.' };
+    }
+
+    const signatures = SIGNATURES[mimeType];
+    if (signatures) {
+      const head = new Uint8Array(await file.slice(0, 16).arrayBuffer());
+      if (!signatures.some((signature) => matchesSignature(head, signature))) {
+        return { action: 'block', reason: "This file's contents don't match its type." };
+      }
+    }
+
+    if (mimeType === 'application/pdf') {
+      const text = new TextDecoder('latin1').decode(await file.slice(0, PDF_SCAN_BYTES).arrayBuffer());
+      if (RISKY_PDF_MARKERS.some((marker) => text.includes(marker))) {
+        return { action: 'warn', reason: 'This PDF contains scripts or embedded files.' };
+      }
+    }
+
+    // File names are read like message text
+    const toxicity = classifyToxicity(name.replace(/[._-]+/g, ' '), { strict: true });
+    if (toxicity.action !== 'allow') {
+      return { action: toxicity.action, reason: 'The file name contains harmful language.' };
+    }
+
+    return { action: 'allow' };
+  },
+});
+
+let scanner: AttachmentScanner | null = null;
+
+export const getAttachmentScanner = (): AttachmentScanner => {
+  if (!scanner) {
+    scanner = createLocalAttachmentScanner();
+  }
+  return scanner;
+};
+
+export const setAttachmentScanner = (next: AttachmentScanner | null) => {
+  scanner = next;
+};
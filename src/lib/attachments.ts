@@ -0,0 +1,199 @@
+// Attachment limits and the work done on a file before it is uploaded: type and size checks,
+// re-encoding photos to drop their EXIF metadata (location, camera), thumbnails and the
+// pre-upload safety scan.
+
+import type { AttachmentKind } from '@/lib/backend';
+import { getAttachmentScanner } from '@/lib/attachmentScan';
+
+export const MAX_ATTACHMENTS = 10;
+export const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+export const MAX_FILE_BYTES = 25 * 1024 * 1024;
+
+const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+const FILE_TYPES = [
+  'application/pdf',
+  'text/plain',
+  'text/csv',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.ms-powerpoint',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+];
+
+// For the file input's `accept` attribute
+export const ACCEPTED_ATTACHMENT_TYPES = [...IMAGE_TYPES, ...FILE_TYPES].join(',');
+
+// Longest side of a thumbnail (px)
+const THUMBNAIL_SIZE = 320;
+
+// A file picked in the composer, processed and ready to upload
+export interface PreparedAttachment {
+  id: string;
+  kind: AttachmentKind;
+  // What gets uploaded: for photos, the re-encoded copy without metadata
+  file: Blob;
+  name: string;
+  mimeType: string;
+  size: number;
+  thumbnail?: string;
+  width?: number;
+  height?: number;
+  duration?: number;
+  waveform?: number[];
+  transcript?: string;
+  flagged?: boolean;
+  // Object URL shown in the composer; revoke with releaseAttachment
+  previewUrl?: string;
+}
+
+export const attachmentKind = (mimeType: string): AttachmentKind =>
+  IMAGE_TYPES.includes(mimeType) ? 'image' : mimeType === 'application/pdf' ? 'pdf' : 'file';
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Only uploaded files reach an src or href: https URLs, or the data URLs the local backend
+// keeps inline when they hold a type that kind of attachment may have
+export const toSafeAttachmentUrl = (url: string | undefined, kind: AttachmentKind): string | undefined => {
+  if (!url) return undefined;
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol === 'https:') return parsed.href;
+    if (parsed.protocol !== 'data:') return undefined;
+
+    const mimeType = parsed.pathname.split(/[;,]/)[0].toLowerCase();
+    return (kind === 'image' ? IMAGE_TYPES : FILE_TYPES).includes(mimeType) ? url : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+// m:ss, for voice messages
+export const formatDuration = (seconds: number) => {
+  const whole = Math.max(0, Math.round(seconds));
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+// Throws with a message fit for the user when the file can't be attached
+export const validateAttachment = (file: File) => {
+  if (![...IMAGE_TYPES, ...FILE_TYPES].includes(file.type)) {
+    throw new Error(`${file.name} can't be attached. Send photos, PDFs, text or Office documents.`);
+  }
+
+  const limit = attachmentKind(file.type) === 'image' ? MAX_IMAGE_BYTES : MAX_FILE_BYTES;
+  if (file.size > limit) {
+    throw new Error(`${file.name} is too large. The limit is ${formatFileSize(limit)}.`);
+  }
+  if (file.size === 0) {
+    throw new Error(`${file.name} is empty.`);
+  }
+};
+
+const drawToCanvas = (image: ImageBitmap, width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  canvas.getContext('2d')!.drawImage(image, 0, 0, width, height);
+  return canvas;
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not process the image'))), type, 0.92);
+  });
+
+// Decodes the photo with its EXIF orientation applied and redraws it: the new file carries
+// pixels only. GIFs keep their original bytes so animations survive; they carry no EXIF.
+const processImage = async (file: File) => {
+  const image = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  try {
+    const { width, height } = image;
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(width, height));
+    const thumbnail = drawToCanvas(image, Math.round(width * scale), Math.round(height * scale)).toDataURL(
+      'image/jpeg',
+      0.7
+    );
+    const stripped = file.type === 'image/gif' ? file : await canvasToBlob(drawToCanvas(image, width, height), file.type);
+
+    return { file: stripped, thumbnail, width, height };
+  } finally {
+    image.close();
+  }
+};
+
+const attachmentId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+// Validates, strips metadata and scans the file; throws when it may not be sent
+export const prepareAttachment = async (file: File): Promise<PreparedAttachment> => {
+  validateAttachment(file);
+
+  const kind = attachmentKind(file.type);
+  const processed =
+    kind === 'image'
+      ? await processImage(file).catch(() => {
+          throw new Error(`${file.name} couldn't be read as an image.`);
+        })
+      : { file };
+  // Browsers that can't encode the original type (e.g. WebP in Safari) hand back a PNG
+  const mimeType = processed.file.type || file.type;
+
+  const scan = await getAttachmentScanner().scan({
+    file: processed.file,
+    name: file.name,
+    mimeType,
+    kind,
+  });
+  if (scan.action === 'block') {
+    throw new Error(`${file.name} can't be sent. ${scan.reason || ''}`.trim());
+  }
+
+  return {
+    id: attachmentId(),
+    kind,
+    name: file.name,
+    mimeType,
+    ...processed,
+    size: processed.file.size,
+    flagged: scan.action === 'warn' || undefined,
+    previewUrl: kind === 'image' ? URL.createObjectURL(processed.file) : undefined,
+  };
+};
+
+export interface VoiceRecording {
+  audio: Blob;
+  duration: number; // seconds
+  waveform: number[];
+  transcript: string;
+}
+
+// Voice messages skip the file checks: they are recorded here, not picked from disk
+export const prepareVoiceNote = ({ audio, duration, waveform, transcript }: VoiceRecording): PreparedAttachment => {
+  const mimeType = audio.type || 'audio/webm';
+  const extension = mimeType.includes('ogg') ? 'ogg' : mimeType.includes('mp4') ? 'm4a' : 'webm';
+
+  return {
+    id: attachmentId(),
+    kind: 'voice',
+    file: audio,
+    name: `voice-message.${extension}`,
+    mimeType,
+    size: audio.size,
+    duration,
+    waveform,
+    ...(transcript ? { transcript } : {}),
+    previewUrl: URL.createObjectURL(audio),
+  };
+};
+
+export const releaseAttachment = (attachment: PreparedAttachment) => {
+  if (attachment.previewUrl) URL.revokeObjectURL(attachment.previewUrl);
+};
+
+// Storage location of an uploaded attachment; the name is kept readable but path-safe
+export const attachmentPath = (chatId: string, uid: string, attachment: PreparedAttachment) =>
+  `attachments/${chatId}/${uid}/${attachment.id}-${attachment.name.replace(/[^\w.-]+/g, '_')}`;
@@ -0,0 +1,690 @@
+import {
+  User,
+  createUserWithEmailAndPassword,
+  signInWithEmailAndPassword,
+  signInWithPopup,
+  signOut,
+  onAuthStateChanged,
+  updateProfile,
+} from 'firebase/auth';
+import {
+  ref,
+  get,
+  push,
+  set,
+  update,
+  onValue,
+  onChildAdded,
+  onChildChanged,
+  onChildRemoved,
+  off,
+  serverTimestamp,
+  onDisconnect,
+  increment,
+  query,
+  orderByChild,
+  limitToLast,
+  limitToFirst,
+  startAt,
+  endAt,
+  endBefore,
+  equalTo,
+  type DataSnapshot,
+} from 'firebase/database';
+import {
+  ref as storageRef,
+  uploadBytesResumable,
+  getDownloadURL,
+  deleteObject,
+} from 'firebase/storage';
+import { getFirebaseServices, getFirebaseStorage, googleProvider } from '@/lib/firebase';
+import { withRetry } from './retry';
+import {
+  deletedMessageFields,
+  deletedReplyFields,
+  DELETED_MESSAGE_TEXT,
+  messagePreview,
+  chatWithFirstMessage,
+  chatSummaryFor,
+  isChatSummary,
+  newChatSummaryFields,
+  previewFields,
+  sentMessageChatFields,
+  sentMessageSummaryFields,
+  atPath,
+  toUserPresence,
+  type BackendUser,
+  type CallSession,
+  type Chat,
+  type ChatBackend,
+  type ChatRepairReport,
+  type DirectoryEntry,
+  type Message,
+  type Unsubscribe,
+  type UserProfile,
+} from './types';
+
+const toBackendUser = (fbUser: User): BackendUser => ({
+  uid: fbUser.uid,
+  email: fbUser.email,
+  displayName: fbUser.displayName,
+  photoURL: fbUser.photoURL,
+});
+
+const database = () => getFirebaseServices().database;
+
+const toMessage = (child: DataSnapshot): Message => ({ id: child.key!, ...child.val() });
+
+// Every field of a chat record but its messages and typing state
+const CHAT_RECORD_FIELDS: (keyof Omit<Chat, 'id'>)[] = [
+  'participants',
+  'participantNames',
+  'lastMessage',
+  'lastMessageTime',
+  'isGroup',
+  'groupName',
+  'admins',
+  'createdBy',
+  'createdAt',
+  'lastReadAt',
+  'lastDeliveredAt',
+  'lastSentAt',
+];
+
+// What a chat list entry is made from, including the unread counts older clients kept on the chat
+const SUMMARY_SOURCE_FIELDS: (keyof Omit<Chat, 'id'>)[] = [
+  'isGroup',
+  'groupName',
+  'participantNames',
+  'lastMessage',
+  'lastMessageTime',
+  'createdBy',
+  'lastSentAt',
+  'unreadCounts',
+];
+
+// Reads chat fields one by one; reading the chat itself would bring its entire history along
+const getChatFields = async (chatId: string, fields: (keyof Omit<Chat, 'id'>)[]): Promise<Partial<Chat>> => {
+  const db = database();
+  const snapshots = await Promise.all(fields.map((field) => get(ref(db, `chats/${chatId}/${field}`))));
+  return Object.fromEntries(
+    snapshots.flatMap((snapshot, index) => (snapshot.exists() ? [[fields[index], snapshot.val()]] : []))
+  );
+};
+
+// Whose chat lists show a chat
+const getMembers = async (chatId: string): Promise<string[]> =>
+  (await get(ref(database(), `chats/${chatId}/participants`))).val() || [];
+
+const toMessageList = (snapshot: DataSnapshot) => {
+  const messageList: Message[] = [];
+  snapshot.forEach((child) => {
+    messageList.push(toMessage(child));
+  });
+  return messageList;
+};
+
+// Directory records carry lowercased copies of the searchable fields so prefix queries
+// are case-insensitive. Requires ".indexOn": ["searchName", "searchEmail"] on /directory.
+const toDirectoryRecord = (entry: DirectoryEntry) => ({
+  ...entry,
+  searchName: entry.displayName.toLowerCase(),
+  searchEmail: (entry.email || '').toLowerCase(),
+});
+
+const toDirectoryEntry = ({ uid, displayName, email, photoURL }: DirectoryEntry): DirectoryEntry => ({
+  uid,
+  displayName,
+  email,
+  photoURL,
+});
+
+export const createFirebaseBackend = (): ChatBackend => ({
+  kind: 'firebase',
+
+  initialize: () => {
+    getFirebaseServices();
+  },
+
+  auth: {
+    onAuthStateChanged: (callback) => {
+      const { auth } = getFirebaseServices();
+      return onAuthStateChanged(auth, (fbUser) => callback(fbUser ? toBackendUser(fbUser) : null));
+    },
+
+    signUp: async (email, password, displayName) => {
+      const { auth } = getFirebaseServices();
+      const { user } = await createUserWithEmailAndPassword(auth, email, password);
+      await updateProfile(user, { displayName });
+      return toBackendUser(user);
+    },
+
+    signIn: async (email, password) => {
+      const { auth } = getFirebaseServices();
+      const { user } = await signInWithEmailAndPassword(auth, email, password);
+      return toBackendUser(user);
+    },
+
+    signInWithGoogle: async () => {
+      const { auth } = getFirebaseServices();
+      const { user } = await signInWithPopup(auth, googleProvider);
+      return toBackendUser(user);
+    },
+
+    signOut: async () => {
+      const { auth } = getFirebaseServices();
+      await signOut(auth);
+    },
+  },
+
+  users: {
+    getProfile: async (uid) => {
+      const snapshot = await get(ref(database(), `users/${uid}`));
+      return snapshot.exists() ? (snapshot.val() as UserProfile) : null;
+    },
+
+    setProfile: async (uid, profile) => {
+      await set(ref(database(), `users/${uid}`), profile);
+    },
+
+    updateProfile: async (uid, data) => {
+      await update(ref(database(), `users/${uid}`), data);
+    },
+
+    subscribeProfile: (uid, callback) =>
+      // Only this callback is detached; off() would also drop other listeners on the profile
+      onValue(ref(database(), `users/${uid}`), (snapshot) => {
+        if (snapshot.exists()) {
+          callback(snapshot.val() as UserProfile);
+        }
+      }),
+  },
+
+  directory: {
+    upsert: async (entry) => {
+      await set(ref(database(), `directory/${entry.uid}`), toDirectoryRecord(entry));
+    },
+
+    get: async (uid) => {
+      const snapshot = await get(ref(database(), `directory/${uid}`));
+      return snapshot.exists() ? toDirectoryEntry(snapshot.val()) : null;
+    },
+
+    search: async (term, limit) => {
+      const prefix = term.trim().toLowerCase();
+      if (!prefix) return [];
+
+      const byField = (field: 'searchName' | 'searchEmail') =>
+        get(
+          query(
+            ref(database(), 'directory'),
+            orderByChild(field),
+            startAt(prefix),
+            endAt(`${prefix}\uf8ff`),
+            limitToFirst(limit)
+          )
+        );
+
+      const results = new Map<string, DirectoryEntry>();
+      for (const snapshot of await Promise.all([byField('searchName'), byField('searchEmail')])) {
+        snapshot.forEach((child) => {
+          results.set(child.key!, toDirectoryEntry(child.val()));
+        });
+      }
+
+      return Array.from(results.values()).slice(0, limit);
+    },
+  },
+
+  chats: {
+    subscribeUserChats: (uid, callback) =>
+      onValue(ref(database(), `userChats/${uid}`), (snapshot) => {
+        const entries: Record<string, unknown> = snapshot.val() || {};
+        callback(
+          Object.entries(entries).flatMap(([chatId, entry]) => (isChatSummary(entry) ? [{ id: chatId, ...entry }] : []))
+        );
+      }),
+
+    subscribe: (chatId, callback) => {
+      const db = database();
+      const record: Partial<Omit<Chat, 'id'>> = {};
+      const loading = new Set(CHAT_RECORD_FIELDS);
+      let closed = false;
+
+      // One listener per field, since one on the chat would stream its whole history too
+      const unsubscribes = CHAT_RECORD_FIELDS.map((field) =>
+        onValue(
+          ref(db, `chats/${chatId}/${field}`),
+          (snapshot) => {
+            Object.assign(record, { [field]: snapshot.val() ?? undefined });
+            loading.delete(field);
+            if (!loading.size && !closed) callback(record.participants ? ({ ...record, id: chatId } as Chat) : null);
+          },
+          () => {
+            // Rules stop the reads once the user has left the chat
+            if (closed) return;
+            closed = true;
+            callback(null);
+          }
+        )
+      );
+
+      return () => {
+        closed = true;
+        unsubscribes.forEach((unsubscribe) => unsubscribe());
+      };
+    },
+
+    create: async (chat, firstMessage) => {
+      const db = database();
+      const chatId = push(ref(db, 'chats')).key!;
+      const record = firstMessage
+        ? chatWithFirstMessage(chat, push(ref(db, `chats/${chatId}/messages`)).key!, firstMessage)
+        : chat;
+
+      // The chat and every participant's chat list entry land together or not at all
+      await withRetry(() =>
+        update(ref(db), {
+          [`chats/${chatId}`]: record,
+          ...newChatSummaryFields(chatId, record, firstMessage),
+        })
+      );
+
+      return chatId;
+    },
+
+    updateMembership: async (chatId, membership, { added, removed }) => {
+      const updates: Record<string, unknown> = {
+        [`chats/${chatId}/participants`]: membership.participants,
+        [`chats/${chatId}/participantNames`]: membership.participantNames,
+        [`chats/${chatId}/admins`]: membership.admins ?? null,
+      };
+      membership.participants
+        .filter((uid) => !added.includes(uid))
+        .forEach((uid) => {
+          updates[`userChats/${uid}/${chatId}/participantNames`] = membership.participantNames;
+        });
+      if (added.length) {
+        const chat = { ...(await getChatFields(chatId, SUMMARY_SOURCE_FIELDS)), ...membership, isGroup: true };
+        added.forEach((uid) => {
+          updates[`userChats/${uid}/${chatId}`] = chatSummaryFor(chat, uid, 0);
+        });
+      }
+      removed.forEach((uid) => {
+        updates[`userChats/${uid}/${chatId}`] = null;
+      });
+
+      await withRetry(() => update(ref(database()), updates));
+    },
+
+    rename: async (chatId, groupName) => {
+      const members = await getMembers(chatId);
+      await update(ref(database()), {
+        [`chats/${chatId}/groupName`]: groupName,
+        ...Object.fromEntries(members.map((uid) => [`userChats/${uid}/${chatId}/groupName`, groupName])),
+      });
+    },
+
+    markRead: async (chatId, uid, timestamp) => {
+      await update(ref(database()), {
+        [`chats/${chatId}/lastReadAt/${uid}`]: timestamp,
+        [`chats/${chatId}/lastDeliveredAt/${uid}`]: timestamp,
+        ...atPath(`userChats/${uid}/${chatId}`, { unreadCount: 0, deliveredAt: timestamp }),
+      });
+    },
+
+    markDelivered: async (chatId, uid, timestamp) => {
+      await update(ref(database()), {
+        [`chats/${chatId}/lastDeliveredAt/${uid}`]: timestamp,
+        [`userChats/${uid}/${chatId}/deliveredAt`]: timestamp,
+      });
+    },
+
+    setPreferences: async (chatId, uid, preferences) => {
+      await update(
+        ref(database(), `userChats/${uid}/${chatId}`),
+        Object.fromEntries(Object.entries(preferences).map(([field, value]) => [field, value || null]))
+      );
+    },
+
+    repair: async (uid) => {
+      const db = database();
+      const report: ChatRepairReport = { removedEntries: 0, addedEntries: 0, rebuiltSummaries: 0, refreshedPreviews: 0 };
+      const updates: Record<string, unknown> = {};
+      const listed: Record<string, unknown> = (await get(ref(db, `userChats/${uid}`))).val() || {};
+
+      // Only the fields needed are read; a whole chat would bring its entire history along.
+      // A chat that can't be checked now is left for the next run.
+      await Promise.allSettled(
+        Object.entries(listed).map(async ([chatId, entry]) => {
+          let participants: string[] | null;
+          try {
+            participants = (await get(ref(db, `chats/${chatId}/participants`))).val();
+          } catch (error) {
+            // Rules hide chats the user is no longer in; anything else is retried next time
+            if (!/permission/i.test((error as Error).message)) return;
+            participants = null;
+          }
+
+          if (!participants?.includes(uid)) {
+            updates[`userChats/${uid}/${chatId}`] = null;
+            report.removedEntries++;
+            return;
+          }
+
+          const missing: string[] = [];
+          await Promise.all(
+            participants
+              .filter((member) => member !== uid)
+              .map(async (member) => {
+                // Other members' lists may not be readable; those are left for them to repair
+                const memberEntry = await get(ref(db, `userChats/${member}/${chatId}`)).catch(() => null);
+                if (memberEntry && !memberEntry.exists()) missing.push(member);
+              })
+          );
+
+          const summary = isChatSummary(entry) ? entry : null;
+          const [fields, latestSnapshot] = await Promise.all([
+            getChatFields(chatId, summary && !missing.length ? ['lastMessage', 'lastMessageTime'] : SUMMARY_SOURCE_FIELDS),
+            get(query(ref(db, `chats/${chatId}/messages`), orderByChild('timestamp'), limitToLast(1))),
+          ]);
+          const chat = { isGroup: false, participantNames: {}, ...fields };
+          const [latest] = toMessageList(latestSnapshot);
+          const chatStale = !!latest && latest.timestamp > (chat.lastMessageTime || 0);
+          if (latest && chatStale) {
+            chat.lastMessage = latest.isDeleted ? DELETED_MESSAGE_TEXT : messagePreview(latest);
+            chat.lastMessageTime = latest.timestamp;
+            updates[`chats/${chatId}/lastMessage`] = chat.lastMessage;
+            updates[`chats/${chatId}/lastMessageTime`] = chat.lastMessageTime;
+          }
+
+          const summaryStale = !!summary && (summary.lastMessageTime || 0) < (chat.lastMessageTime || 0);
+          if (!summary) {
+            updates[`userChats/${uid}/${chatId}`] = chatSummaryFor(chat, uid, chat.unreadCounts?.[uid] || 0);
+            report.rebuiltSummaries++;
+          } else if (summaryStale) {
+            updates[`userChats/${uid}/${chatId}/lastMessage`] = chat.lastMessage || '';
+            updates[`userChats/${uid}/${chatId}/lastMessageTime`] = chat.lastMessageTime;
+          }
+          if (chatStale || summaryStale) report.refreshedPreviews++;
+          missing.forEach((member) => {
+            updates[`userChats/${member}/${chatId}`] = chatSummaryFor(chat, member, chat.unreadCounts?.[member] || 0);
+            report.addedEntries++;
+          });
+        })
+      );
+
+      if (Object.keys(updates).length) {
+        await withRetry(() => update(ref(db), updates));
+      }
+      return report;
+    },
+  },
+
+  messages: {
+    subscribe: (chatId, limit, listeners) => {
+      const messagesRef = ref(database(), `chats/${chatId}/messages`);
+      const unsubscribes: Unsubscribe[] = [];
+      let active = true;
+
+      // The latest page once, then child events from its oldest message on. That window only
+      // grows, so a removal is a real one rather than a message sliding out of a limitToLast.
+      const pageQuery = query(messagesRef, orderByChild('timestamp'), limitToLast(limit));
+      unsubscribes.push(
+        onValue(
+          pageQuery,
+          (snapshot) => {
+            if (!active) return;
+
+            const page = toMessageList(snapshot);
+            listeners.onInitial(page);
+
+            const oldest = page[0];
+            const liveQuery = oldest
+              ? query(messagesRef, orderByChild('timestamp'), startAt(oldest.timestamp, oldest.id))
+              : query(messagesRef, orderByChild('timestamp'));
+            // child_added first replays the page just delivered
+            const delivered = new Set(page.map((message) => message.id));
+            unsubscribes.push(
+              onChildAdded(liveQuery, (child) => {
+                if (delivered.delete(child.key!)) return;
+                listeners.onAdded(toMessage(child));
+              }),
+              onChildChanged(liveQuery, (child) => listeners.onChanged(toMessage(child))),
+              onChildRemoved(liveQuery, (child) => listeners.onRemoved(child.key!))
+            );
+          },
+          { onlyOnce: true }
+        )
+      );
+
+      return () => {
+        active = false;
+        unsubscribes.forEach((unsubscribe) => unsubscribe());
+      };
+    },
+
+    fetchBefore: async (chatId, cursor, limit) => {
+      const olderQuery = query(
+        ref(database(), `chats/${chatId}/messages`),
+        orderByChild('timestamp'),
+        endBefore(cursor.timestamp, cursor.id),
+        limitToLast(limit)
+      );
+
+      return toMessageList(await get(olderQuery));
+    },
+
+    createId: (chatId) => push(ref(database(), `chats/${chatId}/messages`)).key!,
+
+    send: async (chatId, message, recipientIds, id) => {
+      const db = database();
+      const messageId = id || push(ref(db, `chats/${chatId}/messages`)).key!;
+
+      // The message, the previews and the unread counts change together; the id is fixed up
+      // front so a retry rewrites the same message instead of adding another
+      await withRetry(() =>
+        update(ref(db), {
+          ...atPath(`chats/${chatId}`, { [`messages/${messageId}`]: message, ...sentMessageChatFields(message) }),
+          ...sentMessageSummaryFields(chatId, message, recipientIds, () => increment(1)),
+        })
+      );
+
+      return messageId;
+    },
+
+    edit: async (chatId, messageId, changes, previous, updatePreview) => {
+      const db = database();
+      const messagePath = `chats/${chatId}/messages/${messageId}`;
+      const revisionKey = push(ref(db, `${messagePath}/edits`)).key!;
+
+      // One multi-path write so the new text, its history and the previews never disagree
+      await update(ref(db), {
+        ...Object.fromEntries(
+          Object.entries(changes).map(([field, value]) => [`${messagePath}/${field}`, value ?? null])
+        ),
+        [`${messagePath}/edits/${revisionKey}`]: previous,
+        ...(updatePreview ? previewFields(chatId, await getMembers(chatId), messagePreview(changes)) : {}),
+      });
+    },
+
+    setReaction: async (chatId, messageId, emoji, uid, reacted) => {
+      await set(ref(database(), `chats/${chatId}/messages/${messageId}/reactions/${emoji}/${uid}`), reacted || null);
+    },
+
+    markDeleted: async (chatId, messageId, updatePreview) => {
+      const db = database();
+      const fields = deletedMessageFields(Date.now());
+      // Replies carry a copy of its text in their quote, which goes too
+      const replies = await get(
+        query(ref(db, `chats/${chatId}/messages`), orderByChild('replyTo/messageId'), equalTo(messageId))
+      );
+      const replyIds: string[] = [];
+      replies.forEach((child) => {
+        replyIds.push(child.key!);
+      });
+      await update(ref(db), {
+        ...atPath(`chats/${chatId}/messages/${messageId}`, fields),
+        ...deletedReplyFields(chatId, replyIds),
+        ...(updatePreview ? previewFields(chatId, await getMembers(chatId), DELETED_MESSAGE_TEXT) : {}),
+      });
+    },
+
+    subscribeHidden: (uid, chatId, callback) =>
+      onValue(ref(database(), `userHiddenMessages/${uid}/${chatId}`), (snapshot) => callback(snapshot.val() || {})),
+
+    getHidden: async (uid, chatId) => {
+      const snapshot = await get(ref(database(), `userHiddenMessages/${uid}/${chatId}`));
+      return snapshot.val() || {};
+    },
+
+    setHidden: async (uid, chatId, messageId, hidden) => {
+      await set(ref(database(), `userHiddenMessages/${uid}/${chatId}/${messageId}`), hidden || null);
+    },
+  },
+
+  typing: {
+    subscribe: (chatId, callback) =>
+      onValue(ref(database(), `chats/${chatId}/typing`), (snapshot) => callback(snapshot.val() || {})),
+
+    set: async (chatId, uid, typing) => {
+      await set(ref(database(), `chats/${chatId}/typing/${uid}`), typing);
+    },
+  },
+
+  presence: {
+    connect: (uid, options) => {
+      const db = database();
+      const connectionRef = push(ref(db, `presence/${uid}/connections`));
+      const lastSeenRef = ref(db, `presence/${uid}/lastSeen`);
+      let state: 'active' | 'idle' = 'active';
+      let shareLastSeen = options.shareLastSeen;
+
+      // Re-register after every reconnect: the server already ran the onDisconnect writes
+      const connectedRef = ref(db, '.info/connected');
+      const handleConnected = async (snapshot: DataSnapshot) => {
+        if (snapshot.val() !== true) return;
+        try {
+          await onDisconnect(connectionRef).remove();
+          await onDisconnect(lastSeenRef).set(shareLastSeen ? serverTimestamp() : null);
+          await set(connectionRef, { state, since: serverTimestamp() });
+        } catch (error) {
+          // E.g. the rules refusing the writes while signing out; the next reconnect tries again
+          console.error('Registering presence failed:', error);
+        }
+      };
+      onValue(connectedRef, handleConnected);
+
+      return {
+        setIdle: async (idle) => {
+          state = idle ? 'idle' : 'active';
+          await set(connectionRef, { state, since: serverTimestamp() });
+        },
+
+        setShareLastSeen: async (share) => {
+          shareLastSeen = share;
+          await onDisconnect(lastSeenRef).set(share ? serverTimestamp() : null);
+          if (!share) await set(lastSeenRef, null);
+        },
+
+        disconnect: async () => {
+          off(connectedRef, 'value', handleConnected);
+          await onDisconnect(connectionRef).cancel();
+          await onDisconnect(lastSeenRef).cancel();
+          await update(ref(db), {
+            [`presence/${uid}/connections/${connectionRef.key}`]: null,
+            [`presence/${uid}/lastSeen`]: shareLastSeen ? serverTimestamp() : null,
+          });
+        },
+      };
+    },
+
+    subscribe: (uid, callback) => {
+      // Several views watch the same person, so only this callback is detached
+      return onValue(ref(database(), `presence/${uid}`), (snapshot) => callback(toUserPresence(snapshot.val())));
+    },
+  },
+
+  calls: {
+    subscribe: (chatId, callback) =>
+      onValue(ref(database(), `calls/${chatId}`), (snapshot) => {
+        const { candidates: _candidates, ...call } = snapshot.val() || {};
+        callback(snapshot.exists() ? (call as CallSession) : null);
+      }),
+
+    subscribeInvite: (uid, callback) =>
+      onValue(ref(database(), `callInvites/${uid}`), (snapshot) => callback(snapshot.val())),
+
+    start: async (chatId, call) => {
+      const db = database();
+      const { id, callerId, callerName, media, createdAt } = call;
+      await update(ref(db), {
+        [`calls/${chatId}`]: call,
+        [`callInvites/${call.calleeId}`]: { id, callerId, callerName, media, createdAt, chatId },
+      });
+
+      // A caller who drops off mid-ring or mid-call ends it for the other side. If that can't be
+      // arranged the start fails, so the caller tears the call down rather than leave it ringing.
+      await Promise.all([
+        onDisconnect(ref(db, `calls/${chatId}/status`)).set('ended'),
+        onDisconnect(ref(db, `callInvites/${call.calleeId}`)).remove(),
+      ]);
+    },
+
+    update: async (chatId, changes) => {
+      await update(ref(database(), `calls/${chatId}`), changes);
+    },
+
+    clear: async (chatId, calleeId) => {
+      const db = database();
+      await onDisconnect(ref(db, `calls/${chatId}/status`)).cancel();
+      await update(ref(db), { [`calls/${chatId}`]: null, [`callInvites/${calleeId}`]: null });
+    },
+
+    addCandidate: async (chatId, uid, candidate) => {
+      await push(ref(database(), `calls/${chatId}/candidates/${uid}`), candidate);
+    },
+
+    subscribeCandidates: (chatId, uid, callback) =>
+      onChildAdded(ref(database(), `calls/${chatId}/candidates/${uid}`), (snapshot) => callback(snapshot.val())),
+  },
+
+  storage: {
+    upload: (path, file, onProgress) =>
+      new Promise((resolve, reject) => {
+        const fileRef = storageRef(getFirebaseStorage(), path);
+        const task = uploadBytesResumable(fileRef, file, { contentType: file.type || undefined });
+
+        task.on(
+          'state_changed',
+          (snapshot) => onProgress?.(snapshot.totalBytes ? snapshot.bytesTransferred / snapshot.totalBytes : 0),
+          reject,
+          () => getDownloadURL(fileRef).then(resolve, reject)
+        );
+      }),
+
+    remove: async (path) => {
+      try {
+        await deleteObject(storageRef(getFirebaseStorage(), path));
+      } catch (error) {
+        // Already gone is as good as removed
+        if ((error as { code?: string })?.code !== 'storage/object-not-found') throw error;
+      }
+    },
+  },
+
+  usage: {
+    setTodayUsage: async (uid, minutes) => {
+      await set(ref(database(), `users/${uid}/todayUsage`), minutes);
+    },
+
+    setTodayCallUsage: async (uid, minutes) => {
+      await set(ref(database(), `users/${uid}/todayCallUsage`), minutes);
+    },
+  },
+
+  connection: {
+    subscribe: (callback) =>
+      onValue(ref(database(), '.info/connected'), (snapshot) => callback(snapshot.val() === true)),
+  },
+});
@@ -0,0 +1,21 @@
+import { isFirebaseConfigured } from '@/lib/firebase';
+import { createFirebaseBackend } from './firebase';
+import { createLocalBackend } from './local';
+import type { ChatBackend } from './types';
+
+export * from './types';
+
+let backend: ChatBackend | null = null;
+
+// Firebase when VITE_FIREBASE_* values are present, otherwise the offline local backend
+export const getChatBackend = (): ChatBackend => {
+  if (!backend) {
+    backend = isFirebaseConfigured() ? createFirebaseBackend() : createLocalBackend();
+  }
+  return backend;
+};
+
+// Lets tests and demos swap in a preconfigured backend before the app renders
+export const setChatBackend = (next: ChatBackend | null) => {
+  backend = next;
+};
@@ -0,0 +1,513 @@
+// Offline backend used when Firebase is not configured. Mirrors the realtime database
+// layout on top of the local store so demos and automated tests run without a project.
+
+import { createLocalStore, generatePushId, type LocalStore } from './localStore';
+import {
+  compareMessages,
+  deletedMessageFields,
+  deletedReplyFields,
+  DELETED_MESSAGE_TEXT,
+  messagePreview,
+  chatWithFirstMessage,
+  chatSummaryFor,
+  isChatSummary,
+  newChatSummaryFields,
+  previewFields,
+  sentMessageChatFields,
+  sentMessageSummaryFields,
+  atPath,
+  toUserPresence,
+  type BackendUser,
+  type CallInvite,
+  type CallSession,
+  type Chat,
+  type ChatBackend,
+  type ChatRepairReport,
+  type IceCandidate,
+  type DirectoryEntry,
+  type Message,
+  type UserProfile,
+} from './types';
+
+interface LocalAccount extends BackendUser {
+  passwordHash: string;
+}
+
+const DB_NAME = 'serene-local';
+
+const emailKey = (email: string) => email.trim().toLowerCase();
+
+const hashPassword = async (password: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(password));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+const toSortedMessages = (data: Record<string, Omit<Message, 'id'>> | null): Message[] =>
+  Object.entries(data || {})
+    .map(([id, msg]) => ({ id, ...msg }))
+    .sort(compareMessages);
+
+const toBackendUser = ({ passwordHash, ...user }: LocalAccount): BackendUser => user;
+
+// A chat node as stored, history included
+type LocalChat = Omit<Chat, 'id'> & {
+  messages?: Record<string, Omit<Message, 'id'>>;
+  typing?: Record<string, boolean>;
+};
+
+const getMembers = async (store: LocalStore, chatId: string): Promise<string[]> =>
+  (await store.get(`chats/${chatId}/participants`)) || [];
+
+const findAccount = async (store: LocalStore, email: string) => {
+  const accounts: Record<string, LocalAccount> = (await store.get('auth/accounts')) || {};
+  return Object.values(accounts).find((account) => emailKey(account.email || '') === emailKey(email)) || null;
+};
+
+export const createLocalBackend = (store: LocalStore = createLocalStore(DB_NAME)): ChatBackend => ({
+  kind: 'local',
+
+  initialize: () => {},
+
+  auth: {
+    onAuthStateChanged: (callback) => {
+      let currentUid: string | null | undefined;
+      let active = true;
+
+      const unsubscribe = store.subscribe('auth/session', async (uid: string | null) => {
+        if (uid === currentUid) return;
+        currentUid = uid;
+        const account: LocalAccount | null = uid ? await store.get(`auth/accounts/${uid}`) : null;
+        if (active && uid === currentUid) {
+          callback(account ? toBackendUser(account) : null);
+        }
+      });
+
+      return () => {
+        active = false;
+        unsubscribe();
+      };
+    },
+
+    signUp: async (email, password, displayName) => {
+      if (await findAccount(store, email)) {
+        throw new Error('An account with this email already exists.');
+      }
+
+      const uid = `local-${crypto.randomUUID()}`;
+      const account: LocalAccount = {
+        uid,
+        email: email.trim(),
+        displayName,
+        photoURL: null,
+        passwordHash: await hashPassword(password),
+      };
+
+      await store.update({
+        [`auth/accounts/${uid}`]: account,
+        'auth/session': uid,
+      });
+
+      return toBackendUser(account);
+    },
+
+    signIn: async (email, password) => {
+      const account = await findAccount(store, email);
+      if (!account || account.passwordHash !== (await hashPassword(password))) {
+        throw new Error('Invalid email or password.');
+      }
+
+      await store.set('auth/session', account.uid);
+      return toBackendUser(account);
+    },
+
+    signInWithGoogle: async () => {
+      throw new Error('Google sign-in is not available in offline mode. Use email and password instead.');
+    },
+
+    signOut: async () => {
+      await store.set('auth/session', null);
+    },
+  },
+
+  users: {
+    getProfile: (uid) => store.get(`users/${uid}`),
+
+    setProfile: (uid, profile) => store.set(`users/${uid}`, profile),
+
+    updateProfile: (uid, data) =>
+      store.update(
+        Object.fromEntries(Object.entries(data).map(([key, value]) => [`users/${uid}/${key}`, value]))
+      ),
+
+    subscribeProfile: (uid, callback) =>
+      store.subscribe(`users/${uid}`, (profile: UserProfile | null) => {
+        if (profile) callback(profile);
+      }),
+  },
+
+  directory: {
+    upsert: (entry) => store.set(`directory/${entry.uid}`, entry),
+
+    get: (uid) => store.get(`directory/${uid}`),
+
+    search: async (term, limit) => {
+      const prefix = term.trim().toLowerCase();
+      if (!prefix) return [];
+
+      const entries: DirectoryEntry[] = Object.values((await store.get('directory')) || {});
+      return entries
+        .filter(
+          (entry) =>
+            entry.displayName.toLowerCase().startsWith(prefix) ||
+            (entry.email || '').toLowerCase().startsWith(prefix)
+        )
+        .slice(0, limit);
+    },
+  },
+
+  chats: {
+    subscribeUserChats: (uid, callback) =>
+      store.subscribe(`userChats/${uid}`, (data: Record<string, unknown> | null) => {
+        callback(
+          Object.entries(data || {}).flatMap(([chatId, entry]) => (isChatSummary(entry) ? [{ id: chatId, ...entry }] : []))
+        );
+      }),
+
+    subscribe: (chatId, callback) => {
+      let previous: Chat | null = null;
+
+      return store.subscribe(`chats/${chatId}`, (data: LocalChat | null) => {
+        if (!data?.participants) {
+          previous = null;
+          callback(null);
+          return;
+        }
+
+        const { messages: _messages, typing: _typing, ...record } = data;
+        const chat: Chat = { ...record, id: chatId };
+        // Every new message rewrites the chat node, but the record only changes with its fields
+        const fields = Object.keys({ ...chat, ...previous }) as (keyof Chat)[];
+        if (previous && fields.every((field) => chat[field] === previous?.[field])) return;
+        previous = chat;
+        callback(chat);
+      });
+    },
+
+    create: async (chat, firstMessage) => {
+      const chatId = generatePushId();
+      const record = firstMessage ? chatWithFirstMessage(chat, generatePushId(), firstMessage) : chat;
+      await store.update({
+        [`chats/${chatId}`]: record,
+        ...newChatSummaryFields(chatId, record, firstMessage),
+      });
+      return chatId;
+    },
+
+    updateMembership: async (chatId, membership, { added, removed }) => {
+      const chat: LocalChat | null = added.length ? await store.get(`chats/${chatId}`) : null;
+      await store.update({
+        [`chats/${chatId}/participants`]: membership.participants,
+        [`chats/${chatId}/participantNames`]: membership.participantNames,
+        [`chats/${chatId}/admins`]: membership.admins ?? null,
+        ...Object.fromEntries(
+          membership.participants
+            .filter((uid) => !added.includes(uid))
+            .map((uid) => [`userChats/${uid}/${chatId}/participantNames`, membership.participantNames])
+        ),
+        ...Object.fromEntries(
+          added.map((uid) => [
+            `userChats/${uid}/${chatId}`,
+            chatSummaryFor({ ...chat, ...membership, isGroup: true }, uid, 0),
+          ])
+        ),
+        ...Object.fromEntries(removed.map((uid) => [`userChats/${uid}/${chatId}`, null])),
+      });
+    },
+
+    rename: async (chatId, groupName) => {
+      const members = await getMembers(store, chatId);
+      await store.update({
+        [`chats/${chatId}/groupName`]: groupName,
+        ...Object.fromEntries(members.map((uid) => [`userChats/${uid}/${chatId}/groupName`, groupName])),
+      });
+    },
+
+    markRead: (chatId, uid, timestamp) =>
+      store.update({
+        [`chats/${chatId}/lastReadAt/${uid}`]: timestamp,
+        [`chats/${chatId}/lastDeliveredAt/${uid}`]: timestamp,
+        ...atPath(`userChats/${uid}/${chatId}`, { unreadCount: 0, deliveredAt: timestamp }),
+      }),
+
+    markDelivered: (chatId, uid, timestamp) =>
+      store.update({
+        [`chats/${chatId}/lastDeliveredAt/${uid}`]: timestamp,
+        [`userChats/${uid}/${chatId}/deliveredAt`]: timestamp,
+      }),
+
+    setPreferences: (chatId, uid, preferences) =>
+      store.update(
+        Object.fromEntries(
+          Object.entries(preferences).map(([field, value]) => [`userChats/${uid}/${chatId}/${field}`, value || null])
+        )
+      ),
+
+    repair: async (uid) => {
+      const report: ChatRepairReport = { removedEntries: 0, addedEntries: 0, rebuiltSummaries: 0, refreshedPreviews: 0 };
+      const updates: Record<string, unknown> = {};
+      const listed: Record<string, unknown> = (await store.get(`userChats/${uid}`)) || {};
+      const userChats: Record<string, Record<string, unknown>> = (await store.get('userChats')) || {};
+
+      for (const [chatId, entry] of Object.entries(listed)) {
+        const chat: LocalChat | null = await store.get(`chats/${chatId}`);
+        if (!chat?.participants?.includes(uid)) {
+          updates[`userChats/${uid}/${chatId}`] = null;
+          report.removedEntries++;
+          continue;
+        }
+
+        const latest = toSortedMessages(chat.messages || null).pop();
+        const chatStale = !!latest && latest.timestamp > (chat.lastMessageTime || 0);
+        if (latest && chatStale) {
+          chat.lastMessage = latest.isDeleted ? DELETED_MESSAGE_TEXT : messagePreview(latest);
+          chat.lastMessageTime = latest.timestamp;
+          updates[`chats/${chatId}/lastMessage`] = chat.lastMessage;
+          updates[`chats/${chatId}/lastMessageTime`] = chat.lastMessageTime;
+        }
+
+        const summary = isChatSummary(entry) ? entry : null;
+        const summaryStale = !!summary && (summary.lastMessageTime || 0) < (chat.lastMessageTime || 0);
+        if (!summary) {
+          updates[`userChats/${uid}/${chatId}`] = chatSummaryFor(chat, uid, chat.unreadCounts?.[uid] || 0);
+          report.rebuiltSummaries++;
+        } else if (summaryStale) {
+          updates[`userChats/${uid}/${chatId}/lastMessage`] = chat.lastMessage || '';
+          updates[`userChats/${uid}/${chatId}/lastMessageTime`] = chat.lastMessageTime;
+        }
+        if (chatStale || summaryStale) report.refreshedPreviews++;
+
+        chat.participants
+          .filter((member) => !userChats[member]?.[chatId])
+          .forEach((member) => {
+            updates[`userChats/${member}/${chatId}`] = chatSummaryFor(chat, member, chat.unreadCounts?.[member] || 0);
+            report.addedEntries++;
+          });
+      }
+
+      if (Object.keys(updates).length) await store.update(updates);
+      return report;
+    },
+  },
+
+  messages: {
+    subscribe: (chatId, limit, listeners) => {
+      // The latest page, then changes from its oldest message on, found by comparing each
+      // emitted tree with the last: the store copies only the nodes a write touched
+      let previous: Record<string, Omit<Message, 'id'>> | null = null;
+      let oldest: Message | undefined;
+      const inWindow = (message: Message) => !oldest || compareMessages(message, oldest) >= 0;
+
+      return store.subscribe<Record<string, Omit<Message, 'id'>>>(`chats/${chatId}/messages`, (data) => {
+        const current: Record<string, Omit<Message, 'id'>> = data || {};
+        if (!previous) {
+          const page = toSortedMessages(data).slice(-limit);
+          oldest = page[0];
+          listeners.onInitial(page);
+        } else {
+          const before = previous;
+          Object.entries(current).forEach(([id, value]) => {
+            const message = { id, ...value };
+            if (before[id] === value || !inWindow(message)) return;
+            if (before[id]) listeners.onChanged(message);
+            else listeners.onAdded(message);
+          });
+          Object.entries(before).forEach(([id, value]) => {
+            if (!current[id] && inWindow({ id, ...value })) listeners.onRemoved(id);
+          });
+        }
+        previous = current;
+      });
+    },
+
+    fetchBefore: async (chatId, cursor, limit) => {
+      const messageList = toSortedMessages(await store.get(`chats/${chatId}/messages`));
+      return messageList.filter((message) => compareMessages(message, cursor) < 0).slice(-limit);
+    },
+
+    createId: () => generatePushId(),
+
+    send: async (chatId, message, recipientIds, messageId = generatePushId()) => {
+      const unreadCounts: Record<string, number | null> = Object.fromEntries(
+        await Promise.all(recipientIds.map(async (uid) => [uid, await store.get(`userChats/${uid}/${chatId}/unreadCount`)]))
+      );
+      await store.update({
+        ...atPath(`chats/${chatId}`, { [`messages/${messageId}`]: message, ...sentMessageChatFields(message) }),
+        ...sentMessageSummaryFields(chatId, message, recipientIds, (uid) => (unreadCounts[uid] || 0) + 1),
+      });
+      return messageId;
+    },
+
+    edit: async (chatId, messageId, changes, previous, updatePreview) => {
+      const messagePath = `chats/${chatId}/messages/${messageId}`;
+      await store.update({
+        ...Object.fromEntries(
+          Object.entries(changes).map(([field, value]) => [`${messagePath}/${field}`, value ?? null])
+        ),
+        [`${messagePath}/edits/${generatePushId()}`]: previous,
+        ...(updatePreview
+          ? previewFields(chatId, await getMembers(store, chatId), messagePreview(changes))
+          : {}),
+      });
+    },
+
+    setReaction: (chatId, messageId, emoji, uid, reacted) =>
+      store.set(`chats/${chatId}/messages/${messageId}/reactions/${emoji}/${uid}`, reacted || null),
+
+    markDeleted: async (chatId, messageId, updatePreview) => {
+      const fields = deletedMessageFields(Date.now());
+      // Replies carry a copy of its text in their quote, which goes too
+      const messages = (await store.get<Record<string, Omit<Message, 'id'>>>(`chats/${chatId}/messages`)) || {};
+      const replies = Object.keys(messages).filter((id) => messages[id].replyTo?.messageId === messageId);
+      await store.update({
+        ...atPath(`chats/${chatId}/messages/${messageId}`, fields),
+        ...deletedReplyFields(chatId, replies),
+        ...(updatePreview ? previewFields(chatId, await getMembers(store, chatId), DELETED_MESSAGE_TEXT) : {}),
+      });
+    },
+
+    subscribeHidden: (uid, chatId, callback) =>
+      store.subscribe<Record<string, boolean>>(`userHiddenMessages/${uid}/${chatId}`, (data) => callback(data || {})),
+
+    getHidden: async (uid, chatId) => (await store.get<Record<string, boolean>>(`userHiddenMessages/${uid}/${chatId}`)) || {},
+
+    setHidden: (uid, chatId, messageId, hidden) =>
+      store.set(`userHiddenMessages/${uid}/${chatId}/${messageId}`, hidden || null),
+  },
+
+  typing: {
+    subscribe: (chatId, callback) =>
+      store.subscribe<Record<string, boolean>>(`chats/${chatId}/typing`, (data) => callback(data || {})),
+
+    set: (chatId, uid, typing) => store.set(`chats/${chatId}/typing/${uid}`, typing),
+  },
+
+  // The local store lives in a single tab, so there is no server to notice a dropped
+  // connection: leftovers from a closed tab are cleared on connect and the tab removes its own
+  // connection when it is closed
+  presence: {
+    connect: (uid, options) => {
+      const connectionPath = `presence/${uid}/connections/${generatePushId()}`;
+      let shareLastSeen = options.shareLastSeen;
+
+      const goOffline = () =>
+        store.update({
+          [connectionPath]: null,
+          [`presence/${uid}/lastSeen`]: shareLastSeen ? Date.now() : null,
+        });
+      window.addEventListener('pagehide', goOffline);
+      store.update({
+        [`presence/${uid}/connections`]: null,
+        [connectionPath]: { state: 'active', since: Date.now() },
+      });
+
+      return {
+        setIdle: (idle) => store.set(connectionPath, { state: idle ? 'idle' : 'active', since: Date.now() }),
+
+        setShareLastSeen: async (share) => {
+          shareLastSeen = share;
+          if (!share) await store.set(`presence/${uid}/lastSeen`, null);
+        },
+
+        disconnect: async () => {
+          window.removeEventListener('pagehide', goOffline);
+          await goOffline();
+        },
+      };
+    },
+
+    subscribe: (uid, callback) =>
+      store.subscribe(`presence/${uid}`, (data) => callback(toUserPresence(data))),
+  },
+
+  // Both sides of a call share this store only within one browser profile, so local calls are
+  // for trying the flow out rather than reaching another device
+  calls: {
+    subscribe: (chatId, callback) =>
+      store.subscribe<CallSession & { candidates?: unknown }>(`calls/${chatId}`, (data) => {
+        const { candidates: _candidates, ...call } = data || {};
+        callback(data ? (call as CallSession) : null);
+      }),
+
+    subscribeInvite: (uid, callback) => store.subscribe<CallInvite>(`callInvites/${uid}`, (data) => callback(data)),
+
+    start: (chatId, call) => {
+      const { id, callerId, callerName, media, createdAt } = call;
+      return store.update({
+        [`calls/${chatId}`]: call,
+        [`callInvites/${call.calleeId}`]: { id, callerId, callerName, media, createdAt, chatId },
+      });
+    },
+
+    update: (chatId, changes) =>
+      store.update(
+        Object.fromEntries(Object.entries(changes).map(([field, value]) => [`calls/${chatId}/${field}`, value]))
+      ),
+
+    clear: (chatId, calleeId) => store.update({ [`calls/${chatId}`]: null, [`callInvites/${calleeId}`]: null }),
+
+    addCandidate: async (chatId, uid, candidate) => {
+      await store.push(`calls/${chatId}/candidates/${uid}`, candidate);
+    },
+
+    subscribeCandidates: (chatId, uid, callback) => {
+      const seen = new Set<string>();
+      return store.subscribe(`calls/${chatId}/candidates/${uid}`, (data) => {
+        Object.entries(data || {}).forEach(([key, candidate]) => {
+          if (seen.has(key)) return;
+          seen.add(key);
+          callback(candidate as IceCandidate);
+        });
+      });
+    },
+  },
+
+  // Files are kept inline as data URLs inside the message, so there is nothing separate to remove
+  storage: {
+    upload: (_path, file, onProgress) =>
+      new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onprogress = (event) => {
+          if (event.lengthComputable) onProgress?.(event.loaded / event.total);
+        };
+        reader.onload = () => {
+          onProgress?.(1);
+          resolve(reader.result as string);
+        };
+        reader.onerror = () => reject(reader.error ?? new Error('Could not read the file'));
+        reader.readAsDataURL(file);
+      }),
+
+    remove: async () => {},
+  },
+
+  usage: {
+    setTodayUsage: (uid, minutes) => store.set(`users/${uid}/todayUsage`, minutes),
+    setTodayCallUsage: (uid, minutes) => store.set(`users/${uid}/todayCallUsage`, minutes),
+  },
+
+  // Nothing leaves the device, but the browser's online state lets the outbox be tried offline
+  connection: {
+    subscribe: (callback) => {
+      const handleChange = () => callback(navigator.onLine);
+      handleChange();
+      window.addEventListener('online', handleChange);
+      window.addEventListener('offline', handleChange);
+      return () => {
+        window.removeEventListener('online', handleChange);
+        window.removeEventListener('offline', handleChange);
+      };
+    },
+  },
+});
@@ -0,0 +1,169 @@
+// A tiny realtime-database look-alike kept in memory and persisted to IndexedDB.
+// Values live in one JSON tree addressed by slash-separated paths, and listeners
+// are notified whenever a write touches their path (above or below it).
+
+import { createKeyValueStore } from '@/lib/idb';
+import type { Unsubscribe } from './types';
+
+// Anything JSON can hold; arrays are stored as they are and read back whole
+export type TreeValue = string | number | boolean | null | TreeNode | TreeValue[];
+interface TreeNode {
+  [key: string]: TreeValue;
+}
+
+type Listener = {
+  path: string[];
+  callback: (value: TreeValue) => void;
+};
+
+const isNode = (value: TreeValue): value is TreeNode => value !== null && typeof value === 'object';
+
+const ROOT_KEY = 'root';
+const PERSIST_DELAY = 200;
+
+const splitPath = (path: string) => path.split('/').filter(Boolean);
+
+const overlaps = (a: string[], b: string[]) => {
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+};
+
+const getAt = (root: TreeValue, segments: string[]): TreeValue => {
+  let node = root;
+  for (const segment of segments) {
+    if (!isNode(node)) return null;
+    node = node[segment];
+    if (node === undefined) return null;
+  }
+  return node ?? null;
+};
+
+// Returns a new tree with `value` written at `segments`, copying only the nodes along
+// the path so previously emitted values are never mutated. Null removes the node and
+// prunes parents left empty, matching realtime database semantics.
+const setAt = (node: TreeValue, segments: string[], value: TreeValue): TreeValue => {
+  if (segments.length === 0) return value ?? null;
+
+  const [head, ...rest] = segments;
+  const current: TreeNode = isNode(node) ? node : {};
+  const child = setAt(current[head] ?? null, rest, value);
+  const next: TreeNode = { ...current };
+
+  if (child === null) {
+    delete next[head];
+  } else {
+    next[head] = child;
+  }
+
+  return Object.keys(next).length ? next : null;
+};
+
+// Sortable, collision-resistant keys in the spirit of Firebase push ids
+let lastPushTime = 0;
+let pushCounter = 0;
+export const generatePushId = () => {
+  const now = Date.now();
+  pushCounter = now === lastPushTime ? pushCounter + 1 : 0;
+  lastPushTime = now;
+  const random = Math.random().toString(36).slice(2, 8);
+  return `${now.toString(36).padStart(9, '0')}${pushCounter.toString(36).padStart(3, '0')}${random}`;
+};
+
+export const createLocalStore = (dbName: string) => {
+  const persistence = createKeyValueStore(dbName);
+  const listeners = new Set<Listener>();
+  let root: TreeValue = null;
+  let persistTimeout: ReturnType<typeof setTimeout> | null = null;
+
+  const ready = persistence
+    .get<TreeValue>(ROOT_KEY)
+    .then((saved) => {
+      if (saved) root = saved;
+    })
+    .catch((err) => {
+      console.error('Failed to load local data:', err);
+    });
+
+  const schedulePersist = () => {
+    if (persistTimeout) clearTimeout(persistTimeout);
+    persistTimeout = setTimeout(() => {
+      persistTimeout = null;
+      persistence.set(ROOT_KEY, root).catch((err) => {
+        console.error('Failed to persist local data:', err);
+      });
+    }, PERSIST_DELAY);
+  };
+
+  const emit = (listener: Listener) => {
+    queueMicrotask(() => {
+      if (listeners.has(listener)) {
+        listener.callback(getAt(root, listener.path));
+      }
+    });
+  };
+
+  const notify = (changedPaths: string[][]) => {
+    listeners.forEach((listener) => {
+      if (changedPaths.some((path) => overlaps(path, listener.path))) {
+        emit(listener);
+      }
+    });
+  };
+
+  // Reads come back as what was written there; callers say what that is
+  const get = async <T>(path: string): Promise<T | null> => {
+    await ready;
+    return getAt(root, splitPath(path)) as T | null;
+  };
+
+  // Writes take the caller's records as they are; their shape is not checked here
+  const set = async (path: string, value: unknown) => {
+    await ready;
+    const segments = splitPath(path);
+    root = setAt(root, segments, value as TreeValue);
+    schedulePersist();
+    notify([segments]);
+  };
+
+  // Applies several path writes at once; listeners see only the final state
+  const update = async (updates: Record<string, unknown>) => {
+    await ready;
+    const changedPaths = Object.keys(updates).map(splitPath);
+    Object.entries(updates).forEach(([path, value]) => {
+      root = setAt(root, splitPath(path), value as TreeValue);
+    });
+    schedulePersist();
+    notify(changedPaths);
+  };
+
+  const push = async (path: string, value: unknown) => {
+    const key = generatePushId();
+    await set(`${path}/${key}`, value);
+    return key;
+  };
+
+  const subscribe = <T>(path: string, callback: (value: T | null) => void): Unsubscribe => {
+    const listener: Listener = { path: splitPath(path), callback: (value) => callback(value as T | null) };
+    listeners.add(listener);
+    ready.then(() => emit(listener));
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  // Listeners still attached, on exactly `path` or anywhere; lets tests catch subscriptions
+  // that outlive the code that made them
+  const listenerCount = (path?: string) => {
+    if (path === undefined) return listeners.size;
+
+    const key = splitPath(path).join('/');
+    return Array.from(listeners).filter((listener) => listener.path.join('/') === key).length;
+  };
+
+  return { ready, get, set, update, push, subscribe, listenerCount };
+};
+
+export type LocalStore = ReturnType<typeof createLocalStore>;
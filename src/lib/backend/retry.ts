@@ -0,0 +1,25 @@
+// Retries writes the database rejected for transient reasons (a dropped connection, an
+// overloaded server). Multi-path writes are all-or-nothing, so running one again is safe.
+
+const RETRY_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 500;
+
+// Rejections that will fail the same way every time
+export const isPermanent = (error: unknown) => {
+  const { code, message } = (error || {}) as { code?: string; message?: string };
+  return /permission|invalid|denied/i.test(`${code || ''} ${message || ''}`);
+};
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export const withRetry = async <T>(operation: () => Promise<T>): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= RETRY_ATTEMPTS || isPermanent(error)) throw error;
+      // 500ms, 1s, ... with jitter so clients that lost the same connection don't retry in step
+      await wait(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1) * (0.75 + Math.random() * 0.5));
+    }
+  }
+};
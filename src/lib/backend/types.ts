@@ -0,0 +1,517 @@
+// Shared data model and the contract every chat backend implements.
+// Hooks and contexts talk to a ChatBackend instead of a specific database SDK.
+
+export type EmotionLabel = 'neutral' | 'happy' | 'sad' | 'angry' | 'stressed' | 'anxious';
+
+export interface EmotionScore {
+  emotion: Exclude<EmotionLabel, 'neutral'>;
+  intensity: number; // 0..1, how strongly this emotion is expressed
+  share: number; // 0..1, its part of everything detected; shares add up to 1
+}
+
+// Every emotion found in a message, strongest first
+export interface EmotionAnalysis {
+  primary: EmotionLabel;
+  intensity: number;
+  emotions: EmotionScore[];
+}
+
+export interface Message {
+  id: string;
+  // System messages record group events ("Alex added Sam") and call messages a finished call;
+  // absent means a regular text message
+  type?: 'text' | 'system' | 'call';
+  senderId: string;
+  senderName: string;
+  text: string;
+  timestamp: number;
+  emotion?: EmotionLabel; // primary emotion, still written for clients that only read the label
+  emotionAnalysis?: EmotionAnalysis;
+  isToxic?: boolean;
+  isDeleted?: boolean;
+  deletedAt?: number;
+  editedAt?: number;
+  replyTo?: MessageReply;
+  reactions?: Record<string, Record<string, boolean>>; // emoji -> uid -> true
+  // Earlier versions of an edited message, keyed by push id (oldest first)
+  edits?: Record<string, MessageRevision>;
+  // Files sent with the message; the text may be empty when there are attachments
+  attachments?: MessageAttachment[];
+  call?: CallRecord;
+}
+
+export type CallMedia = 'audio' | 'video';
+
+// How a call ended, as recorded in the message stream
+export interface CallRecord {
+  media: CallMedia;
+  outcome: 'completed' | 'missed' | 'declined';
+  duration?: number; // seconds, for completed calls
+}
+
+export type AttachmentKind = 'image' | 'pdf' | 'file' | 'voice';
+
+// File sent with a message; the bytes live in backend storage under `path`
+export interface MessageAttachment {
+  id: string;
+  kind: AttachmentKind;
+  name: string;
+  mimeType: string;
+  size: number; // bytes
+  url: string;
+  path: string;
+  // Small JPEG data URL so images render before the full file has loaded
+  thumbnail?: string;
+  width?: number;
+  height?: number;
+  // Voice messages: length in seconds, peak levels (0..1) for the waveform and what was said
+  duration?: number;
+  waveform?: number[];
+  transcript?: string;
+  // The pre-upload safety check warned about it; Safety Mode keeps it blurred for receivers
+  flagged?: boolean;
+}
+
+// Quoted message a reply answers; the snippet is copied so the quote renders without loading it
+export interface MessageReply {
+  messageId: string;
+  senderId: string;
+  senderName: string;
+  snippet: string;
+  timestamp: number;
+  // The quoted message was deleted for everyone; the snippet has been cleared
+  isDeleted?: boolean;
+}
+
+export interface MessageRevision {
+  text: string;
+  timestamp: number; // when this version was written
+  emotion?: EmotionLabel;
+}
+
+// Fields rewritten when the sender edits a message
+export type MessageEdit = Required<Pick<Message, 'text' | 'editedAt'>> &
+  Pick<Message, 'emotion' | 'emotionAnalysis' | 'isToxic'>;
+
+export interface Chat {
+  id: string;
+  participants: string[];
+  participantNames: Record<string, string>;
+  lastMessage?: string;
+  lastMessageTime?: number;
+  isGroup: boolean;
+  groupName?: string;
+  // Group admins; groups created before roles existed have none and treat everyone as admin
+  admins?: string[];
+  createdBy?: string;
+  createdAt: number;
+  // Written by older clients only; unread counts now live in each member's ChatSummary
+  unreadCounts?: Record<string, number>;
+  // Per-member read state, keyed by uid
+  lastReadAt?: Record<string, number>; // timestamp of the newest message the member has seen
+  lastDeliveredAt?: Record<string, number>; // timestamp of the newest message that reached their device
+  lastSentAt?: Record<string, number>; // when each member last sent a message
+}
+
+export type ChatMembership = Pick<Chat, 'participants' | 'participantNames' | 'admins'>;
+
+// A chat as it appears in one member's chat list, stored at userChats/{uid}/{chatId}. Every
+// write that changes what the list shows updates it too, so the list is one live read.
+export interface ChatSummary {
+  id: string;
+  isGroup: boolean;
+  groupName?: string;
+  // The current members, keyed by uid
+  participantNames: Record<string, string>;
+  lastMessage?: string;
+  lastMessageTime?: number;
+  unreadCount?: number;
+  // Newest message time this member has acknowledged as delivered or read
+  deliveredAt?: number;
+  // The member started the chat or has sent a message in it
+  contacted?: boolean;
+  muted?: boolean;
+  pinned?: boolean;
+}
+
+// The parts of a summary only its member changes
+export type ChatPreferences = Partial<Pick<ChatSummary, 'muted' | 'pinned'>>;
+
+// Shown in place of a message deleted for everyone
+export const DELETED_MESSAGE_TEXT = 'This message was deleted';
+
+// Content fields cleared from a message deleted for everyone
+export const deletedMessageFields = (deletedAt: number) => ({
+  isDeleted: true,
+  deletedAt,
+  text: '',
+  emotion: null,
+  emotionAnalysis: null,
+  edits: null,
+  reactions: null,
+  attachments: null,
+});
+
+const ATTACHMENT_PREVIEW_ICONS: Record<AttachmentKind, string> = { image: '📷', pdf: '📄', file: '📎', voice: '🎤' };
+
+// Chat list preview of a message: its text, or what it carries when the text is empty
+export const messagePreview = (message: Pick<Message, 'text' | 'attachments'>): string => {
+  if (message.text.trim() || !message.attachments?.length) return message.text.substring(0, 50);
+
+  const [first, ...rest] = message.attachments;
+  const label = first.kind === 'image' ? 'Photo' : first.kind === 'voice' ? 'Voice message' : first.name;
+  return `${ATTACHMENT_PREVIEW_ICONS[first.kind]} ${label}${rest.length ? ` +${rest.length}` : ''}`.substring(0, 50);
+};
+
+// Chat fields a newly sent message changes, relative to chats/{chatId}
+export const sentMessageChatFields = (message: Omit<Message, 'id'>) => ({
+  lastMessage: messagePreview(message),
+  lastMessageTime: message.timestamp,
+  [`lastSentAt/${message.senderId}`]: message.timestamp,
+});
+
+// Multi-path update entries writing each of `fields` under `path`
+export const atPath = (path: string, fields: Record<string, unknown>) =>
+  Object.fromEntries(Object.entries(fields).map(([field, value]) => [`${path}/${field}`, value]));
+
+// Clears the quote in every reply to a message deleted for everyone
+export const deletedReplyFields = (chatId: string, replyIds: string[]) => {
+  const fields: Record<string, unknown> = {};
+  replyIds.forEach((id) =>
+    Object.assign(fields, atPath(`chats/${chatId}/messages/${id}/replyTo`, { snippet: '', isDeleted: true }))
+  );
+  return fields;
+};
+
+// Every member's chat list entry after a message is sent: the new preview for all, and one
+// more unread message for each recipient. `unreadCount` gives the value written for a recipient.
+export const sentMessageSummaryFields = (
+  chatId: string,
+  message: Omit<Message, 'id'>,
+  recipientIds: string[],
+  unreadCount: (uid: string) => unknown
+) => {
+  const preview = { lastMessage: messagePreview(message), lastMessageTime: message.timestamp };
+  const fields = atPath(`userChats/${message.senderId}/${chatId}`, {
+    ...preview,
+    deliveredAt: message.timestamp,
+    contacted: true,
+  });
+  recipientIds.forEach((uid) =>
+    Object.assign(fields, atPath(`userChats/${uid}/${chatId}`, { ...preview, unreadCount: unreadCount(uid) }))
+  );
+  return fields;
+};
+
+// A changed last message preview, on the chat and in every member's chat list
+export const previewFields = (chatId: string, memberIds: string[], lastMessage: string) => ({
+  [`chats/${chatId}/lastMessage`]: lastMessage,
+  ...Object.fromEntries(memberIds.map((uid) => [`userChats/${uid}/${chatId}/lastMessage`, lastMessage])),
+});
+
+// A member's chat list entry made from the chat record, for new chats, new members and entries
+// being rebuilt. Fields the chat doesn't have are left out rather than written as undefined.
+export const chatSummaryFor = (
+  chat: Pick<Chat, 'isGroup' | 'participantNames'> &
+    Partial<Pick<Chat, 'groupName' | 'lastMessage' | 'lastMessageTime' | 'createdBy' | 'lastSentAt'>>,
+  uid: string,
+  unreadCount: number
+): Omit<ChatSummary, 'id'> => ({
+  isGroup: !!chat.isGroup,
+  ...(chat.groupName ? { groupName: chat.groupName } : {}),
+  participantNames: chat.participantNames,
+  ...(chat.lastMessageTime ? { lastMessage: chat.lastMessage || '', lastMessageTime: chat.lastMessageTime } : {}),
+  unreadCount,
+  ...(chat.createdBy === uid || chat.lastSentAt?.[uid] ? { contacted: true } : {}),
+});
+
+// Chat list entries still holding the `true` older clients wrote are left out until repaired
+export const isChatSummary = (value: unknown): value is Omit<ChatSummary, 'id'> =>
+  !!value && typeof value === 'object' && 'participantNames' in value;
+
+// A new chat record that already holds its first message, so both are written together
+export const chatWithFirstMessage = (chat: Omit<Chat, 'id'>, messageId: string, message: Omit<Message, 'id'>) => ({
+  ...chat,
+  messages: { [messageId]: message },
+  lastMessage: messagePreview(message),
+  lastMessageTime: message.timestamp,
+  lastSentAt: { [message.senderId]: message.timestamp },
+});
+
+// Every participant's chat list entry for a chat just created with `record`
+export const newChatSummaryFields = (chatId: string, record: Omit<Chat, 'id'>, firstMessage?: Omit<Message, 'id'>) =>
+  Object.fromEntries(
+    record.participants.map((uid) => [
+      `userChats/${uid}/${chatId}`,
+      chatSummaryFor(record, uid, firstMessage && firstMessage.senderId !== uid ? 1 : 0),
+    ])
+  );
+
+// Group events and call records: shown centered in the stream, never edited, reacted to or screened
+export const isEventMessage = (message: Pick<Message, 'type'>) =>
+  message.type === 'system' || message.type === 'call';
+
+// Position in a chat's history; messages are ordered by timestamp, then id
+export type MessageCursor = Pick<Message, 'id' | 'timestamp'>;
+
+export const compareMessages = (a: MessageCursor, b: MessageCursor) =>
+  a.timestamp - b.timestamp || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+
+export interface UserProfile {
+  uid: string;
+  email: string | null;
+  displayName: string | null;
+  photoURL: string | null;
+  // Written by older clients only; live status comes from PresenceApi
+  status: 'online' | 'offline';
+  lastSeen: number | null;
+  createdAt: number;
+  safetyMode: boolean;
+  dailyUsageLimit: number; // in minutes
+  todayUsage: number; // in minutes
+  todayCallUsage?: number; // in minutes, part of todayUsage
+  // Someone the user has chosen to alert when they reach out for crisis support
+  trustedContact?: TrustedContact | null;
+  // Privacy: others see whether the user is online but not when they were last seen
+  hideLastSeen?: boolean;
+}
+
+export type TrustedContact = Pick<DirectoryEntry, 'uid' | 'displayName'>;
+
+// Public, searchable record of an account used to find people to chat with
+export interface DirectoryEntry {
+  uid: string;
+  displayName: string;
+  email: string | null;
+  photoURL: string | null;
+}
+
+// The authenticated account, independent of the auth provider behind it
+export interface BackendUser {
+  uid: string;
+  email: string | null;
+  displayName: string | null;
+  photoURL: string | null;
+}
+
+export type Unsubscribe = () => void;
+
+export type BackendKind = 'firebase' | 'local';
+
+export interface AuthApi {
+  onAuthStateChanged: (callback: (user: BackendUser | null) => void) => Unsubscribe;
+  signUp: (email: string, password: string, displayName: string) => Promise<BackendUser>;
+  signIn: (email: string, password: string) => Promise<BackendUser>;
+  signInWithGoogle: () => Promise<BackendUser>;
+  signOut: () => Promise<void>;
+}
+
+export interface UsersApi {
+  getProfile: (uid: string) => Promise<UserProfile | null>;
+  setProfile: (uid: string, profile: UserProfile) => Promise<void>;
+  updateProfile: (uid: string, data: Partial<UserProfile>) => Promise<void>;
+  subscribeProfile: (uid: string, callback: (profile: UserProfile | null) => void) => Unsubscribe;
+}
+
+export interface DirectoryApi {
+  upsert: (entry: DirectoryEntry) => Promise<void>;
+  get: (uid: string) => Promise<DirectoryEntry | null>;
+  // Case-insensitive prefix match on display name or email
+  search: (term: string, limit: number) => Promise<DirectoryEntry[]>;
+}
+
+export interface ChatsApi {
+  // Emits the user's chat list, one summary per chat in no particular order
+  subscribeUserChats: (uid: string, callback: (chats: ChatSummary[]) => void) => Unsubscribe;
+  // The chat record without its messages; null once it is gone or no longer readable
+  subscribe: (chatId: string, callback: (chat: Chat | null) => void) => Unsubscribe;
+  // Creates the chat, adds it to every participant's chat list and stores `firstMessage`
+  // (e.g. "Sam created the group") in one atomic write
+  create: (chat: Omit<Chat, 'id'>, firstMessage?: Omit<Message, 'id'>) => Promise<string>;
+  // Replaces the member list and adds/removes the chat from the affected users' chat lists
+  updateMembership: (
+    chatId: string,
+    membership: ChatMembership,
+    changes: { added: string[]; removed: string[] }
+  ) => Promise<void>;
+  rename: (chatId: string, groupName: string) => Promise<void>;
+  // Records that the member has read everything up to `timestamp` and clears their unread count
+  markRead: (chatId: string, uid: string, timestamp: number) => Promise<void>;
+  markDelivered: (chatId: string, uid: string, timestamp: number) => Promise<void>;
+  setPreferences: (chatId: string, uid: string, preferences: ChatPreferences) => Promise<void>;
+  // Reconciles the user's chat list with the chats themselves after interrupted writes: drops
+  // entries for chats that are gone or that the user left, lists the chats for members that
+  // are missing them, turns entries older clients wrote into summaries and brings stale
+  // last-message previews up to date
+  repair: (uid: string) => Promise<ChatRepairReport>;
+}
+
+export interface ChatRepairReport {
+  removedEntries: number;
+  addedEntries: number;
+  rebuiltSummaries: number;
+  refreshedPreviews: number;
+}
+
+// Live updates to a chat's messages, one message at a time after the first page
+export interface MessageListeners {
+  // The latest messages when listening starts, oldest first, deleted ones included
+  onInitial: (messages: Message[]) => void;
+  // From then on, changes to those messages and to any newer ones
+  onAdded: (message: Message) => void;
+  onChanged: (message: Message) => void;
+  onRemoved: (messageId: string) => void;
+}
+
+export interface MessagesApi {
+  // Starts with the latest `limit` messages, then reports each change from the oldest of them on
+  subscribe: (chatId: string, limit: number, listeners: MessageListeners) => Unsubscribe;
+  // One-shot read of up to `limit` messages older than the cursor, oldest first
+  fetchBefore: (chatId: string, cursor: MessageCursor, limit: number) => Promise<Message[]>;
+  // A new message id, made on the device so a message has its id before it is stored
+  createId: (chatId: string) => string;
+  // Stores the message, refreshes the last message preview in every member's chat list and
+  // bumps the recipients' unread counts. Sending again with the same `messageId` rewrites the
+  // message instead of posting it twice, but bumps the counts again: only send it again once the
+  // earlier write has failed.
+  send: (
+    chatId: string,
+    message: Omit<Message, 'id'>,
+    recipientIds: string[],
+    messageId?: string
+  ) => Promise<string>;
+  // Rewrites the message and files the replaced version under its edits; `updatePreview`
+  // also refreshes the chat's last message preview when the edited message is the latest
+  edit: (
+    chatId: string,
+    messageId: string,
+    changes: MessageEdit,
+    previous: MessageRevision,
+    updatePreview: boolean
+  ) => Promise<void>;
+  setReaction: (chatId: string, messageId: string, emoji: string, uid: string, reacted: boolean) => Promise<void>;
+  // "Delete for everyone": clears the content and leaves a tombstone in its place
+  markDeleted: (chatId: string, messageId: string, updatePreview: boolean) => Promise<void>;
+  // "Delete for me": ids of the messages a user hid in a chat, stored under that user only
+  subscribeHidden: (
+    uid: string,
+    chatId: string,
+    callback: (hiddenIds: Record<string, boolean>) => void
+  ) => Unsubscribe;
+  // One-shot read of the same ids
+  getHidden: (uid: string, chatId: string) => Promise<Record<string, boolean>>;
+  setHidden: (uid: string, chatId: string, messageId: string, hidden: boolean) => Promise<void>;
+}
+
+export interface TypingApi {
+  subscribe: (chatId: string, callback: (typing: Record<string, boolean>) => void) => Unsubscribe;
+  set: (chatId: string, uid: string, typing: boolean) => Promise<void>;
+}
+
+// away: every open device has been idle for a while
+export type PresenceState = 'online' | 'away' | 'offline';
+
+export interface UserPresence {
+  state: PresenceState;
+  // When the last device went offline; null unless offline, or when the user hides it
+  lastSeen: number | null;
+}
+
+// One open tab or device of the signed-in user, stored under presence/{uid}/connections
+// and removed by the server when the connection drops
+export interface PresenceConnection {
+  setIdle: (idle: boolean) => Promise<void>;
+  setShareLastSeen: (share: boolean) => Promise<void>;
+  // Signing out: removes this connection and records the last-seen time right away
+  disconnect: () => Promise<void>;
+}
+
+export interface PresenceApi {
+  connect: (uid: string, options: { shareLastSeen: boolean }) => PresenceConnection;
+  subscribe: (uid: string, callback: (presence: UserPresence) => void) => Unsubscribe;
+}
+
+// Online while any device is active, away while all of them are idle
+export const toUserPresence = (
+  value: { connections?: Record<string, { state: 'active' | 'idle' }>; lastSeen?: number | null } | null
+): UserPresence => {
+  const connections = Object.values(value?.connections || {});
+  const state: PresenceState = connections.some((connection) => connection.state === 'active')
+    ? 'online'
+    : connections.length
+      ? 'away'
+      : 'offline';
+  return { state, lastSeen: state === 'offline' ? value?.lastSeen ?? null : null };
+};
+
+export type CallStatus = 'ringing' | 'active' | 'ended' | 'declined' | 'missed';
+
+export type SessionDescription = { type: 'offer' | 'answer'; sdp: string };
+export type IceCandidate = { candidate: string; sdpMid?: string | null; sdpMLineIndex?: number | null };
+
+// A one-to-one call being set up or in progress, stored at calls/{chatId}. ICE candidates
+// live under calls/{chatId}/candidates/{uid}, one list per side.
+export interface CallSession {
+  id: string;
+  callerId: string;
+  callerName: string;
+  calleeId: string;
+  media: CallMedia;
+  status: CallStatus;
+  createdAt: number;
+  answeredAt?: number;
+  endedAt?: number;
+  offer?: SessionDescription;
+  answer?: SessionDescription;
+}
+
+// Tells the callee about a ringing call wherever they are in the app
+export type CallInvite = Pick<CallSession, 'id' | 'callerId' | 'callerName' | 'media' | 'createdAt'> & {
+  chatId: string;
+};
+
+export interface CallsApi {
+  subscribe: (chatId: string, callback: (call: CallSession | null) => void) => Unsubscribe;
+  subscribeInvite: (uid: string, callback: (invite: CallInvite | null) => void) => Unsubscribe;
+  // Writes the session and the callee's invite together; the caller side goes away on disconnect
+  start: (chatId: string, call: CallSession) => Promise<void>;
+  update: (chatId: string, changes: Partial<Omit<CallSession, 'id'>>) => Promise<void>;
+  // Removes the session, its candidates and the invite
+  clear: (chatId: string, calleeId: string) => Promise<void>;
+  addCandidate: (chatId: string, uid: string, candidate: IceCandidate) => Promise<void>;
+  // Emits each candidate the given side has added, including those already there
+  subscribeCandidates: (chatId: string, uid: string, callback: (candidate: IceCandidate) => void) => Unsubscribe;
+}
+
+export interface StorageApi {
+  // Stores the file and resolves to a URL it can be loaded from; `onProgress` receives 0..1
+  upload: (path: string, file: Blob, onProgress?: (progress: number) => void) => Promise<string>;
+  remove: (path: string) => Promise<void>;
+}
+
+export interface UsageApi {
+  setTodayUsage: (uid: string, minutes: number) => Promise<void>;
+  setTodayCallUsage: (uid: string, minutes: number) => Promise<void>;
+}
+
+// Whether writes can currently reach the server
+export interface ConnectionApi {
+  subscribe: (callback: (connected: boolean) => void) => Unsubscribe;
+}
+
+export interface ChatBackend {
+  kind: BackendKind;
+  // Throws when the backend cannot be used (e.g. invalid Firebase config)
+  initialize: () => void;
+  auth: AuthApi;
+  users: UsersApi;
+  directory: DirectoryApi;
+  chats: ChatsApi;
+  messages: MessagesApi;
+  typing: TypingApi;
+  presence: PresenceApi;
+  calls: CallsApi;
+  storage: StorageApi;
+  usage: UsageApi;
+  connection: ConnectionApi;
+}
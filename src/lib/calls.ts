@@ -0,0 +1,39 @@
+// Settings and wording shared by the call flow and the call entries in the message stream
+
+import type { CallMedia, CallRecord } from '@/lib/backend';
+import { formatDuration } from '@/lib/attachments';
+
+// An unanswered call counts as missed after this long
+export const RING_TIMEOUT_MS = 30000;
+
+// Public STUN for address discovery; a TURN server (VITE_TURN_URL, VITE_TURN_USERNAME,
+// VITE_TURN_CREDENTIAL) is needed for peers behind strict NATs
+export const getIceServers = (): RTCIceServer[] => {
+  const env = import.meta.env;
+  const servers: RTCIceServer[] = [{ urls: ['stun:stun.l.google.com:19302', 'stun:stun1.l.google.com:19302'] }];
+
+  const turnUrl = (env.VITE_TURN_URL || '').trim();
+  if (turnUrl) {
+    servers.push({
+      urls: turnUrl,
+      username: (env.VITE_TURN_USERNAME || '').trim() || undefined,
+      credential: (env.VITE_TURN_CREDENTIAL || '').trim() || undefined,
+    });
+  }
+  return servers;
+};
+
+export const getCallConstraints = (media: CallMedia): MediaStreamConstraints => ({
+  audio: { echoCancellation: true, noiseSuppression: true },
+  video: media === 'video' ? { width: { ideal: 1280 }, height: { ideal: 720 }, facingMode: 'user' } : false,
+});
+
+// "Video call · 3:24", "Missed voice call", "Declined voice call"
+export const describeCall = ({ media, outcome, duration }: CallRecord): string => {
+  const kind = media === 'video' ? 'video call' : 'voice call';
+  if (outcome === 'missed') return `Missed ${kind}`;
+  if (outcome === 'declined') return `Declined ${kind}`;
+
+  const label = `${kind.charAt(0).toUpperCase()}${kind.slice(1)}`;
+  return duration ? `${label} · ${formatDuration(duration)}` : label;
+};
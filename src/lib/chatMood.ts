@@ -0,0 +1,58 @@
+// Overall emotional tone of a conversation, from the emotions of recent messages and the
+// reactions people left on them. Supportive reactions ("❤️", "🤗") pull the mood up.
+
+import { isEventMessage, type EmotionAnalysis, type EmotionScore, type Message } from '@/lib/backend';
+import { EMOTIONS, rankEmotions } from '@/lib/emotion';
+
+type Detected = EmotionScore['emotion'];
+
+// Recent messages that make up the mood
+const MOOD_WINDOW = 30;
+
+// A reaction weighs less than a whole message
+const REACTION_EMOTIONS: Record<string, Partial<Record<Detected, number>>> = {
+  '❤️': { happy: 0.5 },
+  '👍': { happy: 0.3 },
+  '😂': { happy: 0.4 },
+  '🤗': { happy: 0.5 },
+  '🙏': { happy: 0.3 },
+  '😢': { sad: 0.4 },
+  '😡': { angry: 0.5 },
+};
+
+export const getChatMood = (messages: Message[]): EmotionAnalysis => {
+  const scores = Object.fromEntries(EMOTIONS.map((emotion) => [emotion, 0])) as Record<Detected, number>;
+  let signals = 0;
+
+  messages
+    .filter((message) => !isEventMessage(message) && !message.isDeleted)
+    .slice(-MOOD_WINDOW)
+    .forEach((message) => {
+      signals += 1;
+      if (message.emotionAnalysis) {
+        message.emotionAnalysis.emotions.forEach(({ emotion, intensity }) => {
+          scores[emotion] += intensity;
+        });
+      } else if (message.emotion && message.emotion !== 'neutral') {
+        // Messages from before the full analysis only carry a label
+        scores[message.emotion] += 0.5;
+      }
+
+      Object.entries(message.reactions || {}).forEach(([emoji, users]) => {
+        const weights = REACTION_EMOTIONS[emoji];
+        const count = Object.values(users || {}).filter(Boolean).length;
+        if (!weights || !count) return;
+
+        (Object.entries(weights) as Array<[Detected, number]>).forEach(([emotion, weight]) => {
+          scores[emotion] += weight * count;
+        });
+        signals += count * 0.5;
+      });
+    });
+
+  if (!signals) return rankEmotions(scores);
+
+  return rankEmotions(
+    Object.fromEntries(EMOTIONS.map((emotion) => [emotion, scores[emotion] / signals])) as Record<Detected, number>
+  );
+};
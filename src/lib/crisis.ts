@@ -0,0 +1,64 @@
+// Crisis signal detection. Unlike toxicity this never stops a message: it only tells the
+// sender's client to offer support resources and, if they choose, reach a trusted contact.
+
+import { classifyToxicity, normalizeText } from './toxicity';
+
+export interface CrisisResource {
+  name: string;
+  phone?: string;
+  sms?: string; // e.g. "Text HOME to 741741"
+  url?: string;
+}
+
+// Hotlines by locale. Keys are BCP 47 tags; a bare language ("de") covers every region
+// without its own entry and 'default' is used when nothing matches.
+export const CRISIS_RESOURCES: Record<string, CrisisResource[]> = {
+  'en-US': [
+    { name: '988 Suicide & Crisis Lifeline', phone: '988', sms: 'Text 988', url: 'https://988lifeline.org' },
+    { name: 'Crisis Text Line', sms: 'Text HOME to 741741', url: 'https://www.crisistextline.org' },
+  ],
+  'en-CA': [
+    { name: '9-8-8 Suicide Crisis Helpline', phone: '988', sms: 'Text 988', url: 'https://988.ca' },
+  ],
+  'en-GB': [
+    { name: 'Samaritans', phone: '116 123', url: 'https://www.samaritans.org' },
+    { name: 'Shout', sms: 'Text SHOUT to 85258', url: 'https://giveusashout.org' },
+  ],
+  'en-IE': [{ name: 'Samaritans Ireland', phone: '116 123', url: 'https://www.samaritans.org/ireland' }],
+  'en-AU': [{ name: 'Lifeline Australia', phone: '13 11 14', url: 'https://www.lifeline.org.au' }],
+  'en-IN': [{ name: 'Tele-MANAS', phone: '14416', url: 'https://telemanas.mohfw.gov.in' }],
+  de: [{ name: 'TelefonSeelsorge', phone: '0800 111 0 111', url: 'https://www.telefonseelsorge.de' }],
+  fr: [{ name: 'Numéro national de prévention du suicide', phone: '3114', url: 'https://3114.fr' }],
+  es: [{ name: 'Línea 024 de atención a la conducta suicida', phone: '024' }],
+  default: [
+    { name: 'Find a Helpline', url: 'https://findahelpline.com' },
+    { name: 'Local emergency services', phone: '112 / 911' },
+  ],
+};
+
+export const getCrisisResources = (
+  locale: string = typeof navigator !== 'undefined' ? navigator.language : 'en-US'
+): CrisisResource[] => {
+  const [language] = locale.split('-');
+  return CRISIS_RESOURCES[locale] || CRISIS_RESOURCES[language] || CRISIS_RESOURCES.default;
+};
+
+// Hopelessness phrases that are not about self-harm outright but still warrant checking in
+const HOPELESSNESS_PATTERNS = [
+  /\b(no|not any) (reason|point) (to|in) (live|living|going on)\b/,
+  /\bcan'?t (go on|do this anymore|take (it|this) anymore)\b/,
+  /\b(nobody|no one) (would|will) (miss|notice) me\b/,
+  /\b(everyone|everybody) (would|will) be better off without me\b/,
+  /\bi (just )?want (it all )?to (stop|end|disappear)\b/,
+];
+
+// Score from which the classifier's self-harm category counts as the sender talking about themselves
+const SELF_HARM_THRESHOLD = 0.75;
+
+export const detectCrisisSignal = (text: string): boolean => {
+  const { scores } = classifyToxicity(text);
+  if (scores.selfHarm >= SELF_HARM_THRESHOLD) return true;
+
+  const normalized = normalizeText(text);
+  return HOPELESSNESS_PATTERNS.some((pattern) => pattern.test(normalized));
+};
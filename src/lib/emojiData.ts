@@ -0,0 +1,207 @@
+// Emoji offered by the composer's picker, grouped by category. Keywords feed the search box.
+
+export interface EmojiEntry {
+  emoji: string;
+  name: string;
+  keywords?: string[];
+}
+
+export interface EmojiCategory {
+  id: string;
+  label: string;
+  emoji: EmojiEntry[];
+}
+
+export const EMOJI_CATEGORIES: EmojiCategory[] = [
+  {
+    id: 'smileys',
+    label: 'Smileys',
+    emoji: [
+      { emoji: '😀', name: 'grinning face', keywords: ['smile', 'happy'] },
+      { emoji: '😃', name: 'grinning face with big eyes', keywords: ['smile', 'happy'] },
+      { emoji: '😄', name: 'grinning face with smiling eyes', keywords: ['smile', 'happy'] },
+      { emoji: '😁', name: 'beaming face', keywords: ['grin', 'happy'] },
+      { emoji: '😆', name: 'laughing', keywords: ['lol', 'haha'] },
+      { emoji: '😅', name: 'grinning face with sweat', keywords: ['relief', 'phew'] },
+      { emoji: '😂', name: 'face with tears of joy', keywords: ['lol', 'laugh', 'funny'] },
+      { emoji: '🤣', name: 'rolling on the floor laughing', keywords: ['rofl', 'lol'] },
+      { emoji: '🙂', name: 'slightly smiling face', keywords: ['smile'] },
+      { emoji: '😉', name: 'winking face', keywords: ['wink'] },
+      { emoji: '😊', name: 'smiling face with smiling eyes', keywords: ['blush', 'happy'] },
+      { emoji: '😇', name: 'smiling face with halo', keywords: ['angel', 'innocent'] },
+      { emoji: '🥰', name: 'smiling face with hearts', keywords: ['love', 'adore'] },
+      { emoji: '😍', name: 'heart eyes', keywords: ['love', 'crush'] },
+      { emoji: '😘', name: 'face blowing a kiss', keywords: ['kiss', 'love'] },
+      { emoji: '😋', name: 'face savoring food', keywords: ['yum', 'delicious'] },
+      { emoji: '😜', name: 'winking face with tongue', keywords: ['silly', 'joke'] },
+      { emoji: '🤪', name: 'zany face', keywords: ['crazy', 'silly'] },
+      { emoji: '🤗', name: 'hugging face', keywords: ['hug', 'support'] },
+      { emoji: '🤔', name: 'thinking face', keywords: ['hmm', 'think'] },
+      { emoji: '🤫', name: 'shushing face', keywords: ['quiet', 'secret'] },
+      { emoji: '😐', name: 'neutral face', keywords: ['meh'] },
+      { emoji: '😏', name: 'smirking face', keywords: ['smirk'] },
+      { emoji: '🙄', name: 'face with rolling eyes', keywords: ['eyeroll', 'whatever'] },
+      { emoji: '😬', name: 'grimacing face', keywords: ['awkward', 'yikes'] },
+      { emoji: '😌', name: 'relieved face', keywords: ['calm', 'peace'] },
+      { emoji: '😔', name: 'pensive face', keywords: ['sad', 'down'] },
+      { emoji: '😴', name: 'sleeping face', keywords: ['sleep', 'tired', 'zzz'] },
+      { emoji: '🥱', name: 'yawning face', keywords: ['tired', 'bored'] },
+      { emoji: '😷', name: 'face with medical mask', keywords: ['sick', 'ill'] },
+      { emoji: '🤒', name: 'face with thermometer', keywords: ['sick', 'fever'] },
+      { emoji: '🥳', name: 'partying face', keywords: ['party', 'celebrate', 'birthday'] },
+      { emoji: '😎', name: 'smiling face with sunglasses', keywords: ['cool'] },
+      { emoji: '🥺', name: 'pleading face', keywords: ['please', 'puppy eyes'] },
+      { emoji: '🥲', name: 'smiling face with tear', keywords: ['grateful', 'bittersweet'] },
+      { emoji: '😢', name: 'crying face', keywords: ['sad', 'tear'] },
+      { emoji: '😭', name: 'loudly crying face', keywords: ['sob', 'sad'] },
+      { emoji: '😞', name: 'disappointed face', keywords: ['sad'] },
+      { emoji: '😩', name: 'weary face', keywords: ['tired', 'stressed'] },
+      { emoji: '😫', name: 'tired face', keywords: ['exhausted', 'stressed'] },
+      { emoji: '😤', name: 'face with steam from nose', keywords: ['frustrated', 'triumph'] },
+      { emoji: '😠', name: 'angry face', keywords: ['mad', 'annoyed'] },
+      { emoji: '😡', name: 'pouting face', keywords: ['angry', 'rage'] },
+      { emoji: '😳', name: 'flushed face', keywords: ['embarrassed', 'shocked'] },
+      { emoji: '😮', name: 'face with open mouth', keywords: ['wow', 'surprised'] },
+      { emoji: '😱', name: 'face screaming in fear', keywords: ['scared', 'shocked'] },
+      { emoji: '😰', name: 'anxious face with sweat', keywords: ['nervous', 'worried'] },
+      { emoji: '😨', name: 'fearful face', keywords: ['scared', 'afraid'] },
+      { emoji: '🫠', name: 'melting face', keywords: ['hot', 'embarrassed'] },
+      { emoji: '🤯', name: 'exploding head', keywords: ['mind blown', 'shocked'] },
+    ],
+  },
+  {
+    id: 'gestures',
+    label: 'People & Gestures',
+    emoji: [
+      { emoji: '👍', name: 'thumbs up', keywords: ['yes', 'ok', 'like', 'agree'] },
+      { emoji: '👎', name: 'thumbs down', keywords: ['no', 'dislike'] },
+      { emoji: '👏', name: 'clapping hands', keywords: ['applause', 'bravo'] },
+      { emoji: '🙌', name: 'raising hands', keywords: ['celebrate', 'hooray'] },
+      { emoji: '👋', name: 'waving hand', keywords: ['hello', 'hi', 'bye'] },
+      { emoji: '🤝', name: 'handshake', keywords: ['deal', 'agree'] },
+      { emoji: '🙏', name: 'folded hands', keywords: ['thanks', 'please', 'pray'] },
+      { emoji: '💪', name: 'flexed biceps', keywords: ['strong', 'you got this'] },
+      { emoji: '✌️', name: 'victory hand', keywords: ['peace'] },
+      { emoji: '🤞', name: 'crossed fingers', keywords: ['luck', 'hope'] },
+      { emoji: '👌', name: 'ok hand', keywords: ['perfect', 'ok'] },
+      { emoji: '🤙', name: 'call me hand', keywords: ['call', 'shaka'] },
+      { emoji: '👀', name: 'eyes', keywords: ['look', 'see'] },
+      { emoji: '🫶', name: 'heart hands', keywords: ['love', 'support'] },
+      { emoji: '🫂', name: 'people hugging', keywords: ['hug', 'support', 'comfort'] },
+      { emoji: '🤷', name: 'person shrugging', keywords: ['dunno', 'whatever'] },
+      { emoji: '🤦', name: 'person facepalming', keywords: ['facepalm', 'ugh'] },
+      { emoji: '🙋', name: 'person raising hand', keywords: ['me', 'question'] },
+      { emoji: '🧘', name: 'person in lotus position', keywords: ['meditate', 'calm', 'yoga'] },
+      { emoji: '🚶', name: 'person walking', keywords: ['walk', 'break'] },
+    ],
+  },
+  {
+    id: 'hearts',
+    label: 'Hearts & Symbols',
+    emoji: [
+      { emoji: '❤️', name: 'red heart', keywords: ['love'] },
+      { emoji: '🧡', name: 'orange heart', keywords: ['love'] },
+      { emoji: '💛', name: 'yellow heart', keywords: ['love', 'friendship'] },
+      { emoji: '💚', name: 'green heart', keywords: ['love'] },
+      { emoji: '💙', name: 'blue heart', keywords: ['love'] },
+      { emoji: '💜', name: 'purple heart', keywords: ['love'] },
+      { emoji: '🤍', name: 'white heart', keywords: ['love'] },
+      { emoji: '💕', name: 'two hearts', keywords: ['love'] },
+      { emoji: '💖', name: 'sparkling heart', keywords: ['love'] },
+      { emoji: '💔', name: 'broken heart', keywords: ['sad', 'heartbreak'] },
+      { emoji: '❤️‍🩹', name: 'mending heart', keywords: ['healing', 'recovery'] },
+      { emoji: '✨', name: 'sparkles', keywords: ['magic', 'shine'] },
+      { emoji: '⭐', name: 'star', keywords: ['favorite'] },
+      { emoji: '🔥', name: 'fire', keywords: ['lit', 'hot'] },
+      { emoji: '💯', name: 'hundred points', keywords: ['perfect', 'agree'] },
+      { emoji: '✅', name: 'check mark', keywords: ['done', 'yes'] },
+      { emoji: '❌', name: 'cross mark', keywords: ['no', 'wrong'] },
+      { emoji: '❓', name: 'question mark', keywords: ['question'] },
+      { emoji: '❗', name: 'exclamation mark', keywords: ['important'] },
+      { emoji: '💤', name: 'zzz', keywords: ['sleep', 'tired'] },
+    ],
+  },
+  {
+    id: 'nature',
+    label: 'Nature',
+    emoji: [
+      { emoji: '🌿', name: 'herb', keywords: ['plant', 'calm', 'nature'] },
+      { emoji: '🌱', name: 'seedling', keywords: ['grow', 'plant'] },
+      { emoji: '🌸', name: 'cherry blossom', keywords: ['flower', 'spring'] },
+      { emoji: '🌻', name: 'sunflower', keywords: ['flower', 'sunny'] },
+      { emoji: '🌈', name: 'rainbow', keywords: ['hope', 'pride'] },
+      { emoji: '☀️', name: 'sun', keywords: ['sunny', 'weather'] },
+      { emoji: '🌙', name: 'crescent moon', keywords: ['night', 'sleep'] },
+      { emoji: '🌧️', name: 'cloud with rain', keywords: ['rain', 'weather'] },
+      { emoji: '❄️', name: 'snowflake', keywords: ['cold', 'winter'] },
+      { emoji: '🌊', name: 'water wave', keywords: ['ocean', 'sea'] },
+      { emoji: '🐶', name: 'dog face', keywords: ['dog', 'puppy', 'pet'] },
+      { emoji: '🐱', name: 'cat face', keywords: ['cat', 'kitten', 'pet'] },
+      { emoji: '🐻', name: 'bear', keywords: ['teddy'] },
+      { emoji: '🐼', name: 'panda', keywords: ['bear'] },
+      { emoji: '🦋', name: 'butterfly', keywords: ['pretty', 'change'] },
+      { emoji: '🐢', name: 'turtle', keywords: ['slow'] },
+    ],
+  },
+  {
+    id: 'food',
+    label: 'Food & Drink',
+    emoji: [
+      { emoji: '☕', name: 'hot beverage', keywords: ['coffee', 'tea'] },
+      { emoji: '🍵', name: 'teacup', keywords: ['tea', 'calm'] },
+      { emoji: '🍕', name: 'pizza', keywords: ['food'] },
+      { emoji: '🍔', name: 'hamburger', keywords: ['burger', 'food'] },
+      { emoji: '🍟', name: 'french fries', keywords: ['fries', 'food'] },
+      { emoji: '🍣', name: 'sushi', keywords: ['food'] },
+      { emoji: '🍜', name: 'noodles', keywords: ['ramen', 'food'] },
+      { emoji: '🍰', name: 'shortcake', keywords: ['cake', 'dessert'] },
+      { emoji: '🎂', name: 'birthday cake', keywords: ['birthday', 'celebrate'] },
+      { emoji: '🍪', name: 'cookie', keywords: ['dessert', 'snack'] },
+      { emoji: '🍎', name: 'red apple', keywords: ['fruit', 'healthy'] },
+      { emoji: '🥑', name: 'avocado', keywords: ['healthy'] },
+      { emoji: '🍿', name: 'popcorn', keywords: ['movie', 'snack'] },
+      { emoji: '🥤', name: 'cup with straw', keywords: ['drink', 'soda'] },
+      { emoji: '🍷', name: 'wine glass', keywords: ['wine', 'drink'] },
+      { emoji: '🥂', name: 'clinking glasses', keywords: ['cheers', 'celebrate'] },
+    ],
+  },
+  {
+    id: 'activities',
+    label: 'Activities & Objects',
+    emoji: [
+      { emoji: '🎉', name: 'party popper', keywords: ['party', 'celebrate', 'congrats'] },
+      { emoji: '🎈', name: 'balloon', keywords: ['party', 'birthday'] },
+      { emoji: '🎁', name: 'wrapped gift', keywords: ['present', 'birthday'] },
+      { emoji: '🏆', name: 'trophy', keywords: ['win', 'award'] },
+      { emoji: '⚽', name: 'soccer ball', keywords: ['football', 'sport'] },
+      { emoji: '🏀', name: 'basketball', keywords: ['sport'] },
+      { emoji: '🎮', name: 'video game', keywords: ['game', 'play'] },
+      { emoji: '🎵', name: 'musical note', keywords: ['music', 'song'] },
+      { emoji: '🎧', name: 'headphone', keywords: ['music', 'listen'] },
+      { emoji: '📚', name: 'books', keywords: ['study', 'read'] },
+      { emoji: '💻', name: 'laptop', keywords: ['computer', 'work'] },
+      { emoji: '📱', name: 'mobile phone', keywords: ['phone', 'call'] },
+      { emoji: '📷', name: 'camera', keywords: ['photo', 'picture'] },
+      { emoji: '✏️', name: 'pencil', keywords: ['write', 'edit'] },
+      { emoji: '📅', name: 'calendar', keywords: ['date', 'schedule'] },
+      { emoji: '⏰', name: 'alarm clock', keywords: ['time', 'wake'] },
+      { emoji: '💡', name: 'light bulb', keywords: ['idea'] },
+      { emoji: '🏠', name: 'house', keywords: ['home'] },
+      { emoji: '✈️', name: 'airplane', keywords: ['travel', 'flight'] },
+      { emoji: '🚗', name: 'car', keywords: ['drive', 'travel'] },
+    ],
+  },
+];
+
+const ALL_EMOJI = EMOJI_CATEGORIES.flatMap((category) => category.emoji);
+
+// Every term has to match the start of a word in the name or a keyword: "hea" finds "heart eyes"
+export const searchEmoji = (term: string, limit = 48): EmojiEntry[] => {
+  const terms = term.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  if (!terms.length) return [];
+
+  return ALL_EMOJI.filter((entry) => {
+    const words = [...entry.name.split(' '), ...(entry.keywords || []).flatMap((keyword) => keyword.split(' '))];
+    return terms.every((t) => words.some((word) => word.startsWith(t)));
+  }).slice(0, limit);
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import type { EmotionScore } from '@/lib/backend';
+import { analyzeEmotions, rankEmotions } from './emotion';
+
+const scoresWith = (scores: Partial<Record<EmotionScore['emotion'], number>>) => ({
+  happy: 0,
+  sad: 0,
+  angry: 0,
+  stressed: 0,
+  anxious: 0,
+  ...scores,
+});
+
+describe('rankEmotions', () => {
+  it.each([
+    [{}, 'neutral', 0],
+    [{ happy: 0.19 }, 'neutral', 0],
+    [{ happy: 0.2 }, 'happy', 0.2],
+    [{ sad: 0.3, angry: 0.5 }, 'angry', 0.5],
+  ])('ranks %j as %s at %d', (scores, primary, intensity) => {
+    const result = rankEmotions(scoresWith(scores));
+    expect(result.primary).toBe(primary);
+    expect(result.intensity).toBe(intensity);
+  });
+
+  it('caps intensity at 1 after emphasis but keeps shares of the raw scores', () => {
+    const result = rankEmotions(scoresWith({ angry: 0.9, sad: 0.3 }), 1.3);
+    expect(result.emotions).toEqual([
+      { emotion: 'angry', intensity: 1, share: 0.75 },
+      { emotion: 'sad', intensity: 0.39, share: 0.25 },
+    ]);
+  });
+});
+
+describe('analyzeEmotions', () => {
+  it.each([
+    ['see you at 5', 'neutral'],
+    ['I am so happy', 'happy'],
+    ['I am not happy', 'sad'],
+    ['not worried', 'neutral'],
+    ["I'm not sad, I'm happy", 'happy'],
+    ['it was fun but now I feel lonely', 'sad'],
+    ['totally burned out', 'stressed'],
+    ['😂😭', 'happy'],
+    ['😭', 'sad'],
+  ])('reads %j as %s', (text, primary) => {
+    expect(analyzeEmotions(text).primary).toBe(primary);
+  });
+
+  it.each([
+    ['happy', 'so happy'],
+    ['happy', 'happyyy'],
+    ['happy', 'HAPPY'],
+    ['happy', 'happy!!!'],
+    ['a bit sad', 'sad'],
+  ])('reads %j as weaker than %j', (weaker, stronger) => {
+    expect(analyzeEmotions(weaker).intensity).toBeLessThan(analyzeEmotions(stronger).intensity);
+  });
+});
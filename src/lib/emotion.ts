@@ -0,0 +1,274 @@
+// Local multi-label emotion analysis. Every emotion word and emoji in a message adds to
+// that emotion's score; negation, intensifiers, contrast ("..., but") and emoji
+// combinations adjust the weights before the scores are ranked.
+
+import type { EmotionAnalysis, EmotionLabel, EmotionScore } from '@/lib/backend';
+
+type Detected = EmotionScore['emotion'];
+type Weights = Partial<Record<Detected, number>>;
+
+export const EMOTIONS: Detected[] = ['happy', 'sad', 'angry', 'stressed', 'anxious'];
+
+const WORDS: Record<string, Weights> = {
+  // happy
+  happy: { happy: 0.6 },
+  glad: { happy: 0.5 },
+  joy: { happy: 0.6 },
+  excited: { happy: 0.6 },
+  amazing: { happy: 0.6 },
+  wonderful: { happy: 0.6 },
+  great: { happy: 0.45 },
+  good: { happy: 0.3 },
+  awesome: { happy: 0.55 },
+  love: { happy: 0.55 },
+  fantastic: { happy: 0.6 },
+  brilliant: { happy: 0.55 },
+  grateful: { happy: 0.5 },
+  thankful: { happy: 0.45 },
+  proud: { happy: 0.45 },
+  fun: { happy: 0.4 },
+  lol: { happy: 0.3 },
+  haha: { happy: 0.35 },
+  lmao: { happy: 0.4 },
+  // sad
+  sad: { sad: 0.6 },
+  depressed: { sad: 0.75 },
+  down: { sad: 0.25 },
+  lonely: { sad: 0.6 },
+  crying: { sad: 0.6 },
+  cried: { sad: 0.55 },
+  miss: { sad: 0.35 },
+  hurt: { sad: 0.45 },
+  heartbroken: { sad: 0.8 },
+  disappointed: { sad: 0.5, angry: 0.1 },
+  upset: { sad: 0.4, angry: 0.2 },
+  unhappy: { sad: 0.55 },
+  miserable: { sad: 0.7 },
+  // angry
+  angry: { angry: 0.6 },
+  mad: { angry: 0.5 },
+  furious: { angry: 0.8 },
+  hate: { angry: 0.55 },
+  annoyed: { angry: 0.4 },
+  annoying: { angry: 0.35 },
+  frustrated: { angry: 0.45, stressed: 0.2 },
+  pissed: { angry: 0.55 },
+  rage: { angry: 0.7 },
+  livid: { angry: 0.8 },
+  // stressed
+  stressed: { stressed: 0.6 },
+  stress: { stressed: 0.45 },
+  overwhelmed: { stressed: 0.7, anxious: 0.2 },
+  exhausted: { stressed: 0.55, sad: 0.1 },
+  tired: { stressed: 0.35 },
+  swamped: { stressed: 0.5 },
+  pressure: { stressed: 0.35 },
+  // anxious
+  anxious: { anxious: 0.65 },
+  worried: { anxious: 0.55 },
+  worry: { anxious: 0.45 },
+  nervous: { anxious: 0.5 },
+  scared: { anxious: 0.6 },
+  afraid: { anxious: 0.55 },
+  panic: { anxious: 0.7 },
+  panicking: { anxious: 0.75 },
+  anxiety: { anxious: 0.6 },
+  fear: { anxious: 0.5 },
+  terrified: { anxious: 0.85 },
+};
+
+// Multi-word expressions, matched on the lower-cased text before tokenizing
+const PHRASES: Array<{ pattern: RegExp; weights: Weights }> = [
+  { pattern: /\bburn(ed|t) out\b/, weights: { stressed: 0.7 } },
+  { pattern: /\bcan'?t cope\b/, weights: { stressed: 0.7, anxious: 0.2 } },
+  { pattern: /\btoo much\b/, weights: { stressed: 0.35 } },
+  { pattern: /\bfed up\b/, weights: { angry: 0.45, stressed: 0.2 } },
+  { pattern: /\bon edge\b/, weights: { anxious: 0.45 } },
+  { pattern: /\bfreaking out\b/, weights: { anxious: 0.6 } },
+  { pattern: /\bover the moon\b/, weights: { happy: 0.8 } },
+];
+
+const EMOJI: Record<string, Weights> = {
+  '😊': { happy: 0.5 },
+  '😄': { happy: 0.55 },
+  '😃': { happy: 0.5 },
+  '😁': { happy: 0.5 },
+  '🥰': { happy: 0.6 },
+  '😍': { happy: 0.6 },
+  '❤': { happy: 0.45 },
+  '💕': { happy: 0.45 },
+  '🎉': { happy: 0.5 },
+  '✨': { happy: 0.25 },
+  '😂': { happy: 0.5 },
+  '🤣': { happy: 0.55 },
+  '🥲': { happy: 0.25, sad: 0.25 },
+  '😢': { sad: 0.55 },
+  '😭': { sad: 0.65 },
+  '😔': { sad: 0.45 },
+  '💔': { sad: 0.6 },
+  '😞': { sad: 0.45 },
+  '😠': { angry: 0.55 },
+  '😡': { angry: 0.65 },
+  '🤬': { angry: 0.8 },
+  '😫': { stressed: 0.55 },
+  '😩': { stressed: 0.5 },
+  '😤': { angry: 0.35, stressed: 0.25 },
+  '😰': { anxious: 0.6 },
+  '😨': { anxious: 0.55 },
+  '😱': { anxious: 0.6 },
+};
+
+// Emoji that mean something else next to laughter: "😂😭" and "dead 😭" are people crying with laughter
+const LAUGHTER = new Set(['😂', '🤣', '💀', 'lol', 'lmao', 'haha']);
+const LAUGH_CRYING = new Set(['😭', '😢']);
+
+const NEGATORS = new Set([
+  'not', 'no', 'never', 'nothing', "don't", 'dont', "isn't", 'isnt', "wasn't", 'wasnt', "aren't",
+  "won't", "didn't", 'didnt', "doesn't", 'doesnt', 'hardly', 'barely', "ain't",
+]);
+const INTENSIFIERS = new Set([
+  'very', 'so', 'really', 'extremely', 'super', 'totally', 'incredibly', 'absolutely', 'completely',
+  'utterly', 'truly', 'too', 'sooo', 'soo',
+]);
+const DIMINISHERS = new Set(['bit', 'slightly', 'kinda', 'somewhat', 'little', 'fairly', 'sorta']);
+const CONTRAST = new Set(['but', 'though', 'however', 'although', 'yet']);
+
+// How many tokens before an emotion word a negator or intensifier still applies to
+const SCOPE = 3;
+
+// Negated happiness reads as (somewhat weaker) sadness; negating a negative emotion just removes it
+const NEGATED: Partial<Record<Detected, Detected>> = { happy: 'sad' };
+const NEGATION_CARRY = 0.8;
+
+const NEUTRAL_THRESHOLD = 0.2;
+
+const TOKEN_PATTERN = /[a-z']+|\p{Extended_Pictographic}/giu;
+const CLAUSE_BREAK = /[,.;:!?\n]+/;
+
+interface Token {
+  word: string; // lower-cased
+  shouted: boolean;
+  clause: number;
+}
+
+const tokenize = (text: string): Token[] =>
+  text.split(CLAUSE_BREAK).flatMap((clause, index) =>
+    (clause.match(TOKEN_PATTERN) || []).map((original) => ({
+      word: original.toLowerCase(),
+      shouted: original.length > 2 && original === original.toUpperCase() && original !== original.toLowerCase(),
+      clause: index,
+    }))
+  );
+
+const collapseRuns = (word: string, max: number) =>
+  word.replace(/([a-z])\1+/g, (run, letter: string) => letter.repeat(Math.min(run.length, max)));
+
+// "happyyy", "sooo", "loooove": try the word as typed, then with stretched letters squashed
+const lookUp = (token: string): { weights?: Weights; stretched: boolean } => {
+  if (WORDS[token]) return { weights: WORDS[token], stretched: false };
+
+  const stretched = /([a-z])\1\1/.test(token);
+  const candidate = [token.replace(/([a-z])\1{2,}/g, '$1'), collapseRuns(token, 2), collapseRuns(token, 1)].find(
+    (word) => WORDS[word]
+  );
+  return { weights: candidate ? WORDS[candidate] : undefined, stretched };
+};
+
+const emptyScores = (): Record<Detected, number> => ({
+  happy: 0,
+  sad: 0,
+  angry: 0,
+  stressed: 0,
+  anxious: 0,
+});
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export const analyzeEmotions = (text: string): EmotionAnalysis => {
+  const lower = text.toLowerCase().replace(/[’‘`]/g, "'");
+  const scores = emptyScores();
+
+  const add = (weights: Weights, factor: number) => {
+    (Object.entries(weights) as Array<[Detected, number]>).forEach(([emotion, weight]) => {
+      scores[emotion] += weight * factor;
+    });
+  };
+
+  PHRASES.forEach(({ pattern, weights }) => {
+    if (pattern.test(lower)) add(weights, 1);
+  });
+
+  const tokens = tokenize(text.replace(/[’‘`]/g, "'"));
+  const laughing = tokens.some(({ word }) => LAUGHTER.has(word));
+  // Whatever follows the last "but" is what the sender is left feeling
+  const contrastAt = tokens.reduce((last, { word }, index) => (CONTRAST.has(word) ? index : last), -1);
+
+  tokens.forEach(({ word, shouted, clause }, index) => {
+    let weights: Weights | undefined = EMOJI[word];
+    let factor = 1;
+
+    if (weights && laughing && LAUGH_CRYING.has(word)) {
+      weights = { happy: 0.45 };
+    }
+
+    if (!weights) {
+      const match = lookUp(word);
+      weights = match.weights;
+      if (match.stretched) factor *= 1.3;
+      // Shouting ("SO HAPPY") counts as emphasis
+      if (shouted) factor *= 1.3;
+    }
+    if (!weights) return;
+
+    // Modifiers only reach words in the same clause: "I'm not sad, I'm happy"
+    const before = tokens
+      .slice(Math.max(0, index - SCOPE), index)
+      .filter((token) => token.clause === clause)
+      .map((token) => token.word);
+    const negated = before.some((word) => NEGATORS.has(word));
+    if (before.some((word) => INTENSIFIERS.has(word) || /^so+$/.test(word))) factor *= 1.5;
+    if (before.some((word) => DIMINISHERS.has(word))) factor *= 0.6;
+
+    if (contrastAt >= 0) factor *= index > contrastAt ? 1.3 : 0.6;
+
+    if (negated) {
+      // "not happy at all" is more than "not happy"
+      const after = tokens.slice(index + 1, index + 3).map((token) => token.word);
+      const emphatic = after.join(' ') === 'at all' ? 1.5 : 1;
+      (Object.entries(weights) as Array<[Detected, number]>).forEach(([emotion, weight]) => {
+        const flipped = NEGATED[emotion];
+        if (flipped) add({ [flipped]: weight * NEGATION_CARRY * emphatic }, factor);
+      });
+      return;
+    }
+
+    add(weights, factor);
+  });
+
+  // Exclamation marks raise the intensity of whatever was expressed
+  const exclamations = Math.min((text.match(/!/g) || []).length, 3);
+  const emphasis = 1 + exclamations * 0.1;
+
+  return rankEmotions(scores, emphasis);
+};
+
+// Orders raw per-emotion scores into an analysis; scores are capped at 1 after applying emphasis
+export const rankEmotions = (scores: Record<Detected, number>, emphasis = 1): EmotionAnalysis => {
+  const total = EMOTIONS.reduce((sum, emotion) => sum + scores[emotion], 0);
+  const emotions: EmotionScore[] = EMOTIONS.filter((emotion) => scores[emotion] > 0)
+    .map((emotion) => ({
+      emotion,
+      intensity: round(Math.min(1, scores[emotion] * emphasis)),
+      share: round(scores[emotion] / total),
+    }))
+    .sort((a, b) => b.intensity - a.intensity);
+
+  const [top] = emotions;
+  const primary: EmotionLabel = top && top.intensity >= NEUTRAL_THRESHOLD ? top.emotion : 'neutral';
+
+  return {
+    primary,
+    intensity: primary === 'neutral' ? 0 : top.intensity,
+    emotions,
+  };
+};
@@ -1,11 +1,14 @@
 import { initializeApp, getApp, getApps, type FirebaseApp } from 'firebase/app';
 import { getAuth, GoogleAuthProvider, type Auth } from 'firebase/auth';
 import { getDatabase, type Database } from 'firebase/database';
+import { getStorage, type FirebaseStorage } from 'firebase/storage';
 
 type FirebaseServices = {
   app: FirebaseApp;
   auth: Auth;
   database: Database;
+  // Null when no storage bucket is configured; attachments are unavailable then
+  storage: FirebaseStorage | null;
 };
 
 // Firebase configuration - user needs to add their own config
@@ -55,8 +58,9 @@ export const getFirebaseServices = (): FirebaseServices => {
     const app = getApps().length ? getApp() : initializeApp(firebaseConfig);
     const auth = getAuth(app);
     const database = getDatabase(app);
+    const storage = firebaseConfig.storageBucket ? getStorage(app) : null;
 
-    services = { app, auth, database };
+    services = { app, auth, database, storage };
     initError = null;
     return services;
   } catch (err: any) {
@@ -70,4 +74,12 @@ export const getFirebaseServices = (): FirebaseServices => {
 export const getFirebaseAuth = () => getFirebaseServices().auth;
 export const getFirebaseDatabase = () => getFirebaseServices().database;
 
+export const getFirebaseStorage = () => {
+  const { storage } = getFirebaseServices();
+  if (!storage) {
+    throw new Error('File sharing is not set up. Add VITE_FIREBASE_STORAGE_BUCKET to enable attachments.');
+  }
+  return storage;
+};
+
 export const googleProvider = new GoogleAuthProvider();
@@ -0,0 +1,67 @@
+// Minimal promise wrapper around a single IndexedDB key-value object store.
+// Falls back to a plain in-memory map where IndexedDB is unavailable (e.g. tests).
+
+const DB_VERSION = 1;
+const STORE_NAME = 'kv';
+
+export interface KeyValueStore {
+  get: <T>(key: string) => Promise<T | undefined>;
+  set: <T>(key: string, value: T) => Promise<void>;
+  delete: (key: string) => Promise<void>;
+}
+
+const createMemoryStore = (): KeyValueStore => {
+  const data = new Map<string, unknown>();
+  return {
+    get: async <T,>(key: string) => data.get(key) as T | undefined,
+    set: async (key, value) => {
+      data.set(key, value);
+    },
+    delete: async (key) => {
+      data.delete(key);
+    },
+  };
+};
+
+const promisify = <T,>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const createKeyValueStore = (dbName: string): KeyValueStore => {
+  if (typeof indexedDB === 'undefined') {
+    return createMemoryStore();
+  }
+
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDb = () => {
+    if (!dbPromise) {
+      const request = indexedDB.open(dbName, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME);
+      };
+      dbPromise = promisify(request);
+    }
+    return dbPromise;
+  };
+
+  const withStore = async <T,>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>
+  ) => {
+    const db = await openDb();
+    return promisify(run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+  };
+
+  return {
+    get: <T,>(key: string) => withStore('readonly', (store) => store.get(key)) as Promise<T | undefined>,
+    set: async (key, value) => {
+      await withStore('readwrite', (store) => store.put(value, key));
+    },
+    delete: async (key) => {
+      await withStore('readwrite', (store) => store.delete(key));
+    },
+  };
+};
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { parseMarkdown, stripMarkdown, toSafeHref } from './markdown';
+
+describe('toSafeHref', () => {
+  it.each([
+    ['https://example.com', 'https://example.com/'],
+    ['http://example.com/a?b=1#c', 'http://example.com/a?b=1#c'],
+    ['HTTPS://Example.com/Path', 'https://example.com/Path'],
+    ['www.example.com', 'https://www.example.com/'],
+    ['javascript:alert(1)', null],
+    ['JavaScript:alert(1)', null],
+    ['data:text/html,<script>alert(1)</script>', null],
+    ['vbscript:msgbox(1)', null],
+    ['file:///etc/passwd', null],
+    ['ftp://example.com', null],
+    ['//example.com', null],
+    ['not a url', null],
+  ])('turns %j into %j', (url, href) => {
+    expect(toSafeHref(url)).toBe(href);
+  });
+});
+
+describe('parseMarkdown', () => {
+  it.each([
+    ['plain', [{ type: 'text', text: 'plain' }]],
+    ['**bold**', [{ type: 'bold', children: [{ type: 'text', text: 'bold' }] }]],
+    ['_it_', [{ type: 'italic', children: [{ type: 'text', text: 'it' }] }]],
+    ['`**x**`', [{ type: 'code', text: '**x**' }]],
+    ['snake_case_name', [{ type: 'text', text: 'snake_case_name' }]],
+    [
+      'see www.example.com.',
+      [
+        { type: 'text', text: 'see ' },
+        { type: 'link', href: 'https://www.example.com/', children: [{ type: 'text', text: 'www.example.com' }] },
+        { type: 'text', text: '.' },
+      ],
+    ],
+    [
+      '[docs](https://example.com/docs)',
+      [{ type: 'link', href: 'https://example.com/docs', children: [{ type: 'text', text: 'docs' }] }],
+    ],
+    ['[click](javascript:alert(1))', [{ type: 'text', text: '[click](javascript:alert(1))' }]],
+    ['```\ncode\n```', [{ type: 'codeBlock', text: 'code' }]],
+  ])('parses %j', (text, nodes) => {
+    expect(parseMarkdown(text)).toEqual(nodes);
+  });
+});
+
+describe('stripMarkdown', () => {
+  it.each([
+    ['**bold** and _it_', 'bold and it'],
+    ['[docs](https://example.com/docs)', 'docs (https://example.com/docs)'],
+    ['https://example.com', 'https://example.com'],
+  ])('strips %j to %j', (text, stripped) => {
+    expect(stripMarkdown(text)).toBe(stripped);
+  });
+});
@@ -0,0 +1,122 @@
+// Lightweight chat markdown: **bold**, *italics* / _italics_, `code`, ```code blocks```,
+// [labelled](https://links) and bare URLs. Parsed into nodes that are rendered as React
+// elements, never as HTML, so message text can't inject markup.
+
+export type MarkdownNode =
+  | { type: 'text'; text: string }
+  | { type: 'bold'; children: MarkdownNode[] }
+  | { type: 'italic'; children: MarkdownNode[] }
+  | { type: 'code'; text: string }
+  | { type: 'codeBlock'; text: string }
+  | { type: 'link'; href: string; children: MarkdownNode[] };
+
+const CODE_BLOCK_PATTERN = /```(?:[^\n`]*\n)?([\s\S]*?)```/g;
+
+// Order matters: code wins over everything, bold over italics, labelled links over bare URLs
+const INLINE_PATTERN = new RegExp(
+  [
+    /`([^`\n]+)`/.source,
+    /\*\*(?=\S)([^\n]+?)\*\*/.source,
+    /(?<![\w*])\*(?=[^\s*])([^*\n]+?)\*(?!\w)/.source,
+    /(?<![\w_])_(?=[^\s_])([^_\n]+?)_(?![\w_])/.source,
+    /\[([^\]\n]+)\]\(((?:https?:\/\/|www\.)[^\s)]+)\)/.source,
+    /\b((?:https?:\/\/|www\.)[^\s<]+)/.source,
+  ].join('|'),
+  'gi'
+);
+
+// Punctuation that usually ends a sentence rather than the URL
+const TRAILING_URL_PUNCTUATION = /[.,;:!?)\]'"]+$/;
+
+const pushText = (nodes: MarkdownNode[], text: string) => {
+  if (!text) return;
+  const last = nodes[nodes.length - 1];
+  if (last?.type === 'text') last.text += text;
+  else nodes.push({ type: 'text', text });
+};
+
+// Only web links are clickable; "javascript:" and friends never reach an href
+export const toSafeHref = (url: string): string | null => {
+  const candidate = /^www\./i.test(url) ? `https://${url}` : url;
+  try {
+    const parsed = new URL(candidate);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? parsed.href : null;
+  } catch {
+    return null;
+  }
+};
+
+const parseInline = (text: string, allowLinks = true): MarkdownNode[] => {
+  const nodes: MarkdownNode[] = [];
+  const pattern = new RegExp(INLINE_PATTERN.source, INLINE_PATTERN.flags);
+  let cursor = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text))) {
+    const [whole, code, bold, starItalic, underscoreItalic, label, labelledUrl, bareUrl] = match;
+    let consumed = whole;
+    let node: MarkdownNode | null = null;
+
+    if (code !== undefined) {
+      node = { type: 'code', text: code };
+    } else if (bold !== undefined) {
+      node = { type: 'bold', children: parseInline(bold, allowLinks) };
+    } else if (starItalic !== undefined || underscoreItalic !== undefined) {
+      node = { type: 'italic', children: parseInline(starItalic ?? underscoreItalic, allowLinks) };
+    } else if (label !== undefined && allowLinks) {
+      const href = toSafeHref(labelledUrl);
+      node = href ? { type: 'link', href, children: parseInline(label, false) } : null;
+    } else if (bareUrl !== undefined && allowLinks) {
+      consumed = bareUrl.replace(TRAILING_URL_PUNCTUATION, '');
+      const href = toSafeHref(consumed);
+      node = href ? { type: 'link', href, children: [{ type: 'text', text: consumed }] } : null;
+    }
+
+    pushText(nodes, text.slice(cursor, match.index));
+    if (node) {
+      nodes.push(node);
+    } else {
+      pushText(nodes, consumed);
+    }
+    cursor = match.index + consumed.length;
+    pattern.lastIndex = cursor;
+  }
+
+  pushText(nodes, text.slice(cursor));
+  return nodes;
+};
+
+export const parseMarkdown = (text: string): MarkdownNode[] => {
+  const nodes: MarkdownNode[] = [];
+  let cursor = 0;
+
+  for (const match of text.matchAll(CODE_BLOCK_PATTERN)) {
+    const index = match.index ?? 0;
+    nodes.push(...parseInline(text.slice(cursor, index)));
+    nodes.push({ type: 'codeBlock', text: match[1].replace(/\n$/, '') });
+    cursor = index + match[0].length;
+    // The block already breaks the line
+    if (text[cursor] === '\n') cursor += 1;
+  }
+
+  nodes.push(...parseInline(text.slice(cursor)));
+  return nodes;
+};
+
+// Text with the formatting marks removed, for previews and notifications
+export const stripMarkdown = (text: string): string => {
+  const flatten = (nodes: MarkdownNode[]): string =>
+    nodes
+      .map((node) => {
+        if (node.type === 'text' || node.type === 'code') return node.text;
+        if (node.type === 'codeBlock') return `${node.text}\n`;
+        if (node.type === 'link') {
+          const label = flatten(node.children);
+          return /^(?:https?:\/\/|www\.)/i.test(label) ? label : `${label} (${node.href})`;
+        }
+        return flatten(node.children);
+      })
+      .join('');
+
+  return flatten(parseMarkdown(text));
+};
@@ -0,0 +1,123 @@
+// Full-text search over chat history. The backends can't query message text, so history is
+// paged in with fetchBefore and matched on the client.
+
+import {
+  getChatBackend,
+  isEventMessage,
+  type EmotionLabel,
+  type Message,
+  type MessageCursor,
+} from '@/lib/backend';
+import { stripMarkdown } from '@/lib/markdown';
+
+export interface MessageSearchFilters {
+  senderId?: string;
+  // Inclusive range of timestamps
+  from?: number;
+  to?: number;
+  emotion?: EmotionLabel;
+}
+
+export interface MessageSearchHit {
+  chatId: string;
+  message: Message;
+  // The matched text with markdown removed, for snippets
+  text: string;
+}
+
+// How far back a chat is searched, newest first
+export const SEARCH_HISTORY_LIMIT = 2000;
+const SEARCH_PAGE_SIZE = 200;
+
+// Lower-cased words of the query; a message matches when it contains all of them
+export const searchTerms = (query: string): string[] =>
+  Array.from(new Set(query.toLowerCase().split(/\s+/).filter(Boolean)));
+
+// Start/end offsets of every term occurrence, sorted and merged where they overlap
+export const findMatches = (text: string, terms: string[]): Array<[number, number]> => {
+  const lower = text.toLowerCase();
+  const ranges: Array<[number, number]> = [];
+  terms.forEach((term) => {
+    for (let index = lower.indexOf(term); index !== -1; index = lower.indexOf(term, index + term.length)) {
+      ranges.push([index, index + term.length]);
+    }
+  });
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  return ranges.reduce<Array<[number, number]>>((merged, range) => {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([...range]);
+    }
+    return merged;
+  }, []);
+};
+
+// What a message can be found by: its text, file names and voice message transcripts
+export const searchableText = (message: Message): string =>
+  [
+    stripMarkdown(message.text),
+    ...(message.attachments || []).map((attachment) => attachment.transcript || attachment.name),
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+export const hasActiveFilters = (filters: MessageSearchFilters) =>
+  !!(filters.senderId || filters.from || filters.to || filters.emotion);
+
+const matchesFilters = (message: Message, filters: MessageSearchFilters) =>
+  (!filters.senderId || message.senderId === filters.senderId) &&
+  (!filters.from || message.timestamp >= filters.from) &&
+  (!filters.to || message.timestamp <= filters.to) &&
+  (!filters.emotion || (message.emotionAnalysis?.primary ?? message.emotion ?? 'neutral') === filters.emotion);
+
+// Hits newest first. Deleted messages and group/call events are never hits; with filters set,
+// an empty query lists every message that passes them.
+export const searchMessages = (
+  chatId: string,
+  messages: Message[],
+  query: string,
+  filters: MessageSearchFilters = {}
+): MessageSearchHit[] => {
+  const terms = searchTerms(query);
+  if (!terms.length && !hasActiveFilters(filters)) return [];
+
+  return messages
+    .filter((message) => !message.isDeleted && !isEventMessage(message) && matchesFilters(message, filters))
+    .map((message) => ({ chatId, message, text: searchableText(message) }))
+    .filter((hit) => {
+      const lower = hit.text.toLowerCase();
+      return terms.every((term) => lower.includes(term));
+    })
+    .sort((a, b) => b.message.timestamp - a.message.timestamp);
+};
+
+// A stretch of text around the first match, so hits deep inside long messages are visible
+export const hitSnippet = (text: string, terms: string[], radius = 40): string => {
+  const flat = text.replace(/\s+/g, ' ');
+  const [first] = findMatches(flat, terms);
+  if (!first || first[0] <= radius) return flat.length > radius * 3 ? `${flat.slice(0, radius * 3)}…` : flat;
+
+  const start = flat.lastIndexOf(' ', first[0] - radius) + 1;
+  const end = first[1] + radius * 2;
+  return `…${flat.slice(start, end)}${end < flat.length ? '…' : ''}`;
+};
+
+// The chat's history up to SEARCH_HISTORY_LIMIT messages, oldest first, without the ones the
+// user deleted for themselves
+export const fetchSearchableHistory = async (chatId: string, uid: string): Promise<Message[]> => {
+  const backend = getChatBackend();
+  const hiddenIds = await backend.messages.getHidden(uid, chatId);
+
+  const history: Message[] = [];
+  let cursor: MessageCursor = { id: '~', timestamp: Number.MAX_SAFE_INTEGER };
+  while (history.length < SEARCH_HISTORY_LIMIT) {
+    const page = await backend.messages.fetchBefore(chatId, cursor, SEARCH_PAGE_SIZE);
+    history.unshift(...page);
+    if (page.length < SEARCH_PAGE_SIZE) break;
+    cursor = page[0];
+  }
+  return history.filter((message) => !hiddenIds[message.id]);
+};
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import type { Message } from '@/lib/backend';
+import {
+  EMPTY_MESSAGE_STORE,
+  removeMessage,
+  selectMessages,
+  updateMessage,
+  upsertMessages,
+} from './messageStore';
+
+const message = (id: string, timestamp: number, text = id): Message => ({
+  id,
+  senderId: 'a',
+  senderName: 'A',
+  text,
+  timestamp,
+});
+
+const idsOf = (messages: Message[]) => messages.map((m) => m.id);
+
+describe('upsertMessages', () => {
+  it.each([
+    ['in order', [message('a', 1), message('b', 2), message('c', 3)], ['a', 'b', 'c']],
+    ['out of order', [message('c', 3), message('a', 1), message('b', 2)], ['a', 'b', 'c']],
+    ['with equal timestamps, by id', [message('b', 1), message('c', 1), message('a', 1)], ['a', 'b', 'c']],
+    ['into the middle', [message('a', 1), message('c', 3), message('b', 2)], ['a', 'b', 'c']],
+  ])('keeps messages added %s sorted', (_case, messages, ids) => {
+    expect(upsertMessages(EMPTY_MESSAGE_STORE, messages).ids).toEqual(ids);
+  });
+
+  it('returns the same store when nothing changed', () => {
+    const first = message('a', 1);
+    const store = upsertMessages(EMPTY_MESSAGE_STORE, [first]);
+    expect(upsertMessages(store, [first])).toBe(store);
+    expect(upsertMessages(store, [])).toBe(store);
+  });
+
+  it('replaces a changed message in place, sharing the id order', () => {
+    const store = upsertMessages(EMPTY_MESSAGE_STORE, [message('a', 1), message('b', 2)]);
+    const next = upsertMessages(store, [message('a', 1, 'edited')]);
+    expect(next.ids).toBe(store.ids);
+    expect(next.byId.a.text).toBe('edited');
+    expect(store.byId.a.text).toBe('a');
+  });
+
+  it('moves a message whose timestamp changed', () => {
+    const store = upsertMessages(EMPTY_MESSAGE_STORE, [message('a', 1), message('b', 2), message('c', 3)]);
+    const next = upsertMessages(store, [message('a', 4)]);
+    expect(next.ids).toEqual(['b', 'c', 'a']);
+    expect(store.ids).toEqual(['a', 'b', 'c']);
+  });
+
+  it('leaves messages already held alone with keepExisting', () => {
+    const store = upsertMessages(EMPTY_MESSAGE_STORE, [message('b', 2, 'live')]);
+    const next = upsertMessages(store, [message('a', 1), message('b', 2, 'stale')], { keepExisting: true });
+    expect(idsOf(selectMessages(next))).toEqual(['a', 'b']);
+    expect(next.byId.b.text).toBe('live');
+  });
+});
+
+describe('updateMessage', () => {
+  it('changes a loaded message', () => {
+    const store = upsertMessages(EMPTY_MESSAGE_STORE, [message('a', 1)]);
+    expect(updateMessage(store, 'a', (m) => ({ ...m, text: 'changed' })).byId.a.text).toBe('changed');
+  });
+
+  it('ignores a message that is not loaded', () => {
+    const store = upsertMessages(EMPTY_MESSAGE_STORE, [message('a', 1)]);
+    expect(updateMessage(store, 'missing', (m) => ({ ...m, text: 'changed' }))).toBe(store);
+  });
+});
+
+describe('removeMessage', () => {
+  it('drops the message and its id', () => {
+    const store = upsertMessages(EMPTY_MESSAGE_STORE, [message('a', 1), message('b', 2)]);
+    const next = removeMessage(store, 'a');
+    expect(next.ids).toEqual(['b']);
+    expect(next.byId.a).toBeUndefined();
+  });
+
+  it('returns the same store for a message that is not loaded', () => {
+    const store = upsertMessages(EMPTY_MESSAGE_STORE, [message('a', 1)]);
+    expect(removeMessage(store, 'missing')).toBe(store);
+  });
+});
@@ -0,0 +1,70 @@
+// The open chat's messages normalized by id, with the ids kept in display order so a change
+// to one message touches one entry instead of re-sorting the whole history.
+
+import { compareMessages, type Message } from '@/lib/backend';
+
+export interface MessageStore {
+  byId: Record<string, Message>;
+  // Oldest first, in compareMessages order
+  ids: string[];
+}
+
+export const EMPTY_MESSAGE_STORE: MessageStore = { byId: {}, ids: [] };
+
+// Position of the first id that sorts after `message`
+const insertionIndex = (ids: string[], byId: Record<string, Message>, message: Message) => {
+  let low = 0;
+  let high = ids.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (compareMessages(byId[ids[mid]], message) <= 0) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+};
+
+// Adds or replaces messages. `keepExisting` leaves the copies already held alone, for pages of
+// history that may be older than what the live listener delivered. Returns the same store
+// when nothing changed.
+export const upsertMessages = (
+  store: MessageStore,
+  messages: Message[],
+  { keepExisting = false } = {}
+): MessageStore => {
+  let byId = store.byId;
+  let ids = store.ids;
+
+  messages.forEach((message) => {
+    const existing = byId[message.id];
+    if (existing && (keepExisting || existing === message)) return;
+
+    if (byId === store.byId) byId = { ...byId };
+    const moved = !existing || compareMessages(existing, message) !== 0;
+    if (moved && ids === store.ids) ids = [...ids];
+    if (existing && moved) ids.splice(ids.indexOf(message.id), 1);
+
+    byId[message.id] = message;
+    if (moved) ids.splice(insertionIndex(ids, byId, message), 0, message.id);
+  });
+
+  return byId === store.byId ? store : { byId, ids };
+};
+
+// Replaces one message with what `change` makes of it, if it is loaded
+export const updateMessage = (
+  store: MessageStore,
+  messageId: string,
+  change: (message: Message) => Message
+): MessageStore => {
+  const message = store.byId[messageId];
+  return message ? upsertMessages(store, [change(message)]) : store;
+};
+
+export const removeMessage = (store: MessageStore, messageId: string): MessageStore => {
+  if (!store.byId[messageId]) return store;
+
+  const { [messageId]: _removed, ...byId } = store.byId;
+  return { byId, ids: store.ids.filter((id) => id !== messageId) };
+};
+
+export const selectMessages = (store: MessageStore) => store.ids.map((id) => store.byId[id]);
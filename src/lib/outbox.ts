@@ -0,0 +1,152 @@
+// The outbox: messages the sender has sent that the backend hasn't stored yet. Entries are kept
+// in IndexedDB per user, files included, so a reload or a dropped connection loses nothing.
+
+import { getChatBackend, type Message, type MessageAttachment } from '@/lib/backend';
+import { isPermanent } from '@/lib/backend/retry';
+import { attachmentPath, type PreparedAttachment } from '@/lib/attachments';
+import { createKeyValueStore } from '@/lib/idb';
+
+// pending: waiting for its next attempt; failed: out of automatic attempts, the sender
+// resends or cancels it
+export type OutboxStatus = 'pending' | 'sending' | 'failed';
+
+export interface OutboxEntry {
+  // Also the id the message is stored under, so an attempt that did get through isn't doubled
+  id: string;
+  chatId: string;
+  recipientIds: string[];
+  // The attachments are uploaded when the entry is delivered
+  message: Omit<Message, 'id' | 'attachments'>;
+  attachments: PreparedAttachment[];
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  error?: string;
+}
+
+// What the composer hands over; the outbox adds the delivery state
+export type NewOutboxEntry = Pick<OutboxEntry, 'id' | 'chatId' | 'recipientIds' | 'message' | 'attachments'>;
+
+// Automatic attempts before an entry is marked failed
+export const MAX_AUTO_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 2000;
+const RETRY_MAX_DELAY_MS = 60 * 1000;
+// A write the server hasn't confirmed by then counts as a failed attempt
+const SEND_TIMEOUT_MS = 30 * 1000;
+
+const store = createKeyValueStore('serene-outbox');
+const storeKey = (uid: string) => `outbox/${uid}`;
+
+// 2s, 4s, 8s, ... up to a minute, with jitter so entries queued together don't retry in step
+export const retryDelay = (attempts: number) =>
+  Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempts - 1), RETRY_MAX_DELAY_MS) * (0.75 + Math.random() * 0.5);
+
+// Whether another attempt could go differently, e.g. not after losing access to the chat
+export const isRetryable = (error: unknown) => !isPermanent(error);
+
+// Object URLs end with the page, so previews are made again from the stored files
+const withPreview = (attachment: PreparedAttachment): PreparedAttachment => ({
+  ...attachment,
+  previewUrl:
+    attachment.kind === 'image' || attachment.kind === 'voice' ? URL.createObjectURL(attachment.file) : undefined,
+});
+
+export const loadOutbox = async (uid: string): Promise<OutboxEntry[]> => {
+  const entries = (await store.get<OutboxEntry[]>(storeKey(uid))) || [];
+  // Waiting entries, including an attempt the reload cut short, are tried again right away
+  return entries.map((entry) => ({
+    ...entry,
+    ...(entry.status === 'failed' ? {} : { status: 'pending', nextAttemptAt: Date.now() }),
+    attachments: entry.attachments.map(withPreview),
+  }));
+};
+
+export const saveOutbox = (uid: string, entries: OutboxEntry[]) =>
+  entries.length
+    ? store.set(
+        storeKey(uid),
+        entries.map((entry) => ({
+          ...entry,
+          attachments: entry.attachments.map(({ previewUrl: _previewUrl, ...attachment }) => attachment),
+        }))
+      )
+    : store.delete(storeKey(uid));
+
+// Uploads every attachment or none: if one fails, the ones already stored are removed again
+const uploadAttachments = async (
+  chatId: string,
+  uid: string,
+  attachments: PreparedAttachment[],
+  onProgress?: (attachmentId: string, progress: number) => void
+): Promise<MessageAttachment[]> => {
+  const storage = getChatBackend().storage;
+  const results = await Promise.allSettled(
+    attachments.map(async (attachment): Promise<MessageAttachment> => {
+      const path = attachmentPath(chatId, uid, attachment);
+      const url = await storage.upload(path, attachment.file, (progress) => onProgress?.(attachment.id, progress));
+      return {
+        id: attachment.id,
+        kind: attachment.kind,
+        name: attachment.name,
+        mimeType: attachment.mimeType,
+        size: attachment.size,
+        url,
+        path,
+        ...(attachment.thumbnail ? { thumbnail: attachment.thumbnail } : {}),
+        ...(attachment.width ? { width: attachment.width, height: attachment.height } : {}),
+        ...(attachment.kind === 'voice'
+          ? { duration: attachment.duration, waveform: attachment.waveform, transcript: attachment.transcript || '' }
+          : {}),
+        ...(attachment.flagged ? { flagged: true } : {}),
+      };
+    })
+  );
+
+  const failed = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+  const uploaded = results.flatMap((result) => (result.status === 'fulfilled' ? [result.value] : []));
+  if (failed) {
+    await Promise.allSettled(uploaded.map((attachment) => storage.remove(attachment.path)));
+    throw new Error(failed.reason?.message || 'Uploading the attachments failed.');
+  }
+  return uploaded;
+};
+
+const withTimeout = <T>(promise: Promise<T>, ms: number) =>
+  new Promise<T>((resolve, reject) => {
+    const timeout = setTimeout(() => reject(new Error('The server did not respond in time.')), ms);
+    promise.then(resolve, reject).finally(() => clearTimeout(timeout));
+  });
+
+// Writes the server hasn't answered yet, by entry id. A timed-out write stays queued in the SDK
+// and may still land, and sending the message again would bump the unread counts twice.
+const pendingSends = new Map<string, Promise<string>>();
+
+// A write for this entry may still land, so it can't be taken back yet
+export const isSendPending = (id: string) => pendingSends.has(id);
+
+// One attempt at storing an entry: its files first, then the message under the entry's id. If
+// an earlier attempt's write is still pending, this one waits for it instead.
+export const deliverOutboxEntry = async (
+  entry: OutboxEntry,
+  onUploadProgress?: (attachmentId: string, progress: number) => void
+) => {
+  const pending = pendingSends.get(entry.id);
+  if (pending) {
+    await withTimeout(pending, SEND_TIMEOUT_MS);
+    return;
+  }
+
+  const attachments = entry.attachments.length
+    ? await uploadAttachments(entry.chatId, entry.message.senderId, entry.attachments, onUploadProgress)
+    : [];
+
+  const message: Omit<Message, 'id'> = {
+    ...entry.message,
+    ...(attachments.length ? { attachments } : {}),
+  };
+  const send = getChatBackend().messages.send(entry.chatId, message, entry.recipientIds, entry.id);
+  const settle = () => pendingSends.delete(entry.id);
+  pendingSends.set(entry.id, send);
+  send.then(settle, settle);
+  await withTimeout(send, SEND_TIMEOUT_MS);
+};
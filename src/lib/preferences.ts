@@ -0,0 +1,6 @@
+// Per-device UI preferences (composer drafts, emoji usage). Kept out of the chat backend
+// on purpose: they are never synced between devices or shown to other people.
+
+import { createKeyValueStore } from '@/lib/idb';
+
+export const preferencesStore = createKeyValueStore('serene-preferences');
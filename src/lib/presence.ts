@@ -0,0 +1,22 @@
+// Wording for other people's presence in the chat header and list
+
+import { format, formatDistanceStrict, isToday, isYesterday } from 'date-fns';
+import type { UserPresence } from '@/lib/backend';
+
+// A tab without input for this long counts as idle
+export const IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+
+// "Online", "Away", "Last seen 5 minutes ago", "Last seen yesterday at 18:04"
+export const describePresence = (presence: UserPresence | null, now = Date.now()): string => {
+  if (!presence) return '';
+  if (presence.state === 'online') return 'Online';
+  if (presence.state === 'away') return 'Away';
+  if (!presence.lastSeen) return 'Offline';
+
+  const lastSeen = Math.min(presence.lastSeen, now);
+  if (now - lastSeen < 60 * 1000) return 'Last seen just now';
+  if (now - lastSeen < 60 * 60 * 1000) return `Last seen ${formatDistanceStrict(lastSeen, now)} ago`;
+  if (isToday(lastSeen)) return `Last seen today at ${format(lastSeen, 'HH:mm')}`;
+  if (isYesterday(lastSeen)) return `Last seen yesterday at ${format(lastSeen, 'HH:mm')}`;
+  return `Last seen ${format(lastSeen, 'MMM d')}`;
+};
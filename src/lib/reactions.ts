@@ -0,0 +1,22 @@
+import type { Message } from '@/lib/backend';
+
+// Offered in the bubble menu
+export const QUICK_REACTIONS = ['❤️', '👍', '😂', '🤗', '🙏', '😮', '😢'];
+
+export interface ReactionSummary {
+  emoji: string;
+  userIds: string[];
+  reactedByMe: boolean;
+}
+
+// One entry per emoji, most used first
+export const summarizeReactions = (message: Message, uid: string | undefined): ReactionSummary[] =>
+  Object.entries(message.reactions || {})
+    .map(([emoji, users]) => {
+      const userIds = Object.keys(users || {}).filter((id) => users[id]);
+      return { emoji, userIds, reactedByMe: !!uid && userIds.includes(uid) };
+    })
+    .filter((summary) => summary.userIds.length > 0)
+    .sort((a, b) => b.userIds.length - a.userIds.length);
+
+export const hasReacted = (message: Message, emoji: string, uid: string) => !!message.reactions?.[emoji]?.[uid];
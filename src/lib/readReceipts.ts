@@ -0,0 +1,29 @@
+import type { Chat, Message } from '@/lib/backend';
+
+export type ReceiptStatus = 'sent' | 'delivered' | 'read';
+
+export interface MessageReceipt {
+  status: ReceiptStatus;
+  readBy: string[];
+  deliveredTo: string[];
+}
+
+// A message counts as delivered/read once every other member's marker has reached its timestamp
+export const getMessageReceipt = (chat: Chat, message: Message): MessageReceipt => {
+  const recipients = chat.participants.filter((uid) => uid !== message.senderId);
+
+  const readBy = recipients.filter((uid) => (chat.lastReadAt?.[uid] || 0) >= message.timestamp);
+  const deliveredTo = recipients.filter(
+    (uid) =>
+      Math.max(chat.lastDeliveredAt?.[uid] || 0, chat.lastReadAt?.[uid] || 0) >= message.timestamp
+  );
+
+  let status: ReceiptStatus = 'sent';
+  if (recipients.length && readBy.length === recipients.length) {
+    status = 'read';
+  } else if (recipients.length && deliveredTo.length === recipients.length) {
+    status = 'delivered';
+  }
+
+  return { status, readBy, deliveredTo };
+};
@@ -0,0 +1,43 @@
+// Safety Mode helpers: what counts as a contact and how content from others is screened
+
+import type { ChatSummary, Message } from '@/lib/backend';
+import type { Emotion } from '@/lib/ai';
+
+export const NEGATIVE_EMOTIONS: Emotion[] = ['sad', 'angry', 'stressed', 'anxious'];
+
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<]+/gi;
+
+export const HIDDEN_LINK_LABEL = '[link hidden]';
+
+// Contacts are people you share a one-to-one chat with that you started or replied in.
+// Someone who merely messaged you first is not a contact until you answer.
+export const getContactIds = (chats: ChatSummary[], uid: string | undefined): string[] => {
+  if (!uid) return [];
+
+  const contacts = new Set<string>();
+  chats.forEach((chat) => {
+    if (chat.isGroup || !chat.contacted) return;
+    Object.keys(chat.participantNames).forEach((participantId) => {
+      if (participantId !== uid) contacts.add(participantId);
+    });
+  });
+
+  return Array.from(contacts);
+};
+
+// What a message is screened by: its text and what was said in its voice messages, so voice
+// can't get around the checks
+export const screenedContent = (text: string, attachments: Array<{ transcript?: string }> = []) => {
+  const spoken = attachments
+    .map((attachment) => attachment.transcript?.trim())
+    .filter(Boolean)
+    .join('\n');
+  return [text.trim(), spoken].filter(Boolean).join('\n');
+};
+
+export const hasNegativeEmotion = (message: Message) =>
+  !!message.emotion && NEGATIVE_EMOTIONS.includes(message.emotion);
+
+export const containsLink = (text: string) => new RegExp(URL_PATTERN.source, 'i').test(text);
+
+export const hideLinks = (text: string) => text.replace(URL_PATTERN, HIDDEN_LINK_LABEL);
@@ -0,0 +1,99 @@
+import type { SpeechProvider } from './types';
+import { createLocalSpeechProvider } from './local';
+
+// The parts of the Web Speech API used here; not every TypeScript DOM lib declares it
+interface RecognitionResultEvent {
+  resultIndex: number;
+  results: ArrayLike<{ isFinal: boolean; 0: { transcript: string } }>;
+}
+
+interface Recognition {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: RecognitionResultEvent) => void) | null;
+  onend: (() => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  start(): void;
+  stop(): void;
+  abort(): void;
+}
+
+type RecognitionConstructor = new () => Recognition;
+
+// How long to wait for the last result after recording stops
+const FINISH_TIMEOUT_MS = 3000;
+
+const getRecognition = (): RecognitionConstructor | null => {
+  const scope = window as unknown as {
+    SpeechRecognition?: RecognitionConstructor;
+    webkitSpeechRecognition?: RecognitionConstructor;
+  };
+  return scope.SpeechRecognition || scope.webkitSpeechRecognition || null;
+};
+
+// Transcribes with the browser's speech recognition while the user records. Some browsers
+// send the audio to their vendor's service to do this, so it is opt-in. Falls back to the
+// local provider where the API is missing.
+export const createBrowserSpeechProvider = (): SpeechProvider => {
+  const SpeechRecognition = getRecognition();
+  if (!SpeechRecognition) return createLocalSpeechProvider();
+
+  return {
+    kind: 'browser',
+    start: (language) => {
+      const recognition = new SpeechRecognition();
+      recognition.lang = language;
+      recognition.continuous = true;
+      recognition.interimResults = false;
+
+      const parts: string[] = [];
+      let ended = false;
+      let onEnded: (() => void) | null = null;
+
+      recognition.onresult = (event) => {
+        for (let i = event.resultIndex; i < event.results.length; i += 1) {
+          if (event.results[i].isFinal) parts.push(event.results[i][0].transcript.trim());
+        }
+      };
+      recognition.onerror = (event) => {
+        if (event.error !== 'no-speech' && event.error !== 'aborted') {
+          console.warn('Speech recognition failed:', event.error);
+        }
+      };
+      recognition.onend = () => {
+        ended = true;
+        onEnded?.();
+      };
+
+      try {
+        recognition.start();
+      } catch (error) {
+        console.warn('Speech recognition could not start:', error);
+        ended = true;
+      }
+
+      return {
+        finish: () =>
+          new Promise<string>((resolve) => {
+            const done = () => resolve(parts.filter(Boolean).join(' '));
+            if (ended) return done();
+
+            const timeout = setTimeout(() => {
+              recognition.abort();
+              done();
+            }, FINISH_TIMEOUT_MS);
+            onEnded = () => {
+              clearTimeout(timeout);
+              done();
+            };
+            recognition.stop();
+          }),
+        cancel: () => {
+          onEnded = null;
+          recognition.abort();
+        },
+      };
+    },
+  };
+};
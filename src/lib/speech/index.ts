@@ -0,0 +1,23 @@
+import { createBrowserSpeechProvider } from './browser';
+import { createLocalSpeechProvider } from './local';
+import type { SpeechProvider } from './types';
+
+export * from './types';
+export { createBrowserSpeechProvider } from './browser';
+export { createLocalSpeechProvider } from './local';
+
+let provider: SpeechProvider | null = null;
+
+// The on-device stub unless VITE_SPEECH_PROVIDER=browser
+export const getSpeechProvider = (): SpeechProvider => {
+  if (!provider) {
+    provider =
+      import.meta.env.VITE_SPEECH_PROVIDER === 'browser' ? createBrowserSpeechProvider() : createLocalSpeechProvider();
+  }
+  return provider;
+};
+
+// Lets a deployment plug in its own engine (e.g. a hosted transcription API) before the app renders
+export const setSpeechProvider = (next: SpeechProvider | null) => {
+  provider = next;
+};
@@ -0,0 +1,16 @@
+// Contract for the speech-to-text engines that transcribe voice messages. The transcript
+// goes through the same toxicity and emotion checks as typed text.
+
+export type SpeechProviderKind = 'local' | 'browser';
+
+export interface TranscriptionSession {
+  // Resolves to the transcript once the recording has finished; '' when nothing was recognised
+  finish(audio: Blob): Promise<string>;
+  cancel(): void;
+}
+
+export interface SpeechProvider {
+  kind: SpeechProviderKind;
+  // Called as recording starts, so engines that listen live can follow along
+  start(language: string): TranscriptionSession;
+}
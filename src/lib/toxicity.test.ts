@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { classifyToxicity, normalizeText, scoreToxicity, type ToxicityCategory } from './toxicity';
+
+const scoresWith = (category: ToxicityCategory, score: number) => ({
+  insult: 0,
+  threat: 0,
+  profanity: 0,
+  selfHarm: 0,
+  harassment: 0,
+  [category]: score,
+});
+
+describe('scoreToxicity', () => {
+  it.each([
+    [0, 'none', 'allow', 'allow'],
+    [0.19, 'none', 'allow', 'allow'],
+    [0.2, 'low', 'allow', 'warn'],
+    [0.44, 'low', 'allow', 'warn'],
+    [0.45, 'medium', 'warn', 'block'],
+    [0.74, 'medium', 'warn', 'block'],
+    [0.75, 'high', 'block', 'block'],
+    [1, 'high', 'block', 'block'],
+  ])('scores %d as %s: %s by default, %s in Safety Mode', (score, severity, action, strictAction) => {
+    const result = scoreToxicity(scoresWith('insult', score));
+    expect(result.severity).toBe(severity);
+    expect(result.action).toBe(action);
+    expect(result.isToxic).toBe(action === 'block');
+    expect(scoreToxicity(scoresWith('insult', score), { strict: true }).action).toBe(strictAction);
+  });
+
+  it('reports self-harm without blocking the sender', () => {
+    const result = scoreToxicity(scoresWith('selfHarm', 1), { strict: true });
+    expect(result.categories).toEqual(['selfHarm']);
+    expect(result.action).toBe('allow');
+    expect(result.reason).toBeUndefined();
+  });
+});
+
+describe('classifyToxicity', () => {
+  it.each([
+    ['see you tomorrow', 'allow'],
+    ['I could kill for a coffee', 'allow'],
+    ['that was stupid', 'allow'],
+    ['idiot', 'warn'],
+    ['f*ck', 'warn'],
+    ['you are an idiot', 'block'],
+    ["I'll kill you", 'block'],
+    ['kill yourself', 'block'],
+  ])('%j is %s', (text, action) => {
+    expect(classifyToxicity(text).action).toBe(action);
+  });
+
+  it.each([
+    ['that was stupid', 'warn'],
+    ['idiot', 'block'],
+  ])('%j is %s in Safety Mode', (text, action) => {
+    expect(classifyToxicity(text, { strict: true }).action).toBe(action);
+  });
+});
+
+describe('normalizeText', () => {
+  it.each([
+    ['l0ser', 'loser'],
+    ['sh!t', 'shit'],
+    ['f u c k', 'fuck'],
+    ['idiooooot', 'idioot'],
+    ['wait!', 'wait!'],
+  ])('reads %j as %j', (text, normalized) => {
+    expect(normalizeText(text)).toBe(normalized);
+  });
+});
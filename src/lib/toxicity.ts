@@ -0,0 +1,247 @@
+// Local toxicity classifier. Text is normalized to undo common obfuscation (leetspeak,
+// look-alike characters, masked or spaced-out letters) and then scored per category
+// against a weighted lexicon of words and context-aware phrases.
+
+export type ToxicityCategory = 'insult' | 'threat' | 'profanity' | 'selfHarm' | 'harassment';
+export type ToxicitySeverity = 'none' | 'low' | 'medium' | 'high';
+export type ModerationAction = 'allow' | 'warn' | 'block';
+
+export interface ToxicityResult {
+  isToxic: boolean; // true when the message should be blocked
+  action: ModerationAction;
+  severity: ToxicitySeverity;
+  scores: Record<ToxicityCategory, number>; // 0..1 per category
+  categories: ToxicityCategory[]; // categories that reached at least 'low'
+  reason?: string;
+}
+
+export interface ToxicityOptions {
+  // Safety Mode: block from 'medium' and warn from 'low' instead of block 'high' / warn 'medium'
+  strict?: boolean;
+}
+
+type Weights = Partial<Record<ToxicityCategory, number>>;
+
+export const TOXICITY_CATEGORIES: ToxicityCategory[] = ['insult', 'threat', 'profanity', 'selfHarm', 'harassment'];
+
+// Single words, matched on whole normalized tokens
+const WORDS: Record<string, Weights> = {
+  // profanity
+  fuck: { profanity: 0.6 },
+  fucking: { profanity: 0.5 },
+  fucker: { profanity: 0.6, insult: 0.4 },
+  motherfucker: { profanity: 0.8, insult: 0.5 },
+  shit: { profanity: 0.45 },
+  bullshit: { profanity: 0.4 },
+  bitch: { profanity: 0.5, insult: 0.4 },
+  bastard: { profanity: 0.5, insult: 0.4 },
+  asshole: { profanity: 0.5, insult: 0.5 },
+  ass: { profanity: 0.3 },
+  dick: { profanity: 0.4, insult: 0.2 },
+  piss: { profanity: 0.25 },
+  pissed: { profanity: 0.2 },
+  cunt: { profanity: 0.8, insult: 0.6 },
+  damn: { profanity: 0.1 },
+  hell: { profanity: 0.05 },
+  crap: { profanity: 0.2 },
+  wtf: { profanity: 0.3 },
+  // insults
+  idiot: { insult: 0.45 },
+  stupid: { insult: 0.35 },
+  dumb: { insult: 0.35 },
+  loser: { insult: 0.45 },
+  ugly: { insult: 0.35 },
+  fat: { insult: 0.15 },
+  moron: { insult: 0.5 },
+  retard: { insult: 0.9 },
+  retarded: { insult: 0.9 },
+  pathetic: { insult: 0.4 },
+  worthless: { insult: 0.55 },
+  trash: { insult: 0.25 },
+  freak: { insult: 0.35 },
+  jerk: { insult: 0.3 },
+  weirdo: { insult: 0.3 },
+  // harassment
+  stfu: { harassment: 0.45, profanity: 0.2 },
+  kys: { harassment: 1, selfHarm: 0.3 },
+};
+
+// Phrases matched on the normalized text; these carry the context single words lack
+// ("I'll kill you" versus "I could kill for a coffee")
+const PHRASES: Array<{ pattern: RegExp; weights: Weights }> = [
+  // threats
+  {
+    pattern:
+      /\b(i ?will|i'?ll|ill|i'?m (going to|gonna)|im (going to|gonna)|we'?ll|we will|gonna) (kill|hurt|stab|shoot|murder|strangle) (you|u|ya|him|her|them)\b/,
+    weights: { threat: 0.9 },
+  },
+  { pattern: /\b(kill|stab|shoot|murder|strangle) (you|u|ya)\b/, weights: { threat: 0.5 } },
+  { pattern: /\bbeat (you|u|ya) up\b/, weights: { threat: 0.75 } },
+  { pattern: /\b(you'?re|you are|ur|u r) (dead|done for)\b/, weights: { threat: 0.65 } },
+  { pattern: /\bwatch your back\b/, weights: { threat: 0.6 } },
+  { pattern: /\bi know where you live\b/, weights: { threat: 0.8 } },
+  // encouraging self-harm
+  { pattern: /\b(kill|hurt) (yourself|urself|ur self|your self)\b/, weights: { harassment: 1, selfHarm: 0.3 } },
+  { pattern: /\b(go|just|you should|u should) (die|drop dead)\b/, weights: { harassment: 0.9 } },
+  // harassment
+  { pattern: /\b(fuck|screw) (you|u|ya)\b/, weights: { harassment: 0.8 } },
+  { pattern: /\bfuck off\b/, weights: { harassment: 0.4 } },
+  { pattern: /\b(nobody|no one|no1) (likes|loves|cares about|wants) (you|u)\b/, weights: { harassment: 0.6 } },
+  { pattern: /\beveryone hates (you|u)\b/, weights: { harassment: 0.6 } },
+  { pattern: /\bi hate (you|u)\b/, weights: { harassment: 0.5 } },
+  { pattern: /\bshut (up|your mouth)\b/, weights: { harassment: 0.3 } },
+  // self-harm (reported, never blocked)
+  {
+    pattern:
+      /\b(kill|hurt|cut|harm) (myself|my self)\b|\bsuicid(e|al)\b|\b(want|wanna|going) to die\b|\bend (my life|it all)\b|\b(don'?t|do not) want to (live|be here)\b|\bbetter off dead\b/,
+    weights: { selfHarm: 0.9 },
+  },
+];
+
+// Second person words that turn an insult into a personal attack ("you're an idiot")
+const DIRECTED = /\b(you|you'?re|u|ur|your|ya)\b/;
+const DIRECTED_BOOST = 0.3;
+
+// Cyrillic and Greek letters commonly swapped in for Latin ones
+const LOOK_ALIKES: Record<string, string> = {
+  а: 'a', в: 'b', е: 'e', к: 'k', м: 'm', н: 'h', о: 'o', р: 'p', с: 'c', т: 't', у: 'y', х: 'x',
+  і: 'i', ј: 'j', ѕ: 's', ԁ: 'd', ɡ: 'g', α: 'a', β: 'b', ε: 'e', ι: 'i', κ: 'k', ο: 'o', ρ: 'p',
+  τ: 't', υ: 'u', ν: 'v', χ: 'x',
+};
+
+// Digits and symbols standing in for letters, only replaced when touching a letter
+const LEET: Record<string, string> = {
+  '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '8': 'b', '9': 'g',
+  '@': 'a', $: 's', '!': 'i', '|': 'l', '+': 't', '€': 'e',
+};
+
+const WORD_LIST = Object.keys(WORDS);
+
+const collapseRuns = (text: string, max: number) =>
+  text.replace(/([a-z])\1+/g, (run, letter: string) => letter.repeat(Math.min(run.length, max)));
+
+// "f*ck", "sh#t", "a**hole": resolve masked tokens against the lexicon
+const unmask = (token: string) => {
+  if (!/[a-z]/.test(token)) return token;
+
+  const pattern = new RegExp(`^${token.replace(/[*#]+/g, (mask) => `[a-z]{${mask.length},${mask.length + 1}}`)}$`);
+  return WORD_LIST.find((word) => pattern.test(word)) || token;
+};
+
+const isLetter = (char: string | undefined) => !!char && /[a-z*#]/.test(char);
+
+export const normalizeText = (text: string) => {
+  let normalized = text
+    .normalize('NFKC')
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[’‘`]/g, "'");
+
+  normalized = Array.from(normalized, (char) => LOOK_ALIKES[char] ?? char).join('');
+
+  // Digits and '@$€' may lead or trail a word ("@ss", "l0ser"); '!|+' only count
+  // inside one ("sh!t"), so ordinary punctuation is left alone
+  normalized = normalized.replace(/[0-9@$€!|+]/g, (char, index: number, whole: string) => {
+    const before = isLetter(whole[index - 1]);
+    const after = isLetter(whole[index + 1]);
+    const inside = /[!|+]/.test(char) ? before && after : before || after;
+    return inside ? LEET[char] : char;
+  });
+
+  normalized = normalized.replace(/[a-z]*[*#]+[a-z*#]*/g, unmask);
+
+  // "f u c k", "f.u.c.k", "s-h-i-t": join runs of three or more single letters
+  normalized = normalized.replace(/\b[a-z](?:[\s.\-_]+[a-z]\b){2,}/g, (run) => run.replace(/[\s.\-_]+/g, ''));
+
+  return collapseRuns(normalized.replace(/\s+/g, ' ').trim(), 2);
+};
+
+const emptyScores = (): Record<ToxicityCategory, number> => ({
+  insult: 0,
+  threat: 0,
+  profanity: 0,
+  selfHarm: 0,
+  harassment: 0,
+});
+
+const addWeights = (scores: Record<ToxicityCategory, number>, weights: Weights, boost = 0) => {
+  (Object.entries(weights) as Array<[ToxicityCategory, number]>).forEach(([category, weight]) => {
+    scores[category] = Math.min(1, scores[category] + weight + (category === 'insult' ? boost : 0));
+  });
+};
+
+const toSeverity = (score: number): ToxicitySeverity => {
+  if (score >= 0.75) return 'high';
+  if (score >= 0.45) return 'medium';
+  if (score >= 0.2) return 'low';
+  return 'none';
+};
+
+const SEVERITY_RANK: Record<ToxicitySeverity, number> = { none: 0, low: 1, medium: 2, high: 3 };
+
+const REASONS: Record<ToxicityCategory, string> = {
+  insult: 'Message may come across as insulting',
+  threat: 'Message contains threatening language',
+  profanity: 'Message contains strong language',
+  selfHarm: 'Message mentions self-harm',
+  harassment: 'Message may be hurtful to others',
+};
+
+export const classifyToxicity = (text: string, options: ToxicityOptions = {}): ToxicityResult => {
+  const normalized = normalizeText(text);
+  // Also try with doubled letters squashed ("fuuck" -> "fuck"), for words long enough not to collide
+  const squashed = collapseRuns(normalized, 1);
+  const scores = emptyScores();
+
+  const tokens = normalized.split(/[^a-z]+/).filter(Boolean);
+  const squashedTokens = squashed.split(/[^a-z]+/).filter(Boolean);
+  const directed = DIRECTED.test(normalized);
+
+  WORD_LIST.forEach((word) => {
+    const squashedWord = collapseRuns(word, 1);
+    const matched =
+      tokens.includes(word) || (squashedWord.length >= 4 && squashedTokens.includes(squashedWord));
+    if (matched) {
+      addWeights(scores, WORDS[word], directed && WORDS[word].insult ? DIRECTED_BOOST : 0);
+    }
+  });
+
+  PHRASES.forEach(({ pattern, weights }) => {
+    if (pattern.test(normalized) || pattern.test(squashed)) {
+      addWeights(scores, weights);
+    }
+  });
+
+  return scoreToxicity(scores, options);
+};
+
+// Turns per-category scores (from the lexicon above or another classifier) into a moderation decision
+export const scoreToxicity = (
+  scores: Record<ToxicityCategory, number>,
+  options: ToxicityOptions = {}
+): ToxicityResult => {
+  const categories = TOXICITY_CATEGORIES.filter((category) => scores[category] >= 0.2);
+
+  // Self-harm is surfaced for support, never used to block the sender
+  const moderated = TOXICITY_CATEGORIES.filter((category) => category !== 'selfHarm');
+  const worst = moderated.reduce((top, category) => (scores[category] > scores[top] ? category : top), moderated[0]);
+  const severity = toSeverity(scores[worst]);
+
+  const rank = SEVERITY_RANK[severity];
+  let action: ModerationAction = 'allow';
+  if (options.strict) {
+    action = rank >= SEVERITY_RANK.medium ? 'block' : rank >= SEVERITY_RANK.low ? 'warn' : 'allow';
+  } else {
+    action = rank >= SEVERITY_RANK.high ? 'block' : rank >= SEVERITY_RANK.medium ? 'warn' : 'allow';
+  }
+
+  return {
+    isToxic: action === 'block',
+    action,
+    severity,
+    scores,
+    categories,
+    reason: action === 'allow' ? undefined : REASONS[worst],
+  };
+};
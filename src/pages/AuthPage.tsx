@@ -10,7 +10,7 @@ import { Shield, Heart, Smile, Lock, Users, Mail, Eye, EyeOff } from 'lucide-rea
 import { useToast } from '@/hooks/use-toast';
 
 const AuthPage: React.FC = () => {
-  const { signIn, signUp, signInWithGoogle, isConfigured, configError } = useAuth();
+  const { signIn, signUp, signInWithGoogle, isConfigured, backendKind, configError } = useAuth();
   const { toast } = useToast();
   const [loading, setLoading] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
@@ -205,9 +205,7 @@ const AuthPage: React.FC = () => {
               <CardDescription>
                 {isConfigured
                   ? 'Sign in to your account or create a new one'
-                  : configError
-                    ? 'Fix your Firebase configuration to continue'
-                    : 'Configure Firebase to get started'}
+                  : 'Fix your Firebase configuration to continue'}
               </CardDescription>
             </CardHeader>
 
@@ -217,10 +215,17 @@ const AuthPage: React.FC = () => {
                   <p className="text-sm text-warning-foreground font-medium mb-2">
                     Firebase Configuration Required
                   </p>
+                  <p className="text-xs text-muted-foreground">{configError}</p>
+                </div>
+              )}
+
+              {isConfigured && backendKind === 'local' && (
+                <div className="mb-6 p-4 rounded-lg bg-accent border border-border">
+                  <p className="text-sm text-accent-foreground font-medium mb-2">Offline Demo Mode</p>
                   <p className="text-xs text-muted-foreground">
-                    {configError
-                      ? configError
-                      : 'Add your Firebase config as environment variables: VITE_FIREBASE_API_KEY, VITE_FIREBASE_AUTH_DOMAIN, VITE_FIREBASE_DATABASE_URL, VITE_FIREBASE_PROJECT_ID, etc.'}
+                    Firebase isn't configured, so accounts and chats are stored in this browser only. Add
+                    VITE_FIREBASE_API_KEY, VITE_FIREBASE_DATABASE_URL, VITE_FIREBASE_PROJECT_ID, etc. to sync
+                    across devices.
                   </p>
                 </div>
               )}
@@ -1,9 +1,19 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { motion } from 'framer-motion';
 import { useAuth } from '@/contexts/AuthContext';
-import { useChats, Chat } from '@/hooks/useChat';
+import { useChats, useChatRecord, type ChatSummary } from '@/hooks/useChat';
+import type { DirectoryEntry, MessageCursor } from '@/lib/backend';
 import ChatList from '@/components/chat/ChatList';
 import ChatView from '@/components/chat/ChatView';
+import MessageSearchResults from '@/components/chat/MessageSearchResults';
+import MessageSearchFilterMenu from '@/components/chat/MessageSearchFilterMenu';
+import CallOverlay from '@/components/chat/CallOverlay';
+import PeoplePicker from '@/components/chat/PeoplePicker';
+import NewGroupDialog from '@/components/chat/NewGroupDialog';
+import TrustedContactDialog from '@/components/wellbeing/TrustedContactDialog';
+import { getContactIds } from '@/lib/safety';
+import { hasActiveFilters, searchTerms, type MessageSearchFilters } from '@/lib/messageSearch';
+import { useMessageSearch } from '@/hooks/useMessageSearch';
 import WellbeingWidget from '@/components/wellbeing/WellbeingWidget';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -35,18 +45,53 @@ import {
   Sun,
   UserPlus,
   Loader2,
+  HeartHandshake,
+  Eye,
+  EyeOff,
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 
+// Matches the "(3) " unread prefix added to the tab title
+const UNREAD_TITLE_PREFIX = /^\(\d+\+?\) /;
+const MIN_MESSAGE_QUERY = 2;
+
 const ChatDashboard: React.FC = () => {
-  const { user, userProfile, logout } = useAuth();
-  const { chats, loading, createChat, createGroupChat } = useChats();
+  const { user, userProfile, logout, updateUserProfile } = useAuth();
+  const { chats, loading, createChat, createGroupChat, notifyTrustedContact, setPreferences } = useChats();
   const { toast } = useToast();
-  const [selectedChat, setSelectedChat] = useState<Chat | null>(null);
+  const [selectedChatId, setSelectedChatId] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
+  const [searchFilters, setSearchFilters] = useState<MessageSearchFilters>({});
+  // Message picked from the search results, scrolled to once its chat has opened
+  const [focusMessage, setFocusMessage] = useState<MessageCursor | null>(null);
   const [showNewChat, setShowNewChat] = useState(false);
-  const [newChatEmail, setNewChatEmail] = useState('');
+  const [newChatPerson, setNewChatPerson] = useState<DirectoryEntry | null>(null);
   const [creating, setCreating] = useState(false);
+  const [showNewGroup, setShowNewGroup] = useState(false);
+  const [showTrustedContact, setShowTrustedContact] = useState(false);
+
+  // Follow the live chat list so a left group closes; the open chat's full record is read on its own
+  const selectedSummary = chats.find((chat) => chat.id === selectedChatId) || null;
+  const selectedChat = useChatRecord(selectedSummary ? selectedSummary.id : null);
+
+  // Show the total unread count in the tab title, leaving out muted chats
+  const totalUnread = chats.reduce(
+    (total, chat) => total + (chat.id === selectedChatId || chat.muted ? 0 : chat.unreadCount || 0),
+    0
+  );
+
+  useEffect(() => {
+    const baseTitle = document.title.replace(UNREAD_TITLE_PREFIX, '');
+    document.title = totalUnread ? `(${totalUnread > 99 ? '99+' : totalUnread}) ${baseTitle}` : baseTitle;
+  }, [totalUnread]);
+
+  useEffect(() => {
+    return () => {
+      document.title = document.title.replace(UNREAD_TITLE_PREFIX, '');
+    };
+  }, []);
+
+  const clearFocusMessage = useCallback(() => setFocusMessage(null), []);
 
   const handleLogout = async () => {
     try {
@@ -64,18 +109,59 @@ const ChatDashboard: React.FC = () => {
     }
   };
 
+  const handleToggleSafetyMode = async () => {
+    const safetyMode = !userProfile?.safetyMode;
+    try {
+      await updateUserProfile({ safetyMode });
+      toast({
+        title: safetyMode ? "Safety Mode on" : "Safety Mode off",
+        description: safetyMode
+          ? "Upsetting messages will be covered and links from people you don't know are hidden."
+          : "Messages will be shown as they are.",
+      });
+    } catch (error) {
+      toast({
+        title: "Couldn't update Safety Mode",
+        description: "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleToggleLastSeen = async () => {
+    const hideLastSeen = !userProfile?.hideLastSeen;
+    try {
+      await updateUserProfile({ hideLastSeen });
+      toast({
+        title: hideLastSeen ? "Last seen hidden" : "Last seen visible",
+        description: hideLastSeen
+          ? "Others can see when you're online, but not when you were last here."
+          : "Others can see when you were last online.",
+      });
+    } catch (error) {
+      toast({
+        title: "Couldn't update your privacy setting",
+        description: "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleNewChatOpenChange = (open: boolean) => {
+    setShowNewChat(open);
+    if (!open) setNewChatPerson(null);
+  };
+
   const handleStartNewChat = async () => {
-    if (!newChatEmail.trim()) return;
+    if (!newChatPerson) return;
     
     setCreating(true);
     try {
-      // In a real app, you'd search for users by email
-      // For now, we'll create a chat with a placeholder
-      const chatId = await createChat(newChatEmail, newChatEmail);
+      const chatId = await createChat(newChatPerson.uid);
       
       if (chatId) {
-        setShowNewChat(false);
-        setNewChatEmail('');
+        handleNewChatOpenChange(false);
+        setSelectedChatId(chatId);
         toast({
           title: "Chat created",
           description: "You can now start messaging.",
@@ -84,7 +170,7 @@ const ChatDashboard: React.FC = () => {
     } catch (error) {
       toast({
         title: "Couldn't start chat",
-        description: "Please try again.",
+        description: error instanceof Error ? error.message : "Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -92,6 +178,24 @@ const ChatDashboard: React.FC = () => {
     }
   };
 
+  // Message search kicks in from two characters so single keystrokes don't scan every chat
+  const searchActive = !!searchQuery.trim() || hasActiveFilters(searchFilters);
+  const messageQuery = searchQuery.trim().length >= MIN_MESSAGE_QUERY ? searchQuery : '';
+  const { results: searchHits, searching } = useMessageSearch(
+    searchActive ? chats.map((chat) => chat.id) : [],
+    messageQuery,
+    searchFilters
+  );
+  const searchSenders = useMemo(() => {
+    const names = new Map<string, string>();
+    chats.forEach((chat) =>
+      Object.entries(chat.participantNames).forEach(([uid, name]) => {
+        if (!names.has(uid)) names.set(uid, uid === user?.uid ? 'You' : name || 'User');
+      })
+    );
+    return Array.from(names, ([uid, name]) => ({ uid, name })).sort((a, b) => a.name.localeCompare(b.name));
+  }, [chats, user]);
+
   const filteredChats = chats.filter((chat) => {
     if (!searchQuery) return true;
     
@@ -105,14 +209,14 @@ const ChatDashboard: React.FC = () => {
     );
   });
 
-  const getChatDisplayName = (chat: Chat): string => {
+  const getChatDisplayName = (chat: ChatSummary): string => {
     if (chat.isGroup) return chat.groupName || 'Group Chat';
-    const otherParticipantId = chat.participants.find((p) => p !== user?.uid);
+    const otherParticipantId = Object.keys(chat.participantNames).find((p) => p !== user?.uid);
     return otherParticipantId ? chat.participantNames[otherParticipantId] : 'Unknown';
   };
 
   // Mobile view: show either list or chat
-  const showMobileChat = selectedChat !== null;
+  const showMobileChat = selectedSummary !== null;
 
   return (
     <div className="h-screen flex bg-background">
@@ -155,10 +259,18 @@ const ChatDashboard: React.FC = () => {
                   <Settings className="h-4 w-4 mr-2" />
                   Settings
                 </DropdownMenuItem>
-                <DropdownMenuItem>
+                <DropdownMenuItem onClick={handleToggleSafetyMode}>
                   <Shield className="h-4 w-4 mr-2" />
                   Safety Mode {userProfile?.safetyMode ? 'On' : 'Off'}
                 </DropdownMenuItem>
+                <DropdownMenuItem onClick={handleToggleLastSeen}>
+                  {userProfile?.hideLastSeen ? <EyeOff className="h-4 w-4 mr-2" /> : <Eye className="h-4 w-4 mr-2" />}
+                  Last Seen {userProfile?.hideLastSeen ? 'Hidden' : 'Visible'}
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setShowTrustedContact(true)}>
+                  <HeartHandshake className="h-4 w-4 mr-2" />
+                  Trusted Contact
+                </DropdownMenuItem>
                 <DropdownMenuSeparator />
                 <DropdownMenuItem onClick={handleLogout} className="text-destructive">
                   <LogOut className="h-4 w-4 mr-2" />
@@ -169,14 +281,17 @@ const ChatDashboard: React.FC = () => {
           </div>
           
           {/* Search */}
-          <div className="relative">
-            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-            <Input
-              placeholder="Search conversations..."
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              className="pl-10 bg-muted border-0"
-            />
+          <div className="flex items-center gap-1">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search conversations and messages..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="pl-10 bg-muted border-0"
+              />
+            </div>
+            <MessageSearchFilterMenu filters={searchFilters} onChange={setSearchFilters} senders={searchSenders} />
           </div>
         </div>
         
@@ -191,20 +306,35 @@ const ChatDashboard: React.FC = () => {
             <div className="flex items-center justify-center h-full">
               <Loader2 className="h-8 w-8 animate-spin text-primary" />
             </div>
+          ) : searchActive ? (
+            <MessageSearchResults
+              chats={searchQuery.trim() ? filteredChats : []}
+              allChats={chats}
+              hits={searchHits}
+              terms={searchTerms(messageQuery)}
+              searching={searching}
+              currentUserId={user?.uid}
+              getChatName={getChatDisplayName}
+              onSelectChat={(chat) => setSelectedChatId(chat.id)}
+              onSelectHit={(hit) => {
+                setSelectedChatId(hit.chatId);
+                setFocusMessage(hit.message);
+              }}
+            />
           ) : (
             <ChatList
               chats={filteredChats}
-              selectedChatId={selectedChat?.id || null}
-              onSelectChat={setSelectedChat}
+              selectedChatId={selectedSummary?.id || null}
+              onSelectChat={(chat) => setSelectedChatId(chat.id)}
             />
           )}
         </div>
         
-        {/* New chat button */}
-        <div className="p-4 border-t">
-          <Dialog open={showNewChat} onOpenChange={setShowNewChat}>
+        {/* New chat buttons */}
+        <div className="p-4 border-t flex gap-2">
+          <Dialog open={showNewChat} onOpenChange={handleNewChatOpenChange}>
             <DialogTrigger asChild>
-              <Button className="w-full gradient-calm">
+              <Button className="flex-1 gradient-calm">
                 <Plus className="h-4 w-4 mr-2" />
                 New Conversation
               </Button>
@@ -213,48 +343,65 @@ const ChatDashboard: React.FC = () => {
               <DialogHeader>
                 <DialogTitle>Start a New Conversation</DialogTitle>
                 <DialogDescription>
-                  Enter the user ID of the person you want to chat with.
+                  Find the person you want to chat with by their name or email.
                 </DialogDescription>
               </DialogHeader>
               <div className="space-y-4 pt-4">
-                <div className="space-y-2">
-                  <label className="text-sm font-medium text-foreground">User ID</label>
-                  <Input
-                    placeholder="Enter user ID..."
-                    value={newChatEmail}
-                    onChange={(e) => setNewChatEmail(e.target.value)}
-                  />
-                  <p className="text-xs text-muted-foreground">
-                    Ask your friend for their user ID to start chatting.
-                  </p>
-                </div>
+                <PeoplePicker
+                  selectedIds={newChatPerson ? [newChatPerson.uid] : []}
+                  onToggle={(entry) =>
+                    setNewChatPerson((current) => (current?.uid === entry.uid ? null : entry))
+                  }
+                />
                 <Button
                   className="w-full"
                   onClick={handleStartNewChat}
-                  disabled={!newChatEmail.trim() || creating}
+                  disabled={!newChatPerson || creating}
                 >
                   {creating ? (
                     <Loader2 className="h-4 w-4 mr-2 animate-spin" />
                   ) : (
                     <UserPlus className="h-4 w-4 mr-2" />
                   )}
-                  Start Chat
+                  {newChatPerson ? `Start Chat with ${newChatPerson.displayName}` : 'Start Chat'}
                 </Button>
               </div>
             </DialogContent>
           </Dialog>
+
+          <Button variant="outline" size="icon" onClick={() => setShowNewGroup(true)} aria-label="New group">
+            <Users className="h-4 w-4" />
+          </Button>
+          <NewGroupDialog
+            open={showNewGroup}
+            onOpenChange={setShowNewGroup}
+            onCreate={createGroupChat}
+            onCreated={setSelectedChatId}
+          />
+          <TrustedContactDialog open={showTrustedContact} onOpenChange={setShowTrustedContact} />
         </div>
       </motion.div>
 
       {/* Chat area */}
       <div className={`flex-1 ${!showMobileChat ? 'hidden md:flex' : 'flex'}`}>
-        {selectedChat ? (
+        {selectedSummary && selectedChat ? (
           <ChatView
+            chat={selectedChat}
+            summary={selectedSummary}
             chatId={selectedChat.id}
-            chatName={getChatDisplayName(selectedChat)}
+            chatName={getChatDisplayName(selectedSummary)}
             isGroup={selectedChat.isGroup}
-            onBack={() => setSelectedChat(null)}
+            contactIds={getContactIds(chats, user?.uid)}
+            onPreferencesChange={(preferences) => setPreferences(selectedSummary.id, preferences)}
+            onNotifyTrustedContact={notifyTrustedContact}
+            onBack={() => setSelectedChatId(null)}
+            focusMessage={focusMessage}
+            onFocusHandled={clearFocusMessage}
           />
+        ) : selectedSummary ? (
+          <div className="flex-1 flex items-center justify-center">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
         ) : (
           <div className="flex-1 flex flex-col items-center justify-center text-center p-8">
             <motion.div
@@ -276,6 +423,8 @@ const ChatDashboard: React.FC = () => {
           </div>
         )}
       </div>
+
+      <CallOverlay />
     </div>
   );
 };
@@ -65,6 +65,7 @@ export default {
         },
         status: {
           online: "hsl(var(--online))",
+          away: "hsl(var(--away))",
           offline: "hsl(var(--offline))",
           typing: "hsl(var(--typing))",
         },